@@ -1,72 +1,59 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Icons } from './components/Icons';
-import * as XLSX from 'xlsx';
-import { RecordItem, InfraReferenceItem } from './types';
-import { getRecords, addRecord, updateRecord, deleteRecord, searchInfraReferences, getInfraHookData, saveInfraReferences, getExistingInfraPlots } from './services/storageService';
+import { RecordItem, InfraReferenceItem, RecordHistoryEntry, SlaRule, SlaEvaluation, SlaSeverity, StagedImportRow, ImportProfile, WorkbookSheet, ImportBatch, GridColumn, GridView, GridViewFilters, SortConfig, RecordPage, FacetKey, FacetCount, RealtimeChange, PresencePeer, SyncConflict, SyncStatus, PortfolioMessage } from './types';
+import { getRecordById, updateRecord, deleteRecord, setOutboxOwner, replayQueuedWrites, checkConnection, searchInfraReferences, getInfraHookData, queryRecords, queryAllRecords, getStatusCounts, getFacetCounts, getPortfolioCounts } from './services/storageService';
+import { ALL_RECORD_COLUMNS, RECORD_COLUMNS, RecordColumn } from './services/recordSchema';
+import { getStorageBackend } from './services/storageBackend';
+import { getRecordHistory, getStageEntryTimes } from './services/historyService';
+import { DEFAULT_SLA_RULES, evaluateSla, getSlaRules, saveSlaRules, getSlaCandidates } from './services/slaService';
+import { ImportMode, countImportActions, pendingImportRows, detectImportProfile, guessImportProfile, hasBlockingIssues } from './services/importService';
+import { countRowValidity, downloadValidationReport } from './services/importValidation';
+import { stageWorkbook, readWorkbook } from './services/importPipeline';
+import { getImportProfiles, saveImportProfile } from './services/importProfileService';
+import { createImportBatch, runImportBatch, rollbackImportBatch, getUnfinishedImportBatches } from './services/importBatchService';
+import { ImportPreviewGrid } from './components/ImportPreviewGrid';
+import { ColumnMapper } from './components/ColumnMapper';
+import { SheetRouter } from './components/SheetRouter';
+import { ImportHistoryView } from './components/ImportHistoryView';
+import { DataQualityView } from './components/DataQualityView';
+import { DataQualityFix, applyDataQualityFixes } from './services/dataQuality';
+import { AnalyticsView } from './components/AnalyticsView';
+import { PortfolioAssistant } from './components/PortfolioAssistant';
+import { ReportViewer } from './components/ReportViewer';
+import { ReportSubject } from './services/llmProvider';
+import { ExportDialog } from './components/ExportDialog';
+import { MergeDialog } from './components/MergeDialog';
+import { columnLabel } from './services/exportService';
+import { PaymentType, PAYMENT_TYPES, calculateCapitalContribution } from './services/calculatorService';
+import { getSyncStatus, onSyncStatusChange, updateSyncStatus, dismissSyncConflict, isOffline } from './services/syncService';
+import { subscribeToRecords, subscribeToInfraReferences, applyRecordChanges, joinPresence } from './services/realtimeService';
+import { RecordGrid, ColumnChooser } from './components/RecordGrid';
+import { DEFAULT_GRID_COLUMNS, getGridViews, saveGridView, deleteGridView } from './services/gridViewService';
+import { ALL_STATUSES_TAB, STATUS_OPTIONS, EMPTY_FILTERS, BLANK_FACET_VALUE, activeFilterCount, encodeFilters, decodeFilters } from './services/recordFilters';
+import { FilterPanel } from './components/FilterPanel';
+import { QueryChips } from './components/QueryChips';
+import { RecordQuery, EMPTY_RECORD_QUERY, recordQueryToFilters } from './services/recordQuery';
+import { InterpretedQuery, interpretRecordQuery } from './services/queryInterpreter';
+import { canDeleteRecords, canEditRecord, canImport, isAdmin } from './services/authService';
+import { AuthProvider, useAuth } from './components/AuthProvider';
+import { STORAGE_CONFIG_ERROR } from './services/storageBackend';
 
 // --- Constants ---
 
-const STATUS_OPTIONS = ["In Design", "GIS", "WL / GSN", "USP", "Passed"];
-const STATUS_SEQUENCE = ["All Projects", ...STATUS_OPTIONS];
+const STATUS_SEQUENCE = [ALL_STATUSES_TAB, ...STATUS_OPTIONS];
 
-const VALID_IMPORT_STATUSES = [
-  "Assign planning", "Site Visit", "Design", "Design approval", 
-  "GIS digitalization", "Wayleave", "Cost estimation", 
-  "Attach Utilities Drawing", "Engineer approval", "1Redesign", 
-  "Suspended by EDD", "Work Design"
-];
+const QUERY_DEBOUNCE_MS = 250;
+const RECONNECT_INTERVAL_MS = 30000;
 
 const EWA_LOGO = "https://www.gdnonline.com/gdnimages/20230724/20230724111752EWALogo.png";
 
-// --- Helper Functions ---
-
-const mapSourceToUIStatus = (sourceStatus: string): string => {
-  const s = sourceStatus.trim().toLowerCase();
-  const inDesign = ["assign planning", "site visit", "design", "design approval", "engineer approval", "1redesign"];
-  const gis = ["gis digitalization"];
-  const wl = ["wayleave"];
-  const usp = ["suspended by edd", "cost estimation", "attach utilities drawing"];
-  const passed = ["work design"];
-
-  if (inDesign.includes(s)) return "In Design";
-  if (gis.includes(s)) return "GIS";
-  if (wl.includes(s)) return "WL / GSN";
-  if (usp.includes(s)) return "USP";
-  if (passed.includes(s)) return "Passed";
-  
-  return "In Design";
-};
+type SlaAlert = { record: RecordItem, sla: SlaEvaluation };
 
-const parseDateSafe = (value: any): string => {
-  if (!value) return '';
-  // Handle Excel date serial numbers if necessary
-  if (typeof value === 'number') {
-    const date = new Date((value - 25569) * 86400 * 1000);
-    return date.toISOString().split('T')[0];
-  }
-  const d = new Date(value);
-  return isNaN(d.getTime()) ? '' : d.toISOString().split('T')[0];
-};
+// --- Helper Functions ---
 
 const normalizePlot = (s: any) => String(s || '').trim().toUpperCase();
 
-const getValueByFuzzyKey = (row: any, ...candidates: string[]): string => {
-  const rowKeys = Object.keys(row);
-  const normalizedKeys = rowKeys.reduce((acc, key) => {
-    acc[key.toLowerCase().replace(/[^a-z0-9]/g, '')] = key;
-    return acc;
-  }, {} as Record<string, string>);
-
-  for (const candidate of candidates) {
-    const normalizedCandidate = candidate.toLowerCase().replace(/[^a-z0-9]/g, '');
-    const foundKey = normalizedKeys[normalizedCandidate];
-    if (foundKey && row[foundKey] !== undefined && row[foundKey] !== null) {
-      return String(row[foundKey]).trim();
-    }
-  }
-  return '';
-};
 
 // --- Styled Sub-Components ---
 
@@ -86,34 +73,7 @@ const FeedbackMessage: React.FC<{ message: string, type: 'success' | 'error', on
   );
 };
 
-const InfraHookBadge: React.FC<{ plot: string, hookData: Record<string, { appNo: string, isPaid: boolean }> }> = ({ plot, hookData }) => {
-  const normalized = normalizePlot(plot);
-  const data = hookData[normalized];
-
-  if (data && data.isPaid) {
-    return (
-      <div className="relative group cursor-help flex items-center">
-        <div className="absolute -inset-1 bg-emerald-500 rounded-lg blur opacity-10 group-hover:opacity-20 transition"></div>
-        <div className="relative flex flex-col items-start px-3 py-1.5 bg-emerald-500/10 border border-emerald-500/20 rounded-xl">
-           <div className="flex items-center gap-1.5">
-              <div className="w-1.5 h-1.5 rounded-full bg-emerald-500"></div>
-              <span className="text-emerald-600 dark:text-emerald-400 font-normal text-[10px] uppercase tracking-wide">YES</span>
-           </div>
-           <span className="text-[9px] font-normal text-slate-400 uppercase leading-none mt-0.5">{data.appNo}</span>
-        </div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="flex items-center gap-1.5 px-3 py-1.5 bg-rose-50 dark:bg-rose-500/5 border border-rose-100 dark:border-rose-500/10 rounded-xl opacity-80">
-        <div className="w-1.5 h-1.5 rounded-full bg-rose-400"></div>
-        <span className="text-rose-500 font-normal text-[10px] uppercase tracking-wide">NO</span>
-    </div>
-  );
-};
-
-const StatCard: React.FC<{ label: string; value: string | number; icon: any; color: string; onClick?: () => void }> = ({ label, value, icon: Icon, color, onClick }) => (
+const StatCard: React.FC<{ label: string; value: string | number; icon: any; color: string; detail?: string; onClick?: () => void }> = ({ label, value, icon: Icon, color, detail, onClick }) => (
   <button 
     onClick={onClick}
     disabled={!onClick}
@@ -125,6 +85,7 @@ const StatCard: React.FC<{ label: string; value: string | number; icon: any; col
     <div className="flex-1">
       <p className="text-slate-400 text-xs font-normal uppercase tracking-widest mb-1">{label}</p>
       <p className="text-2xl font-normal text-slate-900 dark:text-white leading-none">{value}</p>
+      {detail && <p className="text-[10px] text-amber-500 font-normal uppercase tracking-widest mt-1.5">{detail}</p>}
     </div>
     {onClick && <Icons.Right className="w-4 h-4 text-slate-300" />}
   </button>
@@ -132,58 +93,224 @@ const StatCard: React.FC<{ label: string; value: string | number; icon: any; col
 
 // --- Modals ---
 
-const DelayedAlertModal: React.FC<{ delayedRecords: RecordItem[], onClose: () => void }> = ({ delayedRecords, onClose }) => (
-  <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[80] flex items-center justify-center p-4 animate-fade-in font-normal">
-    <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] p-10 max-w-3xl w-full shadow-2xl animate-scale-in border border-white/5 overflow-y-auto max-h-[90vh] custom-scrollbar">
-      <div className="flex justify-between items-center mb-8">
-        <div>
-          <h3 className="text-xl font-normal text-slate-900 dark:text-white uppercase tracking-tight">Delayed Applications</h3>
-          <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest mt-1">Found {delayedRecords.length} records pending `{'>'}` 7 days</p>
+const SLA_BADGE_STYLES: Record<SlaSeverity, string> = {
+  ok: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-600 dark:text-emerald-400',
+  warning: 'bg-amber-500/10 border-amber-500/20 text-amber-600 dark:text-amber-400',
+  breached: 'bg-rose-500/10 border-rose-500/20 text-rose-600 dark:text-rose-400'
+};
+
+const DelayedAlertModal: React.FC<{ alerts: SlaAlert[], onConfigure?: () => void, onClose: () => void }> = ({ alerts, onConfigure, onClose }) => {
+  const breachedCount = alerts.filter(a => a.sla.severity === 'breached').length;
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[80] flex items-center justify-center p-4 animate-fade-in font-normal">
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] p-10 max-w-3xl w-full shadow-2xl animate-scale-in border border-white/5 overflow-y-auto max-h-[90vh] custom-scrollbar">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h3 className="text-xl font-normal text-slate-900 dark:text-white uppercase tracking-tight">SLA Alerts</h3>
+            <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest mt-1">{breachedCount} breached • {alerts.length - breachedCount} warning</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {onConfigure && <button onClick={onConfigure} className="px-4 py-2 bg-slate-100 dark:bg-white/5 text-slate-500 dark:text-slate-300 rounded-xl text-[10px] uppercase tracking-widest hover:bg-slate-200 dark:hover:bg-white/10 transition-colors">Configure SLA</button>}
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 transition-colors"><Icons.Close className="w-5 h-5" /></button>
+          </div>
         </div>
-        <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 transition-colors"><Icons.Close className="w-5 h-5" /></button>
-      </div>
 
-      <div className="space-y-4">
-        {delayedRecords.length === 0 ? (
-          <div className="text-center py-10 text-slate-400 italic">No delayed applications detected.</div>
-        ) : delayedRecords.map(r => {
-          const creationDate = new Date(r.createdAt);
-          const daysOld = Math.floor((Date.now() - creationDate.getTime()) / (1000 * 60 * 60 * 24));
-          return (
+        <div className="space-y-4">
+          {alerts.length === 0 ? (
+            <div className="text-center py-10 text-slate-400 italic">No delayed applications detected.</div>
+          ) : alerts.map(({ record: r, sla }) => (
             <div key={r.id} className="p-5 rounded-2xl bg-slate-50 dark:bg-white/5 border border-slate-100 dark:border-white/5 flex flex-col md:flex-row md:items-center justify-between gap-4">
               <div>
                 <p className="text-sm font-normal text-slate-900 dark:text-white mb-0.5">{r.label}</p>
                 <div className="flex flex-wrap gap-x-3 gap-y-1">
                   <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest">{r.referenceNumber} • {r.status}</p>
-                  <p className="text-[10px] text-indigo-400 font-normal uppercase tracking-widest">Created: {creationDate.toLocaleDateString()}</p>
+                  <p className="text-[10px] text-indigo-400 font-normal uppercase tracking-widest">In Stage Since: {new Date(sla.stageEnteredAt).toLocaleDateString()}</p>
                 </div>
               </div>
               <div className="flex items-center gap-3">
-                <div className="px-3 py-1 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-600 dark:text-rose-400 text-[10px] font-normal uppercase tracking-widest">
-                  {daysOld} Days Delay
+                <div className={`px-3 py-1 border rounded-lg text-[10px] font-normal uppercase tracking-widest ${SLA_BADGE_STYLES[sla.severity]}`}>
+                  {sla.daysInStage} / {sla.rule?.breachDays} Days • {sla.severity}
                 </div>
               </div>
             </div>
-          );
-        })}
+          ))}
+        </div>
+
+        <div className="mt-10">
+          <button 
+            onClick={onClose}
+            className="w-full py-3.5 bg-slate-900 dark:bg-white text-white dark:text-black rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all"
+          >
+            Close Dashboard
+          </button>
+        </div>
       </div>
+    </div>
+  );
+};
 
-      <div className="mt-10">
-        <button 
-          onClick={onClose}
-          className="w-full py-3.5 bg-slate-900 dark:bg-white text-white dark:text-black rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all"
-        >
-          Close Dashboard
-        </button>
+const SlaSettingsModal: React.FC<{ rules: SlaRule[], onClose: () => void, onSave: (rules: SlaRule[]) => void }> = ({ rules, onClose, onSave }) => {
+  const [draft, setDraft] = useState<SlaRule[]>(rules.map(r => ({ ...r })));
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRule = (index: number, patch: Partial<SlaRule>) => {
+    setDraft(draft.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const handleSave = () => {
+    const invalid = draft.find(r => r.warningDays < 0 || r.breachDays <= 0 || r.warningDays > r.breachDays);
+    if (invalid) {
+      setError(`Invalid thresholds for "${invalid.status}": warning must be between 0 and the breach limit.`);
+      return;
+    }
+    setError(null);
+    onSave(draft);
+  };
+
+  const inputClass = "w-full px-3 py-2 bg-slate-50 dark:bg-black border border-slate-200 dark:border-white/10 rounded-lg text-xs outline-none focus:ring-1 focus:ring-indigo-500 font-normal";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[90] flex items-center justify-center p-4 animate-fade-in font-normal">
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] p-10 max-w-4xl w-full shadow-2xl animate-scale-in border border-white/5 overflow-y-auto max-h-[90vh] custom-scrollbar">
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h3 className="text-xl font-normal text-slate-900 dark:text-white uppercase tracking-tight">Stage SLA Rules</h3>
+            <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest mt-1">Days allowed per stage • Job type / governorate rules override the stage default</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 transition-colors"><Icons.Close className="w-5 h-5" /></button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-rose-500/10 border border-rose-500/20 rounded-xl flex items-center gap-3 text-rose-600 dark:text-rose-400 text-sm animate-fade-in">
+            <Icons.Alert className="w-5 h-5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-12 gap-3 px-1 text-[10px] text-slate-400 uppercase tracking-widest">
+            <span className="col-span-3">Stage</span>
+            <span className="col-span-3">Job Type</span>
+            <span className="col-span-2">Governorate</span>
+            <span className="col-span-1">Warn</span>
+            <span className="col-span-2">Breach</span>
+          </div>
+          {draft.map((rule, i) => (
+            <div key={i} className="grid grid-cols-12 gap-3 items-center">
+              <select value={rule.status} onChange={e => updateRule(i, { status: e.target.value })} className={`col-span-3 appearance-none ${inputClass}`}>
+                {STATUS_OPTIONS.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <input value={rule.jobType || ''} placeholder="Any" onChange={e => updateRule(i, { jobType: e.target.value })} className={`col-span-3 ${inputClass}`} />
+              <input value={rule.governorate || ''} placeholder="Any" onChange={e => updateRule(i, { governorate: e.target.value })} className={`col-span-2 ${inputClass}`} />
+              <input type="number" min={0} value={rule.warningDays} onChange={e => updateRule(i, { warningDays: parseInt(e.target.value) || 0 })} className={`col-span-1 ${inputClass}`} />
+              <input type="number" min={1} value={rule.breachDays} onChange={e => updateRule(i, { breachDays: parseInt(e.target.value) || 0 })} className={`col-span-2 ${inputClass}`} />
+              <button onClick={() => setDraft(draft.filter((_, j) => j !== i))} className="col-span-1 p-2 text-slate-400 hover:text-rose-600 transition-colors justify-self-center"><Icons.Trash className="w-4 h-4" /></button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDraft([...draft, { status: STATUS_OPTIONS[0], warningDays: 5, breachDays: 7 }])}
+            className="w-full py-2.5 border border-dashed border-slate-200 dark:border-white/10 rounded-xl text-[10px] text-slate-400 uppercase tracking-widest hover:text-indigo-500 hover:border-indigo-500/40 transition-colors flex items-center justify-center gap-2"
+          >
+            <Icons.Plus className="w-3.5 h-3.5" /> Add Rule
+          </button>
+        </div>
+
+        <div className="mt-10 flex gap-3">
+          <button onClick={handleSave} className="flex-1 py-3.5 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md hover:bg-indigo-700 transition-all">Save Rules</button>
+          <button onClick={() => setDraft(DEFAULT_SLA_RULES.map(r => ({ ...r })))} className="px-6 py-3.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-normal uppercase text-[11px] tracking-widest">Defaults</button>
+          <button onClick={onClose} className="px-8 py-3.5 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-normal uppercase text-[11px] tracking-widest">Cancel</button>
+        </div>
       </div>
     </div>
-  </div>
-);
+  );
+};
+
+const RecordTimeline: React.FC<{ recordId: string }> = ({ recordId }) => {
+  const [history, setHistory] = useState<RecordHistoryEntry[] | null>(null);
+
+  useEffect(() => {
+    getRecordHistory(recordId).then(setHistory);
+  }, [recordId]);
 
-const EditModal: React.FC<{ record: RecordItem, onClose: () => void, onSave: (u: Partial<RecordItem>) => void }> = ({ record, onClose, onSave }) => {
+  if (!history) {
+    return <div className="py-6 flex justify-center"><Icons.Spinner className="w-5 h-5 text-indigo-500 animate-spin" /></div>;
+  }
+
+  const stages = history.filter(h => h.field === 'status');
+  const otherChanges = history.filter(h => h.field !== 'status').reverse();
+
+  return (
+    <div className="space-y-6">
+      {stages.length === 0 ? (
+        <p className="text-xs text-slate-400 italic">No stage history recorded yet.</p>
+      ) : (
+        <ol className="relative border-l border-slate-200 dark:border-white/10 ml-2 space-y-5">
+          {stages.map((entry, i) => {
+            const start = new Date(entry.changedAt).getTime();
+            const end = i < stages.length - 1 ? new Date(stages[i + 1].changedAt).getTime() : Date.now();
+            const days = Math.floor((end - start) / (1000 * 60 * 60 * 24));
+            const isCurrent = i === stages.length - 1;
+            return (
+              <li key={entry.id} className="ml-5">
+                <span className={`absolute -left-1.5 w-3 h-3 rounded-full border-2 border-white dark:border-slate-900 ${isCurrent ? 'bg-indigo-500' : 'bg-slate-300 dark:bg-slate-600'}`}></span>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-slate-900 dark:text-white">{entry.newValue || 'Unknown'}</span>
+                  <span className="text-[10px] text-slate-400 uppercase tracking-widest">{days} {isCurrent ? 'days so far' : 'days'}</span>
+                </div>
+                <p className="text-[10px] text-slate-400 uppercase tracking-widest mt-0.5">
+                  {new Date(entry.changedAt).toLocaleString()} • {entry.actor}{entry.oldValue ? ` • from ${entry.oldValue}` : ''}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {otherChanges.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[10px] font-normal text-slate-400 uppercase tracking-widest">Field Changes</p>
+          {otherChanges.map(entry => (
+            <div key={entry.id} className="flex flex-col md:flex-row md:items-center justify-between gap-1 p-3 rounded-xl bg-slate-50 dark:bg-white/5 text-xs">
+              <span className="text-slate-600 dark:text-slate-300">
+                <span className="text-indigo-500">{entry.field}</span>: {entry.oldValue || '—'} → {entry.newValue || '—'}
+              </span>
+              <span className="text-[10px] text-slate-400 uppercase tracking-widest">{new Date(entry.changedAt).toLocaleDateString()} • {entry.actor}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const sameFieldValue = (a: any, b: any) => String(a ?? '') === String(b ?? '');
+
+/**
+ * `latest` is the live copy of the record (null once it has been deleted); when it drifts from
+ * the copy the form was opened with, someone else saved in the meantime and the user is warned.
+ */
+const EditModal: React.FC<{
+  record: RecordItem,
+  latest: RecordItem | null,
+  otherEditors: string[],
+  onClose: () => void,
+  onSave: (u: Partial<RecordItem>, base: RecordItem) => void
+}> = ({ record, latest, otherEditors, onClose, onSave }) => {
+  const [base, setBase] = useState<RecordItem>(record);
   const [form, setForm] = useState<Partial<RecordItem>>({ ...record });
   const [error, setError] = useState<string | null>(null);
 
+  const changedUnderneath = useMemo(
+    () => latest ? (Object.keys(RECORD_COLUMNS) as RecordColumn[]).filter(k => !sameFieldValue(base[k], latest[k])) : [],
+    [base, latest]
+  );
+
+  const loadLatest = () => {
+    if (!latest) return;
+    setBase(latest);
+    setForm({ ...latest });
+  };
+
   const handleSave = () => {
     // Validation for USP
     if (form.status === 'USP' && (!form.sentToUSPDate || form.sentToUSPDate === '')) {
@@ -191,7 +318,7 @@ const EditModal: React.FC<{ record: RecordItem, onClose: () => void, onSave: (u:
       return;
     }
     setError(null);
-    onSave(form);
+    onSave(form, base);
   };
 
   return (
@@ -201,6 +328,11 @@ const EditModal: React.FC<{ record: RecordItem, onClose: () => void, onSave: (u:
           <div>
             <h3 className="text-xl font-normal text-slate-900 dark:text-white uppercase tracking-tight">Edit Project</h3>
             <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest mt-1">Ref: {record.referenceNumber}</p>
+            {otherEditors.length > 0 && (
+              <p className="text-[10px] text-amber-500 font-normal uppercase tracking-widest mt-1 flex items-center gap-1.5">
+                <Icons.Edit className="w-3 h-3" /> Also open by {otherEditors.join(', ')}
+              </p>
+            )}
           </div>
           <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 transition-colors"><Icons.Close className="w-5 h-5" /></button>
         </div>
@@ -212,6 +344,20 @@ const EditModal: React.FC<{ record: RecordItem, onClose: () => void, onSave: (u:
           </div>
         )}
 
+        {(!latest || changedUnderneath.length > 0) && (
+          <div className="mb-6 p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl flex items-center gap-3 text-amber-700 dark:text-amber-400 text-sm animate-fade-in">
+            <Icons.Alert className="w-5 h-5 shrink-0" />
+            <span className="flex-1">
+              {latest
+                ? `Someone else changed this record while you were editing (${changedUnderneath.map(columnLabel).join(', ')}). You will be asked to merge when you save.`
+                : "Someone else deleted this record while you were editing."}
+            </span>
+            {latest && (
+              <button onClick={loadLatest} className="shrink-0 px-3 py-1.5 bg-amber-500 text-white rounded-lg uppercase text-[10px] tracking-widest">Load Latest</button>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="space-y-1">
             <label className="text-[10px] font-normal text-slate-400 uppercase tracking-widest ml-1">Project Label</label>
@@ -281,10 +427,18 @@ const EditModal: React.FC<{ record: RecordItem, onClose: () => void, onSave: (u:
           </div>
         </div>
 
+        <div className="mt-10 pt-8 border-t border-slate-100 dark:border-white/5">
+          <h4 className="text-[10px] font-normal text-slate-400 uppercase tracking-widest mb-5 flex items-center gap-2">
+            <Icons.History className="w-4 h-4 text-indigo-500" /> Stage History
+          </h4>
+          <RecordTimeline recordId={record.id} />
+        </div>
+
         <div className="mt-10 flex gap-3">
           <button 
             onClick={handleSave}
-            className="flex-1 py-3.5 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md hover:bg-indigo-700 transition-all"
+            disabled={!latest}
+            className="flex-1 py-3.5 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md hover:bg-indigo-700 transition-all disabled:opacity-50"
           >
             Save Changes
           </button>
@@ -316,61 +470,367 @@ const ConfirmModal: React.FC<{ message: string, onConfirm: () => void, onClose:
   </div>
 );
 
+const SYNC_LABELS: Record<SyncStatus['state'], { label: string, dot: string }> = {
+  online: { label: 'ONLINE', dot: 'bg-emerald-500' },
+  syncing: { label: 'SYNCING', dot: 'bg-amber-500' },
+  offline: { label: 'OFFLINE', dot: 'bg-rose-500' }
+};
+
+const SyncIndicator: React.FC<{ status: SyncStatus, onRetry: () => void }> = ({ status, onRetry }) => {
+  const { label, dot } = SYNC_LABELS[status.state];
+  return (
+    <>
+      <div className="flex items-center justify-center gap-2">
+        <div className={`w-1.5 h-1.5 rounded-full ${dot} animate-pulse`}></div>
+        <span className="font-normal text-[10px]">{label}</span>
+      </div>
+      {status.pending > 0 && (
+        <p className="text-[9px] text-slate-400 uppercase tracking-widest mt-1.5">{status.pending} change(s) queued</p>
+      )}
+      {status.state === 'online' && status.lastSyncedAt && (
+        <p className="text-[9px] text-slate-500 uppercase tracking-widest mt-1.5">Synced {new Date(status.lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
+      )}
+      {status.lastError && <p className="text-[9px] text-rose-400 mt-1.5">{status.lastError}</p>}
+      {status.state === 'offline' && (
+        <button onClick={onRetry} className="mt-2 text-[9px] text-indigo-400 uppercase tracking-widest hover:underline">Retry now</button>
+      )}
+    </>
+  );
+};
+
+const LoadingScreen: React.FC = () => (
+  <div className="fixed inset-0 bg-slate-900 flex items-center justify-center">
+    <div className="text-center">
+      <Icons.Spinner className="w-10 h-10 text-indigo-500 animate-spin mx-auto mb-4" />
+      <p className="text-slate-400 font-normal text-xs uppercase tracking-widest">Nexus System Loading...</p>
+    </div>
+  </div>
+);
+
+const ConfigErrorScreen: React.FC<{ message: string }> = ({ message }) => (
+  <div className="fixed inset-0 bg-slate-900 flex items-center justify-center p-4">
+    <div className="max-w-md text-center">
+      <Icons.Alert className="w-10 h-10 text-rose-500 mx-auto mb-4" />
+      <p className="text-slate-200 text-sm uppercase tracking-widest mb-3">Storage is not configured</p>
+      <p className="text-slate-400 text-sm">{message}</p>
+    </div>
+  </div>
+);
+
 // --- Main Views ---
 
+const LoginView: React.FC = () => {
+  const { signIn } = useAuth();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email || !password) {
+      setError("Enter your e-mail and password.");
+      return;
+    }
+    setSubmitting(true);
+    setError(await signIn(email, password));
+    setSubmitting(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 flex items-center justify-center p-4 font-normal">
+      <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-900 rounded-[2.5rem] p-10 max-w-md w-full shadow-2xl animate-scale-in border border-white/5">
+        <div className="flex flex-col items-center gap-3 mb-10">
+          <div className="w-14 h-14 bg-white rounded-xl flex items-center justify-center shadow-lg overflow-hidden p-1.5">
+            <img src={EWA_LOGO} alt="EWA Logo" className="w-full h-full object-contain" />
+          </div>
+          <h1 className="text-xl font-normal text-slate-900 dark:text-white uppercase tracking-tight">Rajab Management</h1>
+          <p className="text-[10px] text-indigo-400 uppercase tracking-widest">Sign in to Nexus System</p>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-rose-500/10 border border-rose-500/20 rounded-xl flex items-center gap-3 text-rose-600 dark:text-rose-400 text-sm animate-fade-in">
+            <Icons.Alert className="w-5 h-5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <label className="text-[10px] font-normal text-slate-400 uppercase tracking-widest ml-1">E-mail</label>
+            <input
+              type="email"
+              value={email}
+              autoComplete="username"
+              onChange={e => setEmail(e.target.value)}
+              className="w-full px-4 py-3 bg-slate-50 dark:bg-black border border-slate-200 dark:border-white/10 rounded-xl text-sm outline-none focus:ring-1 focus:ring-indigo-500 font-normal"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-[10px] font-normal text-slate-400 uppercase tracking-widest ml-1">Password</label>
+            <input
+              type="password"
+              value={password}
+              autoComplete="current-password"
+              onChange={e => setPassword(e.target.value)}
+              className="w-full px-4 py-3 bg-slate-50 dark:bg-black border border-slate-200 dark:border-white/10 rounded-xl text-sm outline-none focus:ring-1 focus:ring-indigo-500 font-normal"
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="mt-10 w-full py-3.5 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md hover:bg-indigo-700 transition-all disabled:opacity-60 flex items-center justify-center gap-2"
+        >
+          {submitting && <Icons.Spinner className="w-4 h-4 animate-spin" />} Sign In
+        </button>
+      </form>
+    </div>
+  );
+};
+
 const DashboardView: React.FC<{ 
-  records: RecordItem[], 
-  infraHookData: Record<string, { appNo: string, isPaid: boolean }>, 
+  refreshKey: number,
+  recordChanges: RealtimeChange<RecordItem>[] | null,
+  infraChangedPlots: string[] | null,
+  editingBy: Record<string, string[]>,
   onSearch: (t: string) => void, 
   searchTerm: string,
   onUpload: () => void,
   onEdit: (r: RecordItem) => void,
   onDelete: (id: string) => void,
+  onReport: (r: RecordItem) => void,
   onAlertsClick: () => void,
-  delayedCount: number
-}> = ({ records, infraHookData, onSearch, searchTerm, onUpload, onEdit, onDelete, onAlertsClick, delayedCount }) => {
-  const [activeTab, setActiveTab] = useState("All Projects");
-
-  const filteredData = useMemo(() => {
-    let data = records;
-    if (activeTab !== "All Projects") {
-      data = data.filter(r => (r.status || '').toLowerCase() === activeTab.toLowerCase());
+  onError: (message: string) => void,
+  slaCounts: { breached: number, warning: number }
+}> = ({ refreshKey, recordChanges, infraChangedPlots, editingBy, onSearch, searchTerm, onUpload, onEdit, onDelete, onReport, onAlertsClick, onError, slaCounts }) => {
+  const { user } = useAuth();
+  const [initialFilters] = useState(() => decodeFilters(window.location.search));
+  const [activeTab, setActiveTab] = useState(initialFilters.status);
+  const [facetFilters, setFacetFilters] = useState<Pick<GridViewFilters, 'facets' | 'dateRanges'>>({ facets: initialFilters.facets, dateRanges: initialFilters.dateRanges });
+  const [showFilters, setShowFilters] = useState(activeFilterCount(initialFilters) > 0);
+  const [exportPage, setExportPage] = useState<RecordPage | null>(null);
+  const [preparingExport, setPreparingExport] = useState(false);
+  const [page, setPage] = useState<RecordPage>({ records: [], hookData: {}, total: null });
+  const [loadingPage, setLoadingPage] = useState(true);
+  const [statusCounts, setStatusCounts] = useState<Record<string, number>>({});
+  const [facetCounts, setFacetCounts] = useState<Record<FacetKey, FacetCount[]> | null>(null);
+  const [portfolio, setPortfolio] = useState({ total: 0, paid: 0 });
+  const [liveVersion, setLiveVersion] = useState(0);
+  const [newRecords, setNewRecords] = useState(0);
+  const [reloadKey, setReloadKey] = useState(0);
+  const pageRequest = useRef(0);
+  const [columns, setColumns] = useState<GridColumn[]>(DEFAULT_GRID_COLUMNS);
+  const [sort, setSort] = useState<SortConfig | null>(null);
+  const [showColumns, setShowColumns] = useState(false);
+  const [views, setViews] = useState<GridView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string>('');
+  const [viewDraft, setViewDraft] = useState<{ name: string, shared: boolean } | null>(null);
+  const [interpreted, setInterpreted] = useState<(InterpretedQuery & { vocabulary: Partial<Record<FacetKey, string[]>> }) | null>(null);
+  const [interpreting, setInterpreting] = useState(false);
+
+  useEffect(() => {
+    getGridViews().then(setViews);
+    if (initialFilters.search) onSearch(initialFilters.search);
+  }, []);
+
+  const filters: GridViewFilters = { status: activeTab, search: searchTerm, ...facetFilters };
+
+  // Mirror the filters into the address bar so a filtered dashboard can be bookmarked or shared.
+  useEffect(() => {
+    const query = encodeFilters(filters);
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, [activeTab, searchTerm, facetFilters]);
+
+  const activeView = views.find(v => v.id === activeViewId) || null;
+  const ownsActiveView = !!activeView && (activeView.owner === user?.username || isAdmin(user));
+
+  const applyView = (id: string) => {
+    const view = views.find(v => v.id === id);
+    setInterpreted(null);
+    setActiveViewId(id);
+    setColumns(view ? view.columns : DEFAULT_GRID_COLUMNS);
+    setSort(view ? view.sort : null);
+    setActiveTab(view?.filters.status || ALL_STATUSES_TAB);
+    onSearch(view?.filters.search || '');
+    setFacetFilters({ facets: view?.filters.facets || {}, dateRanges: view?.filters.dateRanges || {} });
+  };
+
+  const applyQuery = (query: RecordQuery) => {
+    const next = recordQueryToFilters(query);
+    setActiveTab(next.status);
+    onSearch(next.search);
+    setFacetFilters({ facets: next.facets, dateRanges: next.dateRanges });
+  };
+
+  // Reads the search box as a sentence, against the values stored across the whole portfolio.
+  const interpretSearch = async () => {
+    if (!searchTerm.trim() || interpreting) return;
+    setInterpreting(true);
+    const counts = await getFacetCounts(EMPTY_FILTERS);
+    const vocabulary = Object.fromEntries(Object.entries(counts).map(([facet, values]) =>
+      [facet, values.map(v => v.value).filter(v => v !== BLANK_FACET_VALUE)]
+    )) as Partial<Record<FacetKey, string[]>>;
+    const result = await interpretRecordQuery(searchTerm, vocabulary);
+    setInterpreted({ ...result, vocabulary });
+    applyQuery(result.query);
+    setInterpreting(false);
+  };
+
+  // The chips describe what was understood; once the filters are changed some other way they no longer would.
+  const changeTab = (status: string) => {
+    setInterpreted(null);
+    setActiveTab(status);
+  };
+
+  const handleSaveView = async (asNew: boolean) => {
+    const base = asNew || !activeView ? null : activeView;
+    const saved = await saveGridView({
+      id: base?.id,
+      name: viewDraft?.name.trim() || base?.name || 'Untitled view',
+      owner: base?.owner || user?.username || '',
+      shared: viewDraft ? viewDraft.shared : base?.shared ?? false,
+      columns,
+      sort,
+      filters
+    });
+    if (!saved) {
+      onError("Could not save the view");
+      return;
     }
-    if (searchTerm) {
-      const lowerTerm = searchTerm.toLowerCase();
-      data = data.filter(r => 
-        (r.label || '').toLowerCase().includes(lowerTerm) || 
-        (r.plotNumber || '').includes(lowerTerm) ||
-        (r.referenceNumber || '').toLowerCase().includes(lowerTerm)
-      );
+    setViews(prev => [...prev.filter(v => v.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+    setActiveViewId(saved.id || '');
+    setViewDraft(null);
+  };
+
+  const handleDeleteView = async () => {
+    if (!activeView?.id) return;
+    if (await deleteGridView(activeView.id)) {
+      setViews(prev => prev.filter(v => v.id !== activeView.id));
+      setActiveViewId('');
+    } else {
+      onError("Could not delete the view");
     }
-    return data;
-  }, [records, activeTab, searchTerm]);
+  };
 
-  const paidCount = (Object.values(infraHookData) as { appNo: string, isPaid: boolean }[]).filter(v => v.isPaid).length;
+  // Filtering, sorting and counting all run in the database; these keys decide when to ask again.
+  const filtersKey = encodeFilters(filters);
+  const tabKey = encodeFilters({ ...filters, status: ALL_STATUSES_TAB });
+
+  useEffect(() => {
+    const request = ++pageRequest.current;
+    setLoadingPage(true);
+    // Let typing settle before querying.
+    const timer = setTimeout(async () => {
+      const first = await queryRecords(filters, sort);
+      if (request !== pageRequest.current) return;
+      setPage(first);
+      setLoadingPage(false);
+    }, QUERY_DEBOUNCE_MS);
+    setNewRecords(0);
+    return () => clearTimeout(timer);
+  }, [filtersKey, sort, refreshKey, reloadKey]);
+
+  // Live changes patch the loaded rows in place. New rows are only counted, since where they
+  // land depends on the sort; the notice above the grid reloads to show them.
+  useEffect(() => {
+    if (!recordChanges) return;
+    setPage(prev => {
+      const records = applyRecordChanges(prev.records, recordChanges.filter(c => c.event !== 'INSERT'));
+      return { ...prev, records, total: prev.total === null ? null : prev.total - (prev.records.length - records.length) };
+    });
+    setNewRecords(n => n + recordChanges.filter(c => c.event === 'INSERT').length);
+    setLiveVersion(v => v + 1);
+  }, [recordChanges]);
+
+  useEffect(() => {
+    const plots = (infraChangedPlots || []).filter(plot => page.records.some(r => r.plotNumber === plot));
+    if (infraChangedPlots) setLiveVersion(v => v + 1);
+    if (plots.length === 0) return;
+    getInfraHookData(plots).then(fresh => setPage(prev => {
+      const hookData = { ...prev.hookData };
+      plots.forEach(plot => {
+        if (fresh[plot]) hookData[plot] = fresh[plot];
+        else delete hookData[plot];
+      });
+      return { ...prev, hookData };
+    }));
+  }, [infraChangedPlots]);
+
+  const loadNextPage = async () => {
+    const request = pageRequest.current;
+    setLoadingPage(true);
+    const next = await queryRecords(filters, sort, page.records.length);
+    if (request !== pageRequest.current) return;
+    setPage(prev => ({
+      records: [...prev.records, ...next.records],
+      hookData: { ...prev.hookData, ...next.hookData },
+      // An empty page means the rest went away (or failed); stop asking.
+      total: next.records.length > 0 ? prev.total : prev.records.length
+    }));
+    setLoadingPage(false);
+  };
+
+  // Tab counts honour every filter except the tab itself, so switching tabs never shows a surprise.
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const counts = await getStatusCounts(filters);
+      if (!cancelled) setStatusCounts(counts);
+    }, QUERY_DEBOUNCE_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [tabKey, refreshKey, liveVersion]);
+
+  useEffect(() => {
+    if (!showFilters) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const counts = await getFacetCounts(filters);
+      if (!cancelled) setFacetCounts(counts);
+    }, QUERY_DEBOUNCE_MS);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [filtersKey, showFilters, refreshKey, liveVersion]);
+
+  useEffect(() => {
+    getPortfolioCounts().then(setPortfolio);
+  }, [refreshKey, liveVersion]);
+
+  const openExport = async () => {
+    setPreparingExport(true);
+    const all = await queryAllRecords(filters, sort);
+    if (all) setExportPage(all);
+    else onError('Could not load the records to export');
+    setPreparingExport(false);
+  };
+
+  const filterCount = activeFilterCount(filters);
+  const matchCount = page.total ?? page.records.length;
+  const allStatusesCount = (Object.values(statusCounts) as number[]).reduce((n, c) => n + c, 0);
 
   return (
     <div className="space-y-8 animate-fade-in-up font-normal">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <StatCard label="Live Portfolio" value={records.length} icon={Icons.Dashboard} color="bg-indigo-500" />
-        <StatCard label="Infra Validated" value={paidCount} icon={Icons.Check} color="bg-emerald-500" />
+        <StatCard label="Live Portfolio" value={portfolio.total} icon={Icons.Dashboard} color="bg-indigo-500" />
+        <StatCard label="Infra Validated" value={portfolio.paid} icon={Icons.Check} color="bg-emerald-500" />
         <StatCard 
-          label="Delayed (>7 Days)" 
-          value={delayedCount} 
+          label="SLA Breached" 
+          value={slaCounts.breached} 
+          detail={slaCounts.warning > 0 ? `${slaCounts.warning} at warning` : undefined}
           icon={Icons.Clock} 
           color="bg-rose-500" 
-          onClick={delayedCount > 0 ? onAlertsClick : undefined}
+          onClick={slaCounts.breached + slaCounts.warning > 0 ? onAlertsClick : undefined}
         />
       </div>
 
       <div className="sticky top-0 z-20 -mx-8 px-8 py-4 bg-slate-50/80 dark:bg-black/80 backdrop-blur-xl border-b border-slate-200 dark:border-white/5 overflow-x-auto no-scrollbar">
         <div className="flex gap-2">
           {STATUS_SEQUENCE.map(status => {
-            const count = status === "All Projects" ? records.length : records.filter(r => (r.status||'').toLowerCase() === status.toLowerCase()).length;
+            const count = status === ALL_STATUSES_TAB ? allStatusesCount : statusCounts[status.toLowerCase()] || 0;
             return (
               <button
                 key={status}
-                onClick={() => setActiveTab(status)}
+                onClick={() => changeTab(status)}
                 className={`whitespace-nowrap px-5 py-2 rounded-2xl text-xs font-normal transition-all duration-300 border ${
                   activeTab === status 
                     ? 'bg-slate-900 dark:bg-white text-white dark:text-black border-transparent shadow-md' 
@@ -388,75 +848,166 @@ const DashboardView: React.FC<{
         <div className="p-8 flex flex-col md:flex-row justify-between items-center gap-6 border-b border-slate-100 dark:border-white/5">
             <div>
                 <h2 className="text-xl font-normal text-slate-900 dark:text-white tracking-tight">{activeTab}</h2>
-                <p className="text-slate-400 text-[10px] font-normal uppercase tracking-widest mt-1">Found {filteredData.length} entries</p>
+                <p className="text-slate-400 text-[10px] font-normal uppercase tracking-widest mt-1">Found {matchCount} entries</p>
             </div>
             <div className="flex gap-3 w-full md:w-auto">
                 <div className="relative flex-1 md:w-72">
                     <Icons.Search className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 w-4 h-4" />
                     <input 
                       type="text" 
-                      placeholder="Search..." 
+                      placeholder="Search, or describe it and press Enter…" 
                       value={searchTerm}
-                      onChange={(e) => onSearch(e.target.value)}
-                      className="w-full pl-11 pr-4 py-2.5 bg-slate-100/50 dark:bg-white/5 rounded-xl text-sm font-normal focus:ring-1 focus:ring-indigo-500 outline-none transition-all"
+                      onChange={(e) => { setInterpreted(null); onSearch(e.target.value); }}
+                      onKeyDown={(e) => e.key === 'Enter' && interpretSearch()}
+                      className="w-full pl-11 pr-11 py-2.5 bg-slate-100/50 dark:bg-white/5 rounded-xl text-sm font-normal focus:ring-1 focus:ring-indigo-500 outline-none transition-all"
                     />
+                    <button
+                      onClick={interpretSearch}
+                      disabled={!searchTerm.trim() || interpreting}
+                      title="Turn this search into filters"
+                      className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-lg text-slate-400 hover:text-indigo-500 disabled:opacity-40 transition-colors"
+                    >
+                      {interpreting ? <Icons.Spinner className="w-4 h-4 animate-spin" /> : <Icons.AI className="w-4 h-4" />}
+                    </button>
                 </div>
-                <button onClick={onUpload} className="px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-xs font-normal shadow-sm transition-all active:scale-95 flex items-center gap-2 tracking-wide">
-                    <Icons.Plus className="w-4 h-4" /> IMPORT
+                <button onClick={() => setShowFilters(!showFilters)} className={`px-5 py-2.5 border rounded-xl text-xs font-normal shadow-sm transition-all active:scale-95 flex items-center gap-2 tracking-wide ${showFilters || filterCount > 0 ? 'bg-indigo-50 dark:bg-indigo-500/10 border-indigo-200 dark:border-indigo-500/30 text-indigo-600 dark:text-indigo-400' : 'bg-white dark:bg-white/5 border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-white/10 text-slate-600 dark:text-slate-300'}`}>
+                    <Icons.Filter className="w-4 h-4" /> FILTERS{filterCount > 0 && ` (${filterCount})`}
                 </button>
+                <button onClick={openExport} disabled={preparingExport} className="disabled:opacity-50 px-5 py-2.5 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 hover:bg-slate-50 dark:hover:bg-white/10 text-slate-600 dark:text-slate-300 rounded-xl text-xs font-normal shadow-sm transition-all active:scale-95 flex items-center gap-2 tracking-wide">
+                    <Icons.Excel className="w-4 h-4" /> {preparingExport ? 'PREPARING…' : 'EXPORT'}
+                </button>
+                {canImport(user) && (
+                  <button onClick={onUpload} className="px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-xs font-normal shadow-sm transition-all active:scale-95 flex items-center gap-2 tracking-wide">
+                      <Icons.Plus className="w-4 h-4" /> IMPORT
+                  </button>
+                )}
             </div>
         </div>
 
-        <div className="overflow-x-auto">
-          <table className="w-full text-left text-sm whitespace-nowrap">
-            <thead className="bg-slate-50/50 dark:bg-white/5">
-              <tr>
-                {["Project", "Stage", "Zone", "Reference", "Plot", "Infra Hook", ""].map(h => (
-                  <th key={h} className="px-8 py-4 font-normal text-slate-400 uppercase text-[10px] tracking-widest">{h}</th>
-                ))}
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-100 dark:divide-white/5">
-              {filteredData.length === 0 ? (
-                <tr><td colSpan={7} className="p-12 text-center text-slate-400 italic">No records found.</td></tr>
-              ) : filteredData.map((r) => (
-                <tr key={r.id} className="group hover:bg-slate-50/50 dark:hover:bg-white/5 transition-colors">
-                  <td className="px-8 py-5">
-                    <div className="font-normal text-slate-900 dark:text-white text-base">{r.label}</div>
-                    <div className="text-[10px] text-slate-400 font-normal uppercase tracking-tight">{r.subtype || 'Project'}</div>
-                  </td>
-                  <td className="px-8 py-5">
-                    <span className="px-2.5 py-0.5 rounded-lg bg-indigo-50/50 dark:bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 text-[10px] font-normal uppercase tracking-wide border border-indigo-100 dark:border-indigo-500/20">
-                      {r.status}
-                    </span>
-                  </td>
-                  <td className="px-8 py-5 text-slate-500 dark:text-slate-400">{r.zone}</td>
-                  <td className="px-8 py-5 text-slate-400 font-mono text-[11px]">{r.referenceNumber}</td>
-                  <td className="px-8 py-5 font-normal text-slate-700 dark:text-slate-300">{r.plotNumber || '-'}</td>
-                  <td className="px-8 py-5">
-                    <InfraHookBadge plot={r.plotNumber || ''} hookData={infraHookData} />
-                  </td>
-                  <td className="px-8 py-5 text-right">
-                    <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                      <button onClick={() => onEdit(r)} className="p-2 text-slate-400 hover:text-indigo-600 transition-colors"><Icons.Edit className="w-4 h-4" /></button>
-                      <button onClick={() => onDelete(r.id)} className="p-2 text-slate-400 hover:text-rose-600 transition-colors"><Icons.Trash className="w-4 h-4" /></button>
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+        {interpreted && (
+          <QueryChips
+            query={interpreted.query}
+            vocabulary={interpreted.vocabulary}
+            interpretedBy={interpreted.interpretedBy}
+            onChange={query => {
+              setInterpreted({ ...interpreted, query });
+              applyQuery(query);
+            }}
+            onClear={() => {
+              setInterpreted(null);
+              applyQuery(EMPTY_RECORD_QUERY);
+            }}
+          />
+        )}
+
+        {showFilters && facetCounts && (
+          <FilterPanel
+            filters={filters}
+            counts={facetCounts}
+            onChange={next => {
+              setInterpreted(null);
+              setFacetFilters({ facets: next.facets, dateRanges: next.dateRanges });
+            }}
+          />
+        )}
+
+        <div className="px-8 py-3 flex flex-wrap items-center gap-3 border-b border-slate-100 dark:border-white/5 text-xs">
+            <span className="text-[10px] text-slate-400 uppercase tracking-widest">View</span>
+            <select
+              value={activeViewId}
+              onChange={e => applyView(e.target.value)}
+              className="px-3 py-1.5 bg-slate-100/50 dark:bg-white/5 rounded-lg text-xs outline-none focus:ring-1 focus:ring-indigo-500 appearance-none"
+            >
+              <option value="">Default</option>
+              {views.map(v => <option key={v.id} value={v.id}>{v.name}{v.shared ? ' (team)' : ''}{v.owner !== user?.username ? ` • ${v.owner}` : ''}</option>)}
+            </select>
+            {viewDraft ? (
+              <>
+                <input
+                  autoFocus
+                  value={viewDraft.name}
+                  onChange={e => setViewDraft({ ...viewDraft, name: e.target.value })}
+                  onKeyDown={e => e.key === 'Enter' && viewDraft.name.trim() && handleSaveView(true)}
+                  placeholder="View name"
+                  className="px-3 py-1.5 bg-slate-100/50 dark:bg-white/5 rounded-lg text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+                <label className="flex items-center gap-1.5 text-slate-500 cursor-pointer">
+                  <input type="checkbox" checked={viewDraft.shared} onChange={e => setViewDraft({ ...viewDraft, shared: e.target.checked })} className="accent-indigo-600" />
+                  Share with team
+                </label>
+                <button onClick={() => handleSaveView(true)} disabled={!viewDraft.name.trim()} className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg uppercase text-[10px] tracking-widest disabled:opacity-50">Save</button>
+                <button onClick={() => setViewDraft(null)} className="text-slate-400 uppercase text-[10px] tracking-widest">Cancel</button>
+              </>
+            ) : (
+              <>
+                {ownsActiveView && (
+                  <button onClick={() => handleSaveView(false)} className="text-indigo-500 uppercase text-[10px] tracking-widest hover:underline">Update</button>
+                )}
+                <button onClick={() => setViewDraft({ name: '', shared: false })} className="text-indigo-500 uppercase text-[10px] tracking-widest hover:underline">Save As…</button>
+                {ownsActiveView && (
+                  <button onClick={handleDeleteView} className="text-rose-500 uppercase text-[10px] tracking-widest hover:underline">Delete</button>
+                )}
+              </>
+            )}
+            <div className="relative ml-auto">
+              <button onClick={() => setShowColumns(!showColumns)} className="flex items-center gap-1.5 px-3 py-1.5 text-slate-500 hover:text-indigo-500 uppercase text-[10px] tracking-widest transition-colors">
+                <Icons.Columns className="w-3.5 h-3.5" /> Columns
+              </button>
+              {showColumns && <ColumnChooser columns={columns} onChange={setColumns} onClose={() => setShowColumns(false)} />}
+            </div>
         </div>
+
+        {newRecords > 0 && (
+          <button onClick={() => setReloadKey(k => k + 1)} className="w-full px-8 py-2.5 bg-indigo-50 dark:bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 text-[10px] uppercase tracking-widest hover:bg-indigo-100 dark:hover:bg-indigo-500/20 transition-colors border-b border-slate-100 dark:border-white/5">
+            {newRecords} new record(s) • Show
+          </button>
+        )}
+
+        <RecordGrid
+          records={page.records}
+          infraHookData={page.hookData}
+          columns={columns}
+          sort={sort}
+          onSortChange={setSort}
+          onColumnsChange={setColumns}
+          hasMore={page.total !== null && page.records.length < page.total}
+          loading={loadingPage}
+          onEndReached={loadNextPage}
+          scrollResetKey={`${filtersKey}|${sort?.key}|${sort?.direction}`}
+          editingBy={editingBy}
+          renderActions={(r) => (
+            <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => onReport(r)} title="Generate report" className="p-2 text-slate-400 hover:text-indigo-600 transition-colors"><Icons.Report className="w-4 h-4" /></button>
+              {canEditRecord(user, r) && (
+                <button onClick={() => onEdit(r)} className="p-2 text-slate-400 hover:text-indigo-600 transition-colors"><Icons.Edit className="w-4 h-4" /></button>
+              )}
+              {canDeleteRecords(user) && (
+                <button onClick={() => onDelete(r.id)} className="p-2 text-slate-400 hover:text-rose-600 transition-colors"><Icons.Trash className="w-4 h-4" /></button>
+              )}
+            </div>
+          )}
+        />
       </div>
+
+      {exportPage && (
+        <ExportDialog
+          records={exportPage.records}
+          infraHookData={exportPage.hookData}
+          title={[activeTab, searchTerm && `matching "${searchTerm}"`, filterCount > 0 && `${filterCount} filter(s)`].filter(Boolean).join(' • ')}
+          initialColumns={columns.map(c => c.key).filter((k): k is RecordColumn => k !== 'infraHook')}
+          onClose={() => setExportPage(null)}
+          onError={onError}
+        />
+      )}
     </div>
   );
 };
 
-const CalculatorView: React.FC = () => {
+const CalculatorView: React.FC<{ onReport: (row: InfraReferenceItem) => void }> = ({ onReport }) => {
   const [plotSearch, setPlotSearch] = useState('');
   const [searchResult, setSearchResult] = useState<InfraReferenceItem | null>(null);
   const [loading, setLoading] = useState(false);
-  const [paymentType, setPaymentType] = useState<'10'|'12'|'6.5'>('10');
+  const [paymentType, setPaymentType] = useState<PaymentType>('10');
   const [fees, setFees] = useState('');
   const [ccRef, setCcRef] = useState('');
 
@@ -476,11 +1027,7 @@ const CalculatorView: React.FC = () => {
      (searchResult.thirdPayment && searchResult.thirdPayment.trim() !== '')
   );
 
-  const feesVal = parseFloat(fees) || 0;
-  const ccVal = parseFloat(ccRef) || 0;
-  const shareMultiplier = {'10':0.4, '12':0.375, '6.5':0.6923}[paymentType] || 0;
-  const eddShare = feesVal * shareMultiplier;
-  const finalCC = Math.max(0, ccVal - eddShare);
+  const { fees: feesVal, originalCC: ccVal, eddShare, adjustedCC: finalCC } = calculateCapitalContribution(fees, ccRef, paymentType);
 
   return (
     <div className="flex flex-col lg:flex-row gap-8 min-h-[70vh] animate-fade-in-up font-normal">
@@ -509,8 +1056,8 @@ const CalculatorView: React.FC = () => {
              <Icons.Calculator className="w-4 h-4 text-emerald-500" /> Audit Inputs
            </h2>
            <div className="flex gap-1 mb-6 p-1 bg-slate-100 dark:bg-black rounded-xl">
-              {['10', '12', '6.5'].map(t => (
-                  <button key={t} onClick={() => setPaymentType(t as any)} className={`flex-1 py-1.5 rounded-lg font-normal text-[10px] transition-all ${paymentType === t ? 'bg-white dark:bg-slate-800 text-emerald-600 shadow-sm' : 'text-slate-400'}`}>{t} BD</button>
+              {PAYMENT_TYPES.map(t => (
+                  <button key={t} onClick={() => setPaymentType(t)} className={`flex-1 py-1.5 rounded-lg font-normal text-[10px] transition-all ${paymentType === t ? 'bg-white dark:bg-slate-800 text-emerald-600 shadow-sm' : 'text-slate-400'}`}>{t} BD</button>
               ))}
            </div>
            <div className="space-y-4">
@@ -552,9 +1099,14 @@ const CalculatorView: React.FC = () => {
                     <h1 className="text-5xl font-normal text-slate-900 dark:text-white tracking-tight leading-none">{searchResult.plotNumber}</h1>
                     <p className="text-xl font-normal opacity-80 mt-3 tracking-tight">{searchResult.ownerNameEn || 'Private Entity'}</p>
                  </div>
-                 <div className={`w-24 h-24 rounded-3xl flex flex-col items-center justify-center shadow-md animate-bounce-subtle ${hasPayments ? 'bg-emerald-500 text-white' : 'bg-rose-500 text-white'}`}>
-                    {hasPayments ? <Icons.Check className="w-10 h-10 mb-1" /> : <Icons.Close className="w-10 h-10 mb-1" />}
-                    <span className="text-[9px] font-normal tracking-wider">{hasPayments ? 'VERIFIED' : 'PENDING'}</span>
+                 <div className="flex flex-col items-end gap-4">
+                    <div className={`w-24 h-24 rounded-3xl flex flex-col items-center justify-center shadow-md animate-bounce-subtle ${hasPayments ? 'bg-emerald-500 text-white' : 'bg-rose-500 text-white'}`}>
+                       {hasPayments ? <Icons.Check className="w-10 h-10 mb-1" /> : <Icons.Close className="w-10 h-10 mb-1" />}
+                       <span className="text-[9px] font-normal tracking-wider">{hasPayments ? 'VERIFIED' : 'PENDING'}</span>
+                    </div>
+                    <button onClick={() => onReport(searchResult)} className="flex items-center gap-2 px-4 py-2 bg-white/80 dark:bg-black/40 border border-slate-200 dark:border-white/10 rounded-xl text-[10px] uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:text-indigo-600 transition-colors">
+                       <Icons.Report className="w-3.5 h-3.5" /> Generate report
+                    </button>
                  </div>
               </div>
               <div className={`p-10 rounded-3xl border text-center mb-10 transition-all ${hasPayments ? 'bg-white/80 dark:bg-black/40 border-emerald-100 dark:border-emerald-500/10' : 'bg-white/80 dark:bg-black/40 border-rose-100 dark:border-rose-500/10'}`}>
@@ -596,148 +1148,397 @@ const CalculatorView: React.FC = () => {
   );
 };
 
-const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<'dashboard' | 'calculator'>('dashboard');
-  const [records, setRecords] = useState<RecordItem[]>([]);
+const Workspace: React.FC = () => {
+  const { user, signOut } = useAuth();
+  const [currentView, setCurrentView] = useState<'dashboard' | 'analytics' | 'calculator' | 'imports' | 'quality'>('dashboard');
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [showUpload, setShowUpload] = useState(false);
-  const [infraHookData, setInfraHookData] = useState<Record<string, { appNo: string, isPaid: boolean }>>({});
+  const [dataVersion, setDataVersion] = useState(0);
   
   const [feedback, setFeedback] = useState<{ message: string, type: 'success' | 'error' } | null>(null);
-  const [confirmState, setConfirmState] = useState<{ message: string, onConfirm: () => void } | null>(null);
+  const [confirmState, setConfirmState] = useState<{ message: string, onConfirm: () => void, onCancel?: () => void } | null>(null);
   const [editingRecord, setEditingRecord] = useState<RecordItem | null>(null);
+  // The stored copy of the record being edited, read when the dialog opens and kept current from realtime.
+  const [editingLatest, setEditingLatest] = useState<RecordItem | null>(null);
+  const [recordChanges, setRecordChanges] = useState<RealtimeChange<RecordItem>[] | null>(null);
+  const [infraChangedPlots, setInfraChangedPlots] = useState<string[] | null>(null);
+  const [peers, setPeers] = useState<PresencePeer[]>([]);
+  const [mergeState, setMergeState] = useState<{ base: RecordItem, mine: Partial<RecordItem>, theirs: RecordItem | null, conflict?: SyncConflict } | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(getSyncStatus());
+  const presence = useRef<ReturnType<typeof joinPresence> | null>(null);
   const [showDelayedModal, setShowDelayedModal] = useState(false);
+  // Only records old enough to be late are loaded for the SLA alerts; see getSlaCandidates.
+  const [slaRecords, setSlaRecords] = useState<RecordItem[]>([]);
+  const [slaEntryTimes, setSlaEntryTimes] = useState<Record<string, string>>({});
+  const [showAssistant, setShowAssistant] = useState(false);
+  const [assistantMessages, setAssistantMessages] = useState<PortfolioMessage[]>([]);
+  const [reportSubject, setReportSubject] = useState<ReportSubject | null>(null);
+
+  const [slaRules, setSlaRules] = useState<SlaRule[]>(DEFAULT_SLA_RULES);
+  const [showSlaSettings, setShowSlaSettings] = useState(false);
 
-  const delayedRecords = useMemo(() => {
-    const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
+  const slaAlerts = useMemo<SlaAlert[]>(() => {
     const now = Date.now();
-    return records.filter(r => {
-      const isPending = r.status !== 'Passed';
-      const isOld = (now - new Date(r.createdAt).getTime()) > SEVEN_DAYS_MS;
-      return isPending && isOld;
-    });
-  }, [records]);
+    return slaRecords
+      .map(record => ({ record, sla: evaluateSla(record, slaRules, slaEntryTimes[record.id], now) }))
+      .filter(a => a.sla.severity !== 'ok')
+      .sort((a, b) => {
+        if (a.sla.severity !== b.sla.severity) return a.sla.severity === 'breached' ? -1 : 1;
+        return b.sla.daysInStage - a.sla.daysInStage;
+      });
+  }, [slaRecords, slaEntryTimes, slaRules]);
+
+  const slaCounts = useMemo(() => ({
+    breached: slaAlerts.filter(a => a.sla.severity === 'breached').length,
+    warning: slaAlerts.filter(a => a.sla.severity === 'warning').length
+  }), [slaAlerts]);
 
   const [importProgress, setImportProgress] = useState<{ 
     total: number, current: number, active: boolean, success: number, error: number, finished: boolean,
-    projectsDetected: number, infraDetected: number, summaryPhase: boolean, stagedProjects: any[], stagedInfra: any[]
+    projectsDetected: number, infraDetected: number, summaryPhase: boolean,
+    stagedProjects: StagedImportRow<RecordItem>[], stagedInfra: StagedImportRow<InfraReferenceItem>[],
+    droppedFields: string[]
   }>({
     total: 0, current: 0, active: false, success: 0, error: 0, finished: false,
-    projectsDetected: 0, infraDetected: 0, summaryPhase: false, stagedProjects: [], stagedInfra: []
+    projectsDetected: 0, infraDetected: 0, summaryPhase: false, stagedProjects: [], stagedInfra: [],
+    droppedFields: []
   });
+  const importValidity = useMemo(
+    () => countRowValidity([...importProgress.stagedProjects, ...importProgress.stagedInfra]),
+    [importProgress.stagedProjects, importProgress.stagedInfra]
+  );
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ fileName: string, sheets: WorkbookSheet[] } | null>(null);
+  const [showSheetRouter, setShowSheetRouter] = useState(false);
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<ImportProfile | null>(null);
+  const [showMapper, setShowMapper] = useState(false);
+  const [activeBatch, setActiveBatch] = useState<ImportBatch | null>(null);
+  const [unfinishedBatches, setUnfinishedBatches] = useState<ImportBatch[]>([]);
 
-  const loadData = async () => {
-    setLoading(true);
-    const data = await getRecords();
-    setRecords(data);
-    const plots = data.map(r => normalizePlot(r.plotNumber)).filter(Boolean);
-    if (plots.length > 0) {
-      setInfraHookData(await getInfraHookData(plots));
-    }
+  useEffect(() => {
+    if (showUpload && !importProgress.active && canImport(user)) getUnfinishedImportBatches().then(setUnfinishedBatches);
+  }, [showUpload, importProgress.active]);
+
+  // Every view reads its own records; bumping the version tells them to read again.
+  const loadData = () => setDataVersion(v => v + 1);
+
+  // Flush anything queued in an earlier offline session before the first read.
+  const syncAndReload = async () => {
+    await replayQueuedWrites();
+    loadData();
     setLoading(false);
   };
 
-  useEffect(() => { loadData(); }, []);
+  const reconnect = async () => {
+    if (await checkConnection()) await syncAndReload();
+  };
+
+  useEffect(() => {
+    const unsubscribe = onSyncStatusChange(setSyncStatus);
+    const goOffline = () => updateSyncStatus({ state: 'offline' });
+    window.addEventListener('online', reconnect);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', reconnect);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  // The browser's online event misses a Supabase outage on a working network, so poll while offline.
+  useEffect(() => {
+    if (syncStatus.state !== 'offline') return;
+    const timer = setInterval(reconnect, RECONNECT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [syncStatus.state]);
+
+  // Offline writes that no longer apply cleanly are resolved one at a time.
+  useEffect(() => {
+    const conflict = syncStatus.conflicts[0];
+    if (!conflict || mergeState || confirmState) return;
+    const write = conflict.write;
+    const base = write.kind === 'add' ? null : write.base || conflict.theirs;
+    if (write.kind === 'update' && base) {
+      setMergeState({ base, mine: write.updates, theirs: conflict.theirs, conflict });
+    } else if (write.kind === 'delete') {
+      setConfirmState({
+        message: `${write.base?.referenceNumber || 'A record'} was changed by someone else after you deleted it offline. Delete it anyway?`,
+        onConfirm: async () => {
+          dismissSyncConflict(conflict);
+          setConfirmState(null);
+          if (await deleteRecord(write.id)) loadData();
+        },
+        onCancel: () => dismissSyncConflict(conflict)
+      });
+    } else {
+      dismissSyncConflict(conflict);
+    }
+  }, [syncStatus.conflicts, mergeState, confirmState]);
+
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    getSlaCandidates(slaRules).then(candidates => {
+      if (cancelled || !candidates) return;
+      setSlaRecords(candidates.records);
+      setSlaEntryTimes(candidates.stageEntryTimes);
+    });
+    return () => { cancelled = true; };
+  }, [loading, dataVersion, slaRules]);
+
+  useEffect(() => {
+    setOutboxOwner(user?.id).then(syncAndReload);
+    getSlaRules().then(setSlaRules);
+    getStorageBackend().writableColumns().then(available => {
+      const missing = ALL_RECORD_COLUMNS.filter(column => !available.has(column));
+      if (missing.length > 0) {
+        setFeedback({ message: `Database is missing ${missing.length} record column(s). Run supabase_schema.sql to store them.`, type: 'error' });
+      }
+    });
+  }, []);
+
+  // Other sessions' writes arrive here; the dashboard patches its page from the same batches.
+  useEffect(() => {
+    const stopRecords = subscribeToRecords(changes => {
+      setSlaRecords(prev => applyRecordChanges(prev, changes));
+      setEditingLatest(prev => prev && (applyRecordChanges([prev], changes).find(r => r.id === prev.id) || null));
+      setRecordChanges(changes);
+      const moved = changes.filter(c => c.row && c.row.status !== c.old.status).map(c => c.row!.id);
+      if (moved.length > 0) getStageEntryTimes(moved).then(times => times && setSlaEntryTimes(prev => ({ ...prev, ...times })));
+    });
+    const stopInfra = subscribeToInfraReferences(changes => {
+      setInfraChangedPlots([...new Set(changes.flatMap(c => [c.row?.plotNumber, c.old.plotNumber]).map(normalizePlot).filter(Boolean))]);
+    });
+    return () => {
+      stopRecords();
+      stopInfra();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const channel = joinPresence(user, setPeers);
+    presence.current = channel;
+    return () => {
+      channel.leave();
+      presence.current = null;
+    };
+  }, [user?.id]);
+
+  useEffect(() => {
+    presence.current?.setEditing(editingRecord?.id || null);
+    setEditingLatest(editingRecord);
+    if (!editingRecord) return;
+    getRecordById(editingRecord.id).then(found => setEditingLatest(prev => prev?.id === editingRecord.id ? found : prev));
+  }, [editingRecord?.id]);
+
+  const editingBy = useMemo(() => peers.reduce((acc, peer) => {
+    if (peer.editingRecordId) acc[peer.editingRecordId] = [...(acc[peer.editingRecordId] || []), peer.username];
+    return acc;
+  }, {} as Record<string, string[]>), [peers]);
+
+  const resetImport = () => {
+    setImportProgress({ total:0, current:0, active:false, success:0, error:0, finished:false, projectsDetected:0, infraDetected:0, summaryPhase: false, stagedProjects:[], stagedInfra:[], droppedFields: [] });
+    setPendingWorkbook(null);
+    setActiveProfile(null);
+    setShowMapper(false);
+    setShowSheetRouter(false);
+    setActiveBatch(null);
+    setShowUpload(false);
+  };
+
+  const stageWorkbookRows = async (sheets: WorkbookSheet[], profile: ImportProfile) => {
+    const staged = await stageWorkbook(sheets, profile, importMode);
+    if (!staged) {
+      setFeedback({ message: "Could not read the stored records to compare the workbook against; try the import again", type: 'error' });
+      resetImport();
+      return;
+    }
+    const { stagedProjects, stagedInfra } = staged;
+
+    setImportProgress({
+      total: 0,
+      current: 0,
+      active: true,
+      success: 0,
+      error: 0,
+      finished: false,
+      projectsDetected: stagedProjects.length,
+      infraDetected: stagedInfra.length,
+      summaryPhase: true,
+      stagedProjects,
+      stagedInfra,
+      droppedFields: []
+    });
+  };
 
   const handleExcelUpload = async (file: File) => {
+    if (!canImport(user)) {
+      setFeedback({ message: "Only administrators can import data", type: 'error' });
+      return;
+    }
     const reader = new FileReader();
     reader.onload = async (e) => {
       const resultData = e.target?.result;
       if (!resultData) return;
       
-      const wb = XLSX.read(resultData, { type: 'binary' });
-      const rawData = XLSX.utils.sheet_to_json(wb.Sheets[wb.SheetNames[0]]);
-      const stagedProjects: any[] = [];
-      const stagedInfra: any[] = [];
-      const lowerValidStatuses = VALID_IMPORT_STATUSES.map(s => s.toLowerCase().trim());
-
-      const allDetectedPlots = rawData.map(r => normalizePlot(getValueByFuzzyKey(r, "Plot Number", "Plot"))).filter(Boolean);
-      const existingPlots = await getExistingInfraPlots(allDetectedPlots);
-      const existingRefs = new Set(records.map(r => r.referenceNumber));
-
-      rawData.forEach((row: any) => {
-        const ref = getValueByFuzzyKey(row, "Reference Number", "Reference", "Ref").toUpperCase();
-        const plot = normalizePlot(getValueByFuzzyKey(row, "Plot Number", "Plot"));
-        const sourceStatusRaw = getValueByFuzzyKey(row, "Status", "Workflow Status").trim();
-        const sourceStatusLower = sourceStatusRaw.toLowerCase();
-        const isValidStatus = lowerValidStatuses.includes(sourceStatusLower);
-
-        if (isValidStatus && !existingRefs.has(ref)) {
-          // Extract specific Creation Date if it exists
-          const creationDateRaw = getValueByFuzzyKey(row, "Creation Date", "Entry Date", "Date Created", "Created At", "Workflow Entry Date");
-          const projectCreationDate = creationDateRaw ? new Date(parseDateSafe(creationDateRaw)).toISOString() : new Date().toISOString();
-
-          stagedProjects.push({
-            label: getValueByFuzzyKey(row, "Label", "Title", "Project Name") || 'Untitled',
-            status: mapSourceToUIStatus(sourceStatusRaw),
-            plotNumber: plot,
-            referenceNumber: ref,
-            zone: getValueByFuzzyKey(row, "Zone") || '',
-            block: getValueByFuzzyKey(row, "Block") || '',
-            scheduleStartDate: parseDateSafe(getValueByFuzzyKey(row, "Schedule Start", "Start Date")),
-            wayleaveNumber: getValueByFuzzyKey(row, "Wayleave") || '',
-            accountNumber: getValueByFuzzyKey(row, "Account") || '',
-            requireUSP: false,
-            createdAt: projectCreationDate
-          });
-        } 
-        else if (plot && plot !== '' && !existingPlots.has(plot)) {
-          stagedInfra.push({
-            applicationNumber: getValueByFuzzyKey(row, "Application Number", "App No"),
-            plotNumber: plot,
-            ownerNameEn: getValueByFuzzyKey(row, "Owner"),
-            initialPaymentDate: getValueByFuzzyKey(row, "First Installment", "Initial Payment"),
-            secondPayment: getValueByFuzzyKey(row, "Second Installment"),
-            thirdPayment: getValueByFuzzyKey(row, "Final Settlement"),
-            createdAt: new Date().toISOString()
-          });
-        }
-      });
+      const sheets = readWorkbook(resultData, 'binary');
 
-      setImportProgress({
-        total: stagedProjects.length + stagedInfra.length,
-        current: 0,
-        active: true,
-        success: 0,
-        error: 0,
-        finished: false,
-        projectsDetected: stagedProjects.length,
-        infraDetected: stagedInfra.length,
-        summaryPhase: true,
-        stagedProjects,
-        stagedInfra
-      });
+      setPendingWorkbook({ fileName: file.name, sheets });
+      setShowSheetRouter(true);
     };
     reader.readAsBinaryString(file);
   };
 
+  const handleConfirmSheets = async (sheets: WorkbookSheet[]) => {
+    if (!pendingWorkbook) return;
+    setPendingWorkbook({ ...pendingWorkbook, sheets });
+    setShowSheetRouter(false);
+
+    // One profile covers the whole session: project fields map onto the projects sheet's headers, infra onto the infra sheet's.
+    const headers = [...new Set(sheets.filter(s => s.route !== 'ignore').flatMap(s => s.headers))];
+    const profiles = await getImportProfiles();
+    setImportProfiles(profiles);
+
+    const detected = detectImportProfile(headers, profiles);
+    if (detected) {
+      setActiveProfile(detected);
+      await stageWorkbookRows(sheets, detected);
+    } else {
+      setActiveProfile(guessImportProfile(headers, pendingWorkbook.fileName.replace(/\.xlsx$/i, '')));
+      setShowMapper(true);
+    }
+  };
+
+  const handleApplyMapping = async (profile: ImportProfile, save: boolean) => {
+    let applied = profile;
+    if (save) {
+      const saved = await saveImportProfile({ ...profile, createdBy: profile.createdBy || user?.username });
+      if (saved) {
+        applied = saved;
+        setImportProfiles(prev => [saved, ...prev.filter(p => p.id !== saved.id)]);
+      } else {
+        setFeedback({ message: "Mapping applied but the profile could not be saved", type: 'error' });
+      }
+    }
+    setActiveProfile(applied);
+    setShowMapper(false);
+    if (pendingWorkbook) await stageWorkbookRows(pendingWorkbook.sheets, applied);
+  };
+
+  const toggleStagedRows = (kind: 'projects' | 'infra', indexes: number[], included?: boolean) => {
+    const key = kind === 'projects' ? 'stagedProjects' : 'stagedInfra';
+    setImportProgress(prev => ({
+      ...prev,
+      [key]: (prev[key] as StagedImportRow<any>[]).map((row, i) =>
+        indexes.includes(i) && row.action !== 'unchanged' && !hasBlockingIssues(row) ? { ...row, included: included ?? !row.included } : row
+      )
+    }));
+  };
+
+  const runBatch = async (batch: ImportBatch) => {
+    setActiveBatch(batch);
+    setImportProgress(prev => ({ ...prev, active: true, summaryPhase: false, finished: false, total: batch.totalRows, current: batch.appliedRows }));
+    const result = await runImportBatch(batch, progress => setImportProgress(prev => ({
+      ...prev,
+      current: progress.applied,
+      success: progress.applied,
+      droppedFields: progress.droppedFields
+    })));
+    if (result.batch) setActiveBatch(result.batch);
+    loadData();
+    setImportProgress(prev => ({ ...prev, error: result.success ? 0 : prev.total - prev.current, finished: true }));
+  };
+
   const startSync = async () => {
-    setImportProgress(prev => ({ ...prev, summaryPhase: false }));
-    for (let i = 0; i < importProgress.stagedProjects.length; i++) {
-      const item = importProgress.stagedProjects[i];
-      const result = await addRecord(item as RecordItem);
-      setImportProgress(prev => ({
-        ...prev,
-        current: prev.current + 1,
-        success: result ? prev.success + 1 : prev.success,
-        error: !result ? prev.error + 1 : prev.error
-      }));
+    const staged = [...importProgress.stagedProjects, ...importProgress.stagedInfra];
+    const projects = pendingImportRows(importProgress.stagedProjects);
+    const infra = pendingImportRows(importProgress.stagedInfra);
+    const batch = await createImportBatch({
+      fileName: pendingWorkbook?.fileName || 'import.xlsx',
+      profileName: activeProfile?.name,
+      mode: importMode,
+      createdBy: user?.username,
+      sheetNames: (pendingWorkbook?.sheets || []).filter(s => s.route !== 'ignore').map(s => s.name),
+      projects,
+      infra,
+      invalidRows: importValidity.error,
+      skippedRows: staged.length - projects.length - infra.length - importValidity.error
+    });
+    if (!batch) {
+      setFeedback({ message: "Could not start the import batch", type: 'error' });
+      return;
     }
-    if (importProgress.stagedInfra.length > 0) {
-      const success = await saveInfraReferences(importProgress.stagedInfra);
-      setImportProgress(prev => ({
-        ...prev,
-        current: prev.current + prev.stagedInfra.length,
-        success: success ? prev.success + prev.stagedInfra.length : prev.success,
-        error: !success ? prev.error + prev.stagedInfra.length : prev.error
-      }));
+    await runBatch(batch);
+  };
+
+  const handleRollbackBatch = (batch: ImportBatch) => {
+    if (!isAdmin(user)) {
+      setFeedback({ message: "Only administrators can roll back imports", type: 'error' });
+      return;
+    }
+    setConfirmState({
+      message: `Roll back the import of ${batch.fileName}? Created rows are deleted and updated rows get their previous values back.`,
+      onConfirm: async () => {
+        setConfirmState(null);
+        const rolledBack = await rollbackImportBatch(batch, user?.username || 'system');
+        if (rolledBack) {
+          setFeedback({ message: "Import rolled back", type: 'success' });
+          setUnfinishedBatches(prev => prev.filter(b => b.id !== batch.id));
+          if (activeBatch?.id === batch.id) resetImport();
+          loadData();
+        } else {
+          setFeedback({ message: "Rollback stopped before finishing; try again", type: 'error' });
+        }
+      }
+    });
+  };
+
+  const handleApplyFixes = (fixes: DataQualityFix[]) => {
+    if (!isAdmin(user)) {
+      setFeedback({ message: "Only administrators can fix data quality issues", type: 'error' });
+      return;
+    }
+    const removed = fixes.reduce((n, fix) => n + fix.recordDeletes.length + fix.infraDeletes.length, 0);
+    setConfirmState({
+      message: `Apply ${fixes.length} fix(es)?${removed > 0 ? ` ${removed} duplicate row(s) will be deleted once their values are merged into the row kept.` : ''}`,
+      onConfirm: async () => {
+        setConfirmState(null);
+        // Fixes are not queued offline, so refuse up front rather than report every one as failed.
+        if (isOffline()) {
+          setFeedback({ message: "Data quality fixes need a connection; try again once you're back online", type: 'error' });
+          return;
+        }
+        const { applied, failed, skipped } = await applyDataQualityFixes(fixes);
+        if (failed > 0 || skipped > 0) {
+          const parts = [failed > 0 && `${failed} failed`, skipped > 0 && `${skipped} overlapped an earlier fix`].filter(Boolean).join(', ');
+          setFeedback({ message: `${applied} of ${fixes.length} fixes applied (${parts}); rescan to see what is left`, type: 'error' });
+        } else {
+          setFeedback({ message: `${applied} fix(es) applied`, type: 'success' });
+        }
+        loadData();
+      }
+    });
+  };
+
+  const handleSaveSlaRules = async (rules: SlaRule[]) => {
+    const saved = await saveSlaRules(rules);
+    if (saved) {
+      setSlaRules(saved);
+      setShowSlaSettings(false);
+      setFeedback({ message: "SLA rules saved", type: 'success' });
+    } else {
+      setFeedback({ message: "Could not save SLA rules", type: 'error' });
     }
-    await loadData();
-    setImportProgress(prev => ({ ...prev, finished: true }));
   };
 
   const handleDelete = (id: string) => {
+    if (!canDeleteRecords(user)) {
+      setFeedback({ message: "Only administrators can delete records", type: 'error' });
+      return;
+    }
     setConfirmState({
       message: "Confirm deletion of this record? This cannot be undone.",
       onConfirm: async () => {
@@ -753,26 +1554,37 @@ const App: React.FC = () => {
     });
   };
 
-  const handleUpdateRecord = async (updates: Partial<RecordItem>) => {
-    if (!editingRecord) return;
-    const success = await updateRecord(editingRecord.id, updates);
-    if (success) {
+  // `base` is the copy the edit started from; its rowVersion guards against overwriting a concurrent save.
+  const saveRecordEdit = async (updates: Partial<RecordItem>, base: RecordItem) => {
+    if (!canEditRecord(user, base)) {
+      setFeedback({ message: "This record is not assigned to you", type: 'error' });
+      return;
+    }
+    const result = await updateRecord(base.id, updates, base.rowVersion);
+    if (result.conflict !== undefined) {
+      setEditingRecord(null);
+      setMergeState({ base, mine: updates, theirs: result.conflict });
+    } else if (result.queued) {
+      setFeedback({ message: "Saved offline; it will sync when the connection is back", type: 'success' });
+      setEditingRecord(null);
+      setMergeState(null);
+      loadData();
+    } else if (result.success && result.droppedFields.length > 0) {
+      setFeedback({ message: `Record updated, but not saved: ${result.droppedFields.join(', ')}`, type: 'error' });
+      setEditingRecord(null);
+      setMergeState(null);
+      loadData();
+    } else if (result.success) {
       setFeedback({ message: "Record updated", type: 'success' });
       setEditingRecord(null);
+      setMergeState(null);
       loadData();
     } else {
       setFeedback({ message: "Update failed", type: 'error' });
     }
   };
 
-  if (loading) return (
-    <div className="fixed inset-0 bg-slate-900 flex items-center justify-center">
-      <div className="text-center">
-        <Icons.Spinner className="w-10 h-10 text-indigo-500 animate-spin mx-auto mb-4" />
-        <p className="text-slate-400 font-normal text-xs uppercase tracking-widest">Nexus System Loading...</p>
-      </div>
-    </div>
-  );
+  if (loading) return <LoadingScreen />;
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-black font-sans text-slate-900 dark:text-slate-100 flex overflow-hidden">
@@ -790,7 +1602,10 @@ const App: React.FC = () => {
         <nav className="flex-1 px-4 space-y-2 mt-4">
           {[
             { id: 'dashboard', icon: Icons.Dashboard, label: 'Control Hub' },
-            { id: 'calculator', icon: Icons.Calculator, label: 'Audit Engine' }
+            { id: 'analytics', icon: Icons.Analytics, label: 'Analytics' },
+            { id: 'calculator', icon: Icons.Calculator, label: 'Audit Engine' },
+            { id: 'imports', icon: Icons.History, label: 'Import History' },
+            { id: 'quality', icon: Icons.Quality, label: 'Data Quality' }
           ].map((item) => (
             <button 
               key={item.id}
@@ -808,21 +1623,28 @@ const App: React.FC = () => {
         </nav>
 
         <div className="p-6">
-            {delayedRecords.length > 0 && (
+            {slaAlerts.length > 0 && (
               <button 
                 onClick={() => setShowDelayedModal(true)}
                 className="w-full mb-3 flex items-center justify-center gap-2 py-2.5 bg-rose-500/10 border border-rose-500/30 rounded-xl text-rose-500 hover:bg-rose-500/20 transition-all group"
               >
                 <Icons.Alert className="w-4 h-4 animate-pulse-fast" />
-                <span className="hidden lg:block text-[10px] uppercase tracking-widest">Alerts ({delayedRecords.length})</span>
+                <span className="hidden lg:block text-[10px] uppercase tracking-widest">Alerts ({slaAlerts.length})</span>
               </button>
             )}
+            <div className="mb-3 flex items-center gap-3 p-3 rounded-2xl bg-white/5 border border-white/5">
+                <div className="w-8 h-8 rounded-xl bg-indigo-500/20 flex items-center justify-center shrink-0 overflow-hidden">
+                    {user?.avatar ? <img src={user.avatar} alt="" className="w-full h-full object-cover" /> : <Icons.User className="w-4 h-4 text-indigo-400" />}
+                </div>
+                <div className="hidden lg:block flex-1 min-w-0">
+                    <p className="text-xs truncate">{user?.username}</p>
+                    <p className="text-[9px] text-slate-500 uppercase tracking-widest">{user?.role}</p>
+                </div>
+                <button onClick={signOut} title="Sign out" className="hidden lg:block p-1.5 text-slate-500 hover:text-rose-400 transition-colors"><Icons.Logout className="w-4 h-4" /></button>
+            </div>
             <div className="hidden lg:block p-4 rounded-2xl bg-indigo-500/5 border border-indigo-500/10 text-center">
                 <p className="text-[9px] font-normal uppercase text-indigo-400 tracking-widest mb-1.5">System Status</p>
-                <div className="flex items-center justify-center gap-2">
-                    <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></div>
-                    <span className="font-normal text-[10px]">OPERATIONAL</span>
-                </div>
+                <SyncIndicator status={syncStatus} onRetry={reconnect} />
             </div>
         </div>
       </aside>
@@ -831,31 +1653,100 @@ const App: React.FC = () => {
         <div className="max-w-7xl mx-auto">
            {currentView === 'dashboard' ? (
              <DashboardView 
-               records={records} 
-               infraHookData={infraHookData} 
+               refreshKey={dataVersion}
+               recordChanges={recordChanges}
+               infraChangedPlots={infraChangedPlots}
+               editingBy={editingBy}
                searchTerm={searchTerm} 
                onSearch={setSearchTerm} 
                onUpload={() => setShowUpload(true)}
                onEdit={(r) => setEditingRecord(r)}
                onDelete={handleDelete}
+               onReport={setReportSubject}
                onAlertsClick={() => setShowDelayedModal(true)}
-               delayedCount={delayedRecords.length}
+               onError={(message) => setFeedback({ message, type: 'error' })}
+               slaCounts={slaCounts}
              />
-           ) : <CalculatorView />}
+           ) : currentView === 'analytics' ? (
+             <AnalyticsView refreshKey={dataVersion} />
+           ) : currentView === 'imports' ? (
+             <ImportHistoryView
+               refreshKey={dataVersion}
+               canRollback={isAdmin(user)}
+               onRollback={handleRollbackBatch}
+               onOpenRecord={(r) => setEditingRecord(r)}
+             />
+           ) : currentView === 'quality' ? (
+             <DataQualityView
+               refreshKey={dataVersion}
+               canFix={isAdmin(user)}
+               onApply={handleApplyFixes}
+               onOpenRecord={(r) => setEditingRecord(r)}
+             />
+           ) : <CalculatorView onReport={setReportSubject} />}
         </div>
 
         {/* --- Global Modals --- */}
         
+        {showAssistant ? (
+          <PortfolioAssistant
+            refreshKey={dataVersion}
+            messages={assistantMessages}
+            onMessagesChange={setAssistantMessages}
+            onOpenRecord={(r) => setEditingRecord(r)}
+            onClose={() => setShowAssistant(false)}
+          />
+        ) : (
+          <button
+            onClick={() => setShowAssistant(true)}
+            title="Ask your portfolio"
+            className="fixed bottom-8 right-8 z-40 w-14 h-14 rounded-2xl bg-indigo-600 text-white shadow-xl flex items-center justify-center hover:bg-indigo-700 transition-all"
+          >
+            <Icons.AI className="w-6 h-6" />
+          </button>
+        )}
+
         {showDelayedModal && (
-          <DelayedAlertModal delayedRecords={delayedRecords} onClose={() => setShowDelayedModal(false)} />
+          <DelayedAlertModal alerts={slaAlerts} onConfigure={isAdmin(user) ? () => setShowSlaSettings(true) : undefined} onClose={() => setShowDelayedModal(false)} />
+        )}
+
+        {showSlaSettings && (
+          <SlaSettingsModal rules={slaRules} onClose={() => setShowSlaSettings(false)} onSave={handleSaveSlaRules} />
         )}
 
         {editingRecord && (
-          <EditModal record={editingRecord} onClose={() => setEditingRecord(null)} onSave={handleUpdateRecord} />
+          <EditModal
+            record={editingRecord}
+            latest={editingLatest}
+            otherEditors={editingBy[editingRecord.id] || []}
+            onClose={() => setEditingRecord(null)}
+            onSave={saveRecordEdit}
+          />
+        )}
+
+        {mergeState && (
+          <MergeDialog
+            key={`${mergeState.base.id}:${mergeState.theirs?.rowVersion}`}
+            base={mergeState.base}
+            mine={mergeState.mine}
+            theirs={mergeState.theirs}
+            onSave={(merged) => {
+              if (mergeState.conflict) dismissSyncConflict(mergeState.conflict);
+              if (mergeState.theirs) saveRecordEdit(merged, mergeState.theirs);
+            }}
+            onClose={() => {
+              if (mergeState.conflict) dismissSyncConflict(mergeState.conflict);
+              setMergeState(null);
+            }}
+          />
+        )}
+
+        {reportSubject && (
+          <ReportViewer subject={reportSubject} onClose={() => setReportSubject(null)} onError={(message) => setFeedback({ message, type: 'error' })} />
         )}
 
         {confirmState && (
-          <ConfirmModal message={confirmState.message} onConfirm={confirmState.onConfirm} onClose={() => setConfirmState(null)} />
+          <ConfirmModal message={confirmState.message} onConfirm={confirmState.onConfirm} onClose={() => { confirmState.onCancel?.(); setConfirmState(null); }} />
         )}
 
         {feedback && (
@@ -864,50 +1755,141 @@ const App: React.FC = () => {
 
         {showUpload && (
             <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60] flex items-center justify-center p-4 animate-fade-in font-normal">
-                <div className="bg-white dark:bg-slate-900 rounded-[2rem] p-8 max-w-xl w-full shadow-2xl animate-scale-in border border-white/5 overflow-y-auto max-h-[90vh] custom-scrollbar">
-                    {importProgress.active ? (
+                <div className={`bg-white dark:bg-slate-900 rounded-[2rem] p-8 w-full shadow-2xl ${importProgress.summaryPhase || showMapper ? 'max-w-6xl' : showSheetRouter ? 'max-w-3xl' : 'max-w-xl'} animate-scale-in border border-white/5 overflow-y-auto max-h-[90vh] custom-scrollbar`}>
+                    {showSheetRouter && pendingWorkbook ? (
+                      <SheetRouter
+                        fileName={pendingWorkbook.fileName}
+                        sheets={pendingWorkbook.sheets}
+                        onConfirm={handleConfirmSheets}
+                        onCancel={resetImport}
+                      />
+                    ) : showMapper && pendingWorkbook && activeProfile ? (
+                      <ColumnMapper
+                        headers={[...new Set(pendingWorkbook.sheets.filter(s => s.route !== 'ignore').flatMap(s => s.headers))]}
+                        initial={activeProfile}
+                        profiles={importProfiles}
+                        onConfirm={handleApplyMapping}
+                        onCancel={() => importProgress.active ? setShowMapper(false) : resetImport()}
+                      />
+                    ) : importProgress.active ? (
                       <div className="text-center py-4">
                         {importProgress.summaryPhase ? (
                           <div className="animate-fade-in text-left">
                              <div className="text-center mb-8">
                                 <h3 className="text-xl font-normal mb-1 text-slate-900 dark:text-white uppercase tracking-tight">Data Scan Ready</h3>
                                 <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest">Historical dates used for alerts</p>
+                                {activeProfile && (
+                                  <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest mt-2">
+                                    Profile: <span className="text-indigo-500">{activeProfile.name}</span>
+                                    <button onClick={() => setShowMapper(true)} className="ml-3 underline hover:text-indigo-500 transition-colors">Edit Mapping</button>
+                                  </p>
+                                )}
                              </div>
                              
-                             <div className="grid grid-cols-2 gap-4 mb-8">
-                                <div className="p-5 bg-slate-50 dark:bg-white/5 rounded-2xl border border-slate-100 dark:border-white/5">
-                                    <div className="font-normal text-indigo-500 uppercase text-[9px] tracking-widest mb-1">New Projects</div>
-                                    <div className="text-3xl font-normal text-slate-900 dark:text-white">{importProgress.projectsDetected}</div>
-                                </div>
-                                <div className="p-5 bg-slate-50 dark:bg-white/5 rounded-2xl border border-slate-100 dark:border-white/5">
-                                    <div className="font-normal text-emerald-500 uppercase text-[9px] tracking-widest mb-1">New Infra</div>
-                                    <div className="text-3xl font-normal text-slate-900 dark:text-white">{importProgress.infraDetected}</div>
-                                </div>
+                             <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6">
+                                {[
+                                  { label: 'Projects', color: 'text-indigo-500', counts: countImportActions(importProgress.stagedProjects) },
+                                  { label: 'Infra', color: 'text-emerald-500', counts: countImportActions(importProgress.stagedInfra) }
+                                ].map(group => (
+                                  <div key={group.label} className="p-5 bg-slate-50 dark:bg-white/5 rounded-2xl border border-slate-100 dark:border-white/5">
+                                      <div className={`font-normal uppercase text-[9px] tracking-widest mb-3 ${group.color}`}>{group.label}</div>
+                                      <div className="grid grid-cols-3 gap-4">
+                                          <div>
+                                              <div className="text-2xl font-normal text-slate-900 dark:text-white">{group.counts.create}</div>
+                                              <div className="text-[9px] text-slate-400 uppercase tracking-widest">Created</div>
+                                          </div>
+                                          <div>
+                                              <div className="text-2xl font-normal text-slate-900 dark:text-white">{group.counts.update}</div>
+                                              <div className="text-[9px] text-slate-400 uppercase tracking-widest">Updated</div>
+                                          </div>
+                                          <div>
+                                              <div className="text-2xl font-normal text-slate-400">{group.counts.unchanged}</div>
+                                              <div className="text-[9px] text-slate-400 uppercase tracking-widest">{importMode === 'merge' ? 'Unchanged' : 'Skipped'}</div>
+                                          </div>
+                                      </div>
+                                  </div>
+                                ))}
+                             </div>
+
+                             {(importValidity.error > 0 || importValidity.warning > 0) && (
+                               <div className={`mb-6 p-4 rounded-xl border flex flex-wrap items-center justify-between gap-3 text-xs ${importValidity.error > 0 ? 'bg-rose-500/10 border-rose-500/20 text-rose-600 dark:text-rose-400' : 'bg-amber-500/10 border-amber-500/20 text-amber-600 dark:text-amber-400'}`}>
+                                 <div className="flex items-center gap-3">
+                                   <Icons.Alert className="w-4 h-4 shrink-0" />
+                                   <span>{importValidity.error} row(s) with errors will not be synced • {importValidity.warning} row(s) with warnings</span>
+                                 </div>
+                                 <button
+                                   onClick={() => downloadValidationReport([...importProgress.stagedProjects, ...importProgress.stagedInfra], pendingWorkbook?.fileName || 'import.xlsx')}
+                                   className="px-4 py-2 bg-white dark:bg-black border border-slate-200 dark:border-white/10 rounded-lg uppercase text-[10px] tracking-widest hover:opacity-80 transition-all"
+                                 >
+                                   Download Error Report
+                                 </button>
+                               </div>
+                             )}
+
+                             <div className="mb-8">
+                                <ImportPreviewGrid
+                                  projects={importProgress.stagedProjects}
+                                  infra={importProgress.stagedInfra}
+                                  onToggle={(kind, index) => toggleStagedRows(kind, [index])}
+                                  onToggleAll={(kind, indexes, included) => toggleStagedRows(kind, indexes, included)}
+                                />
                              </div>
 
                              <div className="flex gap-3">
-                                <button onClick={startSync} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all hover:bg-indigo-700">Sync Now</button>
-                                <button onClick={() => setShowUpload(false)} className="px-6 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-normal uppercase text-[11px] tracking-widest">Cancel</button>
+                                <button onClick={startSync} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all hover:bg-indigo-700">
+                                  Sync {pendingImportRows(importProgress.stagedProjects).length + pendingImportRows(importProgress.stagedInfra).length} Rows
+                                </button>
+                                <button onClick={resetImport} className="px-6 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-normal uppercase text-[11px] tracking-widest">Cancel</button>
                              </div>
                           </div>
                         ) : !importProgress.finished ? (
                           <>
                             <div className="w-20 h-20 rounded-full border-2 border-slate-100 dark:border-white/5 flex items-center justify-center mx-auto mb-8 relative">
                                <div className="absolute inset-0 border-2 border-indigo-500 rounded-full border-t-transparent animate-spin"></div>
-                               <span className="text-lg font-normal">{Math.round((importProgress.current / importProgress.total) * 100)}%</span>
+                               <span className="text-lg font-normal">{importProgress.total > 0 ? Math.round((importProgress.current / importProgress.total) * 100) : 100}%</span>
                             </div>
                             <h3 className="text-xl font-normal mb-1 text-slate-900 dark:text-white uppercase tracking-tight">Syncing...</h3>
                             <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest mb-8">Injecting {importProgress.current} records</p>
                           </>
                         ) : (
                           <div className="animate-scale-in">
-                             <div className="w-16 h-16 bg-emerald-500 text-white rounded-full flex items-center justify-center mx-auto mb-6 shadow-md">
-                                <Icons.Check className="w-8 h-8" />
-                             </div>
-                             <h3 className="text-xl font-normal mb-1 text-slate-900 dark:text-white uppercase tracking-tight">Task Complete</h3>
-                             <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest mb-8">Sync operation successful</p>
+                             {activeBatch?.status === 'failed' ? (
+                               <>
+                                 <div className="w-16 h-16 bg-rose-500 text-white rounded-full flex items-center justify-center mx-auto mb-6 shadow-md">
+                                    <Icons.Alert className="w-8 h-8" />
+                                 </div>
+                                 <h3 className="text-xl font-normal mb-1 text-slate-900 dark:text-white uppercase tracking-tight">Sync Interrupted</h3>
+                                 <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest mb-2">{activeBatch.appliedRows} of {activeBatch.totalRows} rows written</p>
+                                 <p className="text-xs text-rose-500 mb-8">{activeBatch.errorMessage}</p>
+                               </>
+                             ) : (
+                               <>
+                                 <div className="w-16 h-16 bg-emerald-500 text-white rounded-full flex items-center justify-center mx-auto mb-6 shadow-md">
+                                    <Icons.Check className="w-8 h-8" />
+                                 </div>
+                                 <h3 className="text-xl font-normal mb-1 text-slate-900 dark:text-white uppercase tracking-tight">Task Complete</h3>
+                                 <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest mb-8">Sync operation successful</p>
+                               </>
+                             )}
+
+                             {importProgress.droppedFields.length > 0 && (
+                               <div className="mb-6 p-4 bg-rose-500/10 border border-rose-500/20 rounded-xl flex items-start gap-3 text-rose-600 dark:text-rose-400 text-xs text-left">
+                                 <Icons.Alert className="w-4 h-4 shrink-0 mt-0.5" />
+                                 <span>No database column for: {importProgress.droppedFields.join(', ')}. These values were not stored.</span>
+                               </div>
+                             )}
                              
-                             <button onClick={() => { setImportProgress({ total:0, current:0, active:false, success:0, error:0, finished:false, projectsDetected:0, infraDetected:0, summaryPhase: false, stagedProjects:[], stagedInfra:[] }); setShowUpload(false); }} className="w-full py-3 bg-slate-900 dark:bg-white text-white dark:text-black rounded-xl font-normal uppercase text-[11px] tracking-widest transition-all">Dismiss</button>
+                             {activeBatch && (
+                               <div className="flex gap-3 mb-3">
+                                 {activeBatch.status === 'failed' && (
+                                   <button onClick={() => runBatch(activeBatch)} className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all hover:bg-indigo-700">Resume Sync</button>
+                                 )}
+                                 {isAdmin(user) && (
+                                   <button onClick={() => handleRollbackBatch(activeBatch)} className="flex-1 py-3 bg-rose-500/10 text-rose-500 border border-rose-500/20 rounded-xl font-normal uppercase text-[11px] tracking-widest transition-all hover:bg-rose-500/20">Roll Back Import</button>
+                                 )}
+                               </div>
+                             )}
+                             <button onClick={resetImport} className="w-full py-3 bg-slate-900 dark:bg-white text-white dark:text-black rounded-xl font-normal uppercase text-[11px] tracking-widest transition-all">Dismiss</button>
                           </div>
                         )}
                       </div>
@@ -917,8 +1899,34 @@ const App: React.FC = () => {
                               <Icons.Excel className="w-8 h-8 text-indigo-600" />
                           </div>
                           <h3 className="text-xl font-normal mb-2 text-slate-900 dark:text-white tracking-tight uppercase">Import Dataset</h3>
-                          <p className="text-xs text-slate-500 mb-8 font-normal leading-relaxed text-center">Excel synchronization. We will use the 'Creation Date' or 'Entry Date' from your file to track delays. Duplicates are auto-skipped.</p>
+                          <p className="text-xs text-slate-500 mb-8 font-normal leading-relaxed text-center">Excel synchronization. We will use the 'Creation Date' or 'Entry Date' from your file to track delays. Projects are matched by reference number, infra by plot and application number.</p>
+
+                          <div className="flex gap-1 mb-6 p-1 bg-slate-100 dark:bg-black rounded-xl">
+                              {([['merge', 'Merge Updates'], ['skip', 'Skip Existing']] as [ImportMode, string][]).map(([mode, label]) => (
+                                  <button key={mode} onClick={() => setImportMode(mode)} className={`flex-1 py-2 rounded-lg font-normal text-[10px] uppercase tracking-widest transition-all ${importMode === mode ? 'bg-white dark:bg-slate-800 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{label}</button>
+                              ))}
+                          </div>
                           
+                          {unfinishedBatches.length > 0 && (
+                            <div className="mb-6 space-y-2 text-left">
+                              <p className="text-[10px] text-rose-500 uppercase tracking-widest ml-1">Unfinished Imports</p>
+                              {unfinishedBatches.map(batch => (
+                                <div key={batch.id} className="p-3 bg-rose-500/5 border border-rose-500/20 rounded-xl flex items-center justify-between gap-3">
+                                  <div className="min-w-0">
+                                    <p className="text-xs text-slate-900 dark:text-white truncate">{batch.fileName}</p>
+                                    <p className="text-[10px] text-slate-400">{new Date(batch.createdAt).toLocaleString()} • {batch.appliedRows}/{batch.totalRows} rows • {batch.createdBy || 'unknown'}</p>
+                                  </div>
+                                  <div className="flex gap-2 shrink-0">
+                                    <button onClick={() => runBatch(batch)} className="px-3 py-1.5 bg-indigo-600 text-white rounded-lg text-[10px] uppercase tracking-widest hover:bg-indigo-700 transition-all">Resume</button>
+                                    {isAdmin(user) && (
+                                      <button onClick={() => handleRollbackBatch(batch)} className="px-3 py-1.5 bg-rose-500/10 text-rose-500 rounded-lg text-[10px] uppercase tracking-widest hover:bg-rose-500/20 transition-all">Roll Back</button>
+                                    )}
+                                  </div>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+
                           <input type="file" id="upload-input" className="hidden" accept=".xlsx" onChange={(e) => e.target.files?.[0] && handleExcelUpload(e.target.files[0])} />
                           <div className="flex flex-col gap-2">
                               <label htmlFor="upload-input" className="w-full py-3.5 bg-indigo-600 text-white rounded-xl font-normal cursor-pointer hover:bg-indigo-700 transition-all shadow-md uppercase text-[11px] tracking-widest text-center">Browse Files</label>
@@ -934,4 +1942,16 @@ const App: React.FC = () => {
   );
 };
 
+const AuthGate: React.FC = () => {
+  const { loading, isAuthenticated } = useAuth();
+  if (loading) return <LoadingScreen />;
+  return isAuthenticated ? <Workspace /> : <LoginView />;
+};
+
+const App: React.FC = () => STORAGE_CONFIG_ERROR ? <ConfigErrorScreen message={STORAGE_CONFIG_ERROR} /> : (
+  <AuthProvider>
+    <AuthGate />
+  </AuthProvider>
+);
+
 export default App;
@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ResponsiveContainer, BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend
+} from 'recharts';
+import { Icons } from './Icons';
+import { RecordItem, GridViewFilters } from '../types';
+import { queryAllRecords, getFacetCounts } from '../services/storageService';
+import { getStageEntryTimes, getStatusEntries } from '../services/historyService';
+import { BLANK_FACET_VALUE, EMPTY_FILTERS, filterRecords } from '../services/recordFilters';
+import { AGING_BUCKETS, stageFunnel, agingByStage, passedEntryTimes, weeklyCounts, weeklyCountsWindow, openWorkload, paymentCoverageByMonth } from '../services/analyticsService';
+
+// Throughput shows this many weeks when no date range is set.
+const DEFAULT_THROUGHPUT_WEEKS = 12;
+
+const AGING_COLORS = ['#10b981', '#84cc16', '#f59e0b', '#f97316', '#f43f5e'];
+
+const AXIS_PROPS = { tick: { fontSize: 10, fill: '#94a3b8' }, stroke: '#cbd5e1' };
+const TOOLTIP_PROPS = {
+  contentStyle: { borderRadius: 12, border: '1px solid #e2e8f0', fontSize: 11 },
+  cursor: { fill: 'rgba(99, 102, 241, 0.06)' }
+};
+
+interface AnalyticsFilters {
+  governorate: string;
+  jobType: string;
+  from: string;
+  to: string;
+}
+
+const NO_FILTERS: AnalyticsFilters = { governorate: '', jobType: '', from: '', to: '' };
+
+// The throughput chart's date span: the chosen range, or the weeks up to today.
+const throughputRange = ({ from, to }: AnalyticsFilters) => {
+  const end = to || new Date().toISOString().split('T')[0];
+  return { from: from || new Date(Date.parse(end) - (DEFAULT_THROUGHPUT_WEEKS - 1) * 7 * 86400000).toISOString().split('T')[0], to: end };
+};
+
+const facetOptions = (counts: { value: string }[] = []) =>
+  counts.map(c => c.value).filter(v => v !== BLANK_FACET_VALUE).sort((a, b) => a.localeCompare(b));
+
+const ChartCard: React.FC<{ title: string, icon: any, detail?: string, className?: string, children: React.ReactNode }> = ({ title, icon: Icon, detail, className = '', children }) => (
+  <div className={`bg-white dark:bg-slate-900 p-8 rounded-3xl border border-slate-200 dark:border-white/5 shadow-sm ${className}`}>
+    <div className="flex justify-between items-baseline mb-6">
+      <h3 className="text-sm font-normal text-slate-900 dark:text-white flex items-center gap-2 uppercase tracking-widest">
+        <Icon className="w-4 h-4 text-indigo-500" /> {title}
+      </h3>
+      {detail && <span className="text-[10px] text-slate-400 uppercase tracking-widest">{detail}</span>}
+    </div>
+    <div className="h-72">{children}</div>
+  </div>
+);
+
+const FilterSelect: React.FC<{ label: string, value: string, options: string[], onChange: (value: string) => void }> = ({ label, value, options, onChange }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-[10px] text-slate-400 uppercase tracking-widest">{label}</span>
+    <select value={value} onChange={e => onChange(e.target.value)} className="px-3 py-2 bg-white dark:bg-black border border-slate-200 dark:border-white/10 rounded-lg text-xs outline-none focus:ring-1 focus:ring-indigo-500 min-w-[10rem]">
+      <option value="">All</option>
+      {options.map(o => <option key={o} value={o}>{o}</option>)}
+    </select>
+  </label>
+);
+
+/**
+ * Pipeline charts over the records in scope. Governorate and job type narrow every chart and are
+ * applied in the database, which reads those records page by page on open, on a change of scope
+ * and whenever `refreshKey` changes. The date range selects records by creation date, except for
+ * throughput, which it windows by when records passed.
+ */
+export const AnalyticsView: React.FC<{ refreshKey: number }> = ({ refreshKey }) => {
+  const [filters, setFilters] = useState<AnalyticsFilters>(NO_FILTERS);
+  const [scoped, setScoped] = useState<RecordItem[]>([]);
+  const [hookData, setHookData] = useState<Record<string, { appNo: string, isPaid: boolean }>>({});
+  const [stageEntryTimes, setStageEntryTimes] = useState<Record<string, string>>({});
+  const [passedEntries, setPassedEntries] = useState<{ recordId: string, changedAt: string }[] | null>([]);
+  const [options, setOptions] = useState<{ governorate: string[], jobType: string[] }>({ governorate: [], jobType: [] });
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    getFacetCounts(EMPTY_FILTERS).then(counts => setOptions({
+      governorate: facetOptions(counts.governorate),
+      jobType: facetOptions(counts.jobType)
+    }));
+  }, [refreshKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    (async () => {
+      const facets: GridViewFilters['facets'] = {
+        ...(filters.governorate ? { governorate: [filters.governorate] } : {}),
+        ...(filters.jobType ? { jobType: [filters.jobType] } : {})
+      };
+      const page = await queryAllRecords({ ...EMPTY_FILTERS, facets }, null);
+      const times = page && await getStageEntryTimes(page.records.map(r => r.id));
+      if (cancelled) return;
+      setLoadFailed(!page || !times);
+      setScoped(page && times ? page.records : []);
+      setHookData(page && times ? page.hookData : {});
+      setStageEntryTimes(times || {});
+      setLoading(false);
+    })();
+    return () => { cancelled = true; };
+  }, [refreshKey, filters.governorate, filters.jobType]);
+
+  // Only the moves into Passed that the throughput chart shows are read.
+  useEffect(() => {
+    let cancelled = false;
+    const { from, to } = throughputRange(filters);
+    const { since, until } = weeklyCountsWindow(from, to);
+    getStatusEntries('Passed', since, until).then(entries => {
+      if (!cancelled) setPassedEntries(entries);
+    });
+    return () => { cancelled = true; };
+  }, [refreshKey, filters.from, filters.to]);
+
+  const inRange = useMemo(
+    () => filterRecords(scoped, { ...EMPTY_FILTERS, dateRanges: { createdAt: { from: filters.from || undefined, to: filters.to || undefined } } }, hookData),
+    [scoped, hookData, filters.from, filters.to]
+  );
+
+  const funnel = useMemo(() => stageFunnel(inRange), [inRange]);
+  const aging = useMemo(() => agingByStage(inRange, stageEntryTimes), [inRange, stageEntryTimes]);
+  const throughput = useMemo(() => {
+    const { from, to } = throughputRange(filters);
+    return weeklyCounts(passedEntries ? passedEntryTimes(scoped, passedEntries, stageEntryTimes) : [], from, to);
+  }, [scoped, passedEntries, stageEntryTimes, filters.from, filters.to]);
+  const byEngineer = useMemo(() => openWorkload(inRange, 'planningEngineer'), [inRange]);
+  const byZone = useMemo(() => openWorkload(inRange, 'zone'), [inRange]);
+  const coverage = useMemo(() => paymentCoverageByMonth(inRange, hookData), [inRange, hookData]);
+
+  const filtered = filters.governorate || filters.jobType || filters.from || filters.to;
+
+  return (
+    <div className="space-y-8 animate-fade-in-up font-normal">
+      <div className="flex flex-col lg:flex-row justify-between lg:items-end gap-6">
+        <div>
+          <h2 className="text-2xl font-normal text-slate-900 dark:text-white tracking-tight uppercase">Analytics</h2>
+          <p className="text-[10px] text-slate-400 uppercase tracking-widest mt-1">{loading ? 'Loading…' : loadFailed ? 'Could not load the records' : `${inRange.length} of ${scoped.length} record(s)`}</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <FilterSelect label="Governorate" value={filters.governorate} options={options.governorate} onChange={governorate => setFilters({ ...filters, governorate })} />
+          <FilterSelect label="Job Type" value={filters.jobType} options={options.jobType} onChange={jobType => setFilters({ ...filters, jobType })} />
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] text-slate-400 uppercase tracking-widest">From</span>
+            <input type="date" value={filters.from} onChange={e => setFilters({ ...filters, from: e.target.value })} className="px-3 py-1.5 bg-white dark:bg-black border border-slate-200 dark:border-white/10 rounded-lg text-xs outline-none focus:ring-1 focus:ring-indigo-500" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] text-slate-400 uppercase tracking-widest">To</span>
+            <input type="date" value={filters.to} onChange={e => setFilters({ ...filters, to: e.target.value })} className="px-3 py-1.5 bg-white dark:bg-black border border-slate-200 dark:border-white/10 rounded-lg text-xs outline-none focus:ring-1 focus:ring-indigo-500" />
+          </label>
+          {filtered && (
+            <button onClick={() => setFilters(NO_FILTERS)} className="pb-2 text-[10px] text-rose-500 uppercase tracking-widest hover:underline">Clear</button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <ChartCard title="Stage Funnel" icon={Icons.Filter} detail="Reached vs. current">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={funnel} layout="vertical" margin={{ left: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+              <XAxis type="number" allowDecimals={false} {...AXIS_PROPS} />
+              <YAxis type="category" dataKey="stage" width={80} {...AXIS_PROPS} />
+              <Tooltip {...TOOLTIP_PROPS} />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              <Bar dataKey="reached" name="Reached" fill="#c7d2fe" radius={[0, 6, 6, 0]} />
+              <Bar dataKey="count" name="In stage" fill="#6366f1" radius={[0, 6, 6, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard title="Aging by Stage" icon={Icons.Clock} detail="Days in current stage">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={aging}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="stage" {...AXIS_PROPS} />
+              <YAxis allowDecimals={false} {...AXIS_PROPS} />
+              <Tooltip {...TOOLTIP_PROPS} />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              {AGING_BUCKETS.map((bucket, i) => (
+                <Bar key={bucket.label} dataKey={bucket.label} stackId="age" fill={AGING_COLORS[i]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard title="Weekly Throughput" icon={Icons.Check} detail={passedEntries ? 'Records entering Passed' : 'Could not load status history'} className="xl:col-span-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={throughput}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="week" {...AXIS_PROPS} />
+              <YAxis allowDecimals={false} {...AXIS_PROPS} />
+              <Tooltip {...TOOLTIP_PROPS} labelFormatter={week => `Week of ${week}`} />
+              <Bar dataKey="count" name="Passed" fill="#10b981" radius={[6, 6, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard title="Workload by Engineer" icon={Icons.User} detail="Open records">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={byEngineer} layout="vertical" margin={{ left: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+              <XAxis type="number" allowDecimals={false} {...AXIS_PROPS} />
+              <YAxis type="category" dataKey="name" width={110} {...AXIS_PROPS} />
+              <Tooltip {...TOOLTIP_PROPS} />
+              <Bar dataKey="count" name="Open" fill="#6366f1" radius={[0, 6, 6, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard title="Workload by Zone" icon={Icons.Dashboard} detail="Open records">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={byZone} layout="vertical" margin={{ left: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+              <XAxis type="number" allowDecimals={false} {...AXIS_PROPS} />
+              <YAxis type="category" dataKey="name" width={80} {...AXIS_PROPS} />
+              <Tooltip {...TOOLTIP_PROPS} />
+              <Bar dataKey="count" name="Open" fill="#f59e0b" radius={[0, 6, 6, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+
+        <ChartCard title="Infra Payment Coverage" icon={Icons.CreditCard} detail="By month created" className="xl:col-span-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={coverage}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="month" {...AXIS_PROPS} />
+              <YAxis domain={[0, 100]} unit="%" {...AXIS_PROPS} />
+              <Tooltip {...TOOLTIP_PROPS} formatter={(value: number) => `${value}%`} />
+              <Legend wrapperStyle={{ fontSize: 10 }} />
+              <Line type="monotone" dataKey="infraPct" name="Has infra record" stroke="#6366f1" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="paidPct" name="Infra paid" stroke="#10b981" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { AuthState } from '../types';
+import { getCurrentUser, onAuthUserChange, signIn, signOut } from '../services/authService';
+import { setHistoryActor } from '../services/historyService';
+import { clearOfflineSession } from '../services/storageService';
+
+interface AuthContextValue extends AuthState {
+  loading: boolean;
+  signIn: (email: string, password: string) => Promise<string | null>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [auth, setAuth] = useState<AuthState>({ isAuthenticated: false, user: null });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getCurrentUser().then(user => {
+      setAuth({ isAuthenticated: !!user, user });
+      setLoading(false);
+    });
+    return onAuthUserChange(user => setAuth({ isAuthenticated: !!user, user }));
+  }, []);
+
+  useEffect(() => {
+    setHistoryActor(auth.user?.username || 'system');
+  }, [auth.user]);
+
+  const value: AuthContextValue = {
+    ...auth,
+    loading,
+    signIn: async (email, password) => {
+      const result = await signIn(email, password);
+      if (result.user) setAuth({ isAuthenticated: true, user: result.user });
+      return result.error;
+    },
+    signOut: async () => {
+      await signOut();
+      await clearOfflineSession();
+      setAuth({ isAuthenticated: false, user: null });
+    }
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth must be used inside an AuthProvider");
+  return ctx;
+};
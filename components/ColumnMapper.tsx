@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { ImportProfile, FieldMapping } from '../types';
+import { PROJECT_FIELD_CANDIDATES, INFRA_FIELD_CANDIDATES, scoreImportProfile } from '../services/importService';
+
+const REQUIRED_PROJECT_FIELDS = ['status', 'referenceNumber'];
+const REQUIRED_INFRA_FIELDS = ['plotNumber'];
+
+const MappingSection: React.FC<{
+  title: string,
+  color: string,
+  fields: string[],
+  required: string[],
+  headers: string[],
+  mapping: FieldMapping,
+  onChange: (mapping: FieldMapping) => void
+}> = ({ title, color, fields, required, headers, mapping, onChange }) => (
+  <div>
+    <p className={`text-[10px] uppercase tracking-widest mb-3 ${color}`}>{title} • {Object.keys(mapping).length} mapped</p>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+      {fields.map(field => {
+        const isRequired = required.includes(field);
+        return (
+          <div key={field} className="flex items-center gap-3">
+            <label className={`w-44 shrink-0 text-xs truncate ${isRequired && !mapping[field] ? 'text-rose-500' : 'text-slate-500 dark:text-slate-400'}`}>
+              {field}{isRequired && ' *'}
+            </label>
+            <select
+              value={mapping[field] || ''}
+              onChange={e => {
+                const next = { ...mapping };
+                if (e.target.value) next[field] = e.target.value;
+                else delete next[field];
+                onChange(next);
+              }}
+              className="flex-1 min-w-0 px-3 py-1.5 bg-slate-50 dark:bg-black border border-slate-200 dark:border-white/10 rounded-lg text-xs outline-none focus:ring-1 focus:ring-indigo-500 appearance-none"
+            >
+              <option value="">— not mapped —</option>
+              {headers.map(h => <option key={h} value={h}>{h}</option>)}
+            </select>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+/**
+ * Interactive mapping of workbook headers onto RecordItem / InfraReferenceItem fields.
+ * Starts from `initial` (a saved profile or a guess) and lets the user switch to any saved profile.
+ */
+export const ColumnMapper: React.FC<{
+  headers: string[],
+  initial: ImportProfile,
+  profiles: ImportProfile[],
+  onConfirm: (profile: ImportProfile, save: boolean) => void,
+  onCancel: () => void
+}> = ({ headers, initial, profiles, onConfirm, onCancel }) => {
+  const [draft, setDraft] = useState<ImportProfile>(initial);
+  const [saveProfile, setSaveProfile] = useState(!initial.id);
+
+  const missingRequired = [
+    ...REQUIRED_PROJECT_FIELDS.filter(f => !draft.projectMapping[f]),
+    ...REQUIRED_INFRA_FIELDS.filter(f => !draft.infraMapping[f])
+  ];
+
+  return (
+    <div className="text-left animate-fade-in">
+      <div className="text-center mb-8">
+        <h3 className="text-xl font-normal mb-1 text-slate-900 dark:text-white uppercase tracking-tight">Map Columns</h3>
+        <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest">{headers.length} headers found • Saved profiles are shared with the team</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+        <div className="space-y-1">
+          <label className="text-[10px] text-slate-400 uppercase tracking-widest ml-1">Profile Name</label>
+          <input
+            value={draft.name}
+            onChange={e => setDraft({ ...draft, name: e.target.value })}
+            className="w-full px-4 py-2.5 bg-slate-50 dark:bg-black border border-slate-200 dark:border-white/10 rounded-xl text-sm outline-none focus:ring-1 focus:ring-indigo-500"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[10px] text-slate-400 uppercase tracking-widest ml-1">Start From Saved Profile</label>
+          <select
+            value={draft.id || ''}
+            onChange={e => {
+              const chosen = profiles.find(p => p.id === e.target.value);
+              setDraft(chosen ? { ...chosen } : initial);
+              setSaveProfile(!chosen);
+            }}
+            className="w-full px-4 py-2.5 bg-slate-50 dark:bg-black border border-slate-200 dark:border-white/10 rounded-xl text-sm outline-none focus:ring-1 focus:ring-indigo-500 appearance-none"
+          >
+            <option value="">{initial.id ? initial.name : 'Detected from headers'}</option>
+            {profiles.filter(p => p.id !== initial.id).map(p => (
+              <option key={p.id} value={p.id}>{p.name} ({Math.round(scoreImportProfile(headers, p) * 100)}% match)</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-8 max-h-[45vh] overflow-y-auto custom-scrollbar pr-2">
+        <MappingSection
+          title="Project Fields"
+          color="text-indigo-500"
+          fields={Object.keys(PROJECT_FIELD_CANDIDATES)}
+          required={REQUIRED_PROJECT_FIELDS}
+          headers={headers}
+          mapping={draft.projectMapping}
+          onChange={projectMapping => setDraft({ ...draft, projectMapping })}
+        />
+        <MappingSection
+          title="Infra Fields"
+          color="text-emerald-500"
+          fields={Object.keys(INFRA_FIELD_CANDIDATES)}
+          required={REQUIRED_INFRA_FIELDS}
+          headers={headers}
+          mapping={draft.infraMapping}
+          onChange={infraMapping => setDraft({ ...draft, infraMapping })}
+        />
+      </div>
+
+      {missingRequired.length > 0 && (
+        <div className="mt-6 p-4 bg-amber-500/10 border border-amber-500/20 rounded-xl flex items-center gap-3 text-amber-600 dark:text-amber-400 text-xs">
+          <Icons.Alert className="w-4 h-4 shrink-0" />
+          <span>Unmapped key fields: {missingRequired.join(', ')}. Rows may not be detected.</span>
+        </div>
+      )}
+
+      <label className="mt-6 flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+        <input type="checkbox" checked={saveProfile} onChange={e => setSaveProfile(e.target.checked)} className="accent-indigo-600" />
+        {draft.id ? 'Save changes to this profile' : 'Save as a new team profile'}
+      </label>
+
+      <div className="mt-8 flex gap-3">
+        <button
+          onClick={() => onConfirm(draft, saveProfile)}
+          disabled={!draft.name.trim()}
+          className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Apply Mapping
+        </button>
+        <button onClick={onCancel} className="px-6 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-normal uppercase text-[11px] tracking-widest">Cancel</button>
+      </div>
+    </div>
+  );
+};
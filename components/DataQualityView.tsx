@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Icons } from './Icons';
+import { RecordItem, InfraReferenceItem } from '../types';
+import { RecordColumn } from '../services/recordSchema';
+import { columnLabel } from '../services/exportService';
+import { queryAllRecords, getAllInfraReferences } from '../services/storageService';
+import { getStageEntryTimes } from '../services/historyService';
+import { EMPTY_FILTERS } from '../services/recordFilters';
+import {
+  DATA_QUALITY_CHECKS, DEFAULT_DATA_QUALITY_CHECKS, DataQualityCheckId, DataQualityFix, DataQualityIssue, scanDataQuality
+} from '../services/dataQuality';
+
+// Issues listed per check before "Show all"; a messy import can produce thousands.
+const MAX_SHOWN = 50;
+
+const formatDate = (value?: string) => value ? value.split('T')[0] : '-';
+
+const IssueRows: React.FC<{ issue: DataQualityIssue, onOpenRecord: (record: RecordItem) => void }> = ({ issue, onOpenRecord }) => {
+  const removed = new Set(issue.fix ? [...issue.fix.recordDeletes, ...issue.fix.infraDeletes].map(r => r.id) : []);
+  const rowClass = (id: string) => `text-[11px] ${removed.has(id) ? 'text-slate-400 line-through' : 'text-slate-600 dark:text-slate-300'}`;
+
+  return (
+    <table className="w-full text-left whitespace-nowrap mt-3">
+      <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+        {issue.records.map(record => (
+          <tr key={record.id} className={rowClass(record.id)}>
+            <td className="py-1.5 pr-4 text-indigo-500">Project</td>
+            <td className="py-1.5 pr-4 font-mono">
+              <button onClick={() => onOpenRecord(record)} className="hover:text-indigo-500 transition-colors">{record.referenceNumber || '-'}</button>
+            </td>
+            <td className="py-1.5 pr-4 truncate max-w-[16rem]">{record.label}</td>
+            <td className="py-1.5 pr-4 font-mono">{record.plotNumber || '-'}</td>
+            <td className="py-1.5 pr-4">{record.status}</td>
+            <td className="py-1.5 pr-4 text-slate-400">{formatDate(record.createdAt)}</td>
+          </tr>
+        ))}
+        {issue.infra.map((row: InfraReferenceItem) => (
+          <tr key={row.id} className={rowClass(row.id)}>
+            <td className="py-1.5 pr-4 text-emerald-500">Infra</td>
+            <td className="py-1.5 pr-4 font-mono">{row.applicationNumber || '-'}</td>
+            <td className="py-1.5 pr-4 truncate max-w-[16rem]">{row.ownerNameEn || row.ownerNameAr || '-'}</td>
+            <td className="py-1.5 pr-4 font-mono">{row.plotNumber || '-'}</td>
+            <td className="py-1.5 pr-4">{[row.initialPaymentDate, row.secondPayment, row.thirdPayment].map(p => p ?? '∅').join(' / ')}</td>
+            <td className="py-1.5 pr-4 text-slate-400">{formatDate(row.createdAt)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+type ScanData = { records: RecordItem[], infra: InfraReferenceItem[], stageEntryTimes: Record<string, string> };
+
+/**
+ * Runs the data quality checks over every record and infra row and lists what they find.
+ * Fixes are handed to `onApply`, which confirms, writes and reloads. Both tables are read page by
+ * page on open, on Rescan and when `refreshKey` changes after a reload, not on every realtime change.
+ */
+export const DataQualityView: React.FC<{
+  refreshKey: number,
+  canFix: boolean,
+  onApply: (fixes: DataQualityFix[]) => void,
+  onOpenRecord: (record: RecordItem) => void
+}> = ({ refreshKey, canFix, onApply, onOpenRecord }) => {
+  const [data, setData] = useState<ScanData | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [checks, setChecks] = useState<DataQualityCheckId[]>(DEFAULT_DATA_QUALITY_CHECKS);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expanded, setExpanded] = useState<Set<DataQualityCheckId>>(new Set());
+
+  const load = () => {
+    let cancelled = false;
+    setData(null);
+    setLoadFailed(false);
+    (async () => {
+      const [page, infra] = await Promise.all([queryAllRecords(EMPTY_FILTERS, null), getAllInfraReferences()]);
+      const stageEntryTimes = page && await getStageEntryTimes(page.records.map(r => r.id));
+      if (cancelled) return;
+      setData(page && infra && stageEntryTimes ? { records: page.records, infra, stageEntryTimes } : null);
+      setLoadFailed(!page || !infra || !stageEntryTimes);
+    })();
+    return () => { cancelled = true; };
+  };
+
+  useEffect(load, [refreshKey]);
+
+  const issues = useMemo(
+    () => data ? scanDataQuality(data.records, data.infra, checks, data.stageEntryTimes) : [],
+    [data, checks]
+  );
+
+  // Drop selections whose issue went away with the last scan.
+  useEffect(() => {
+    const keys = new Set(issues.map(i => i.key));
+    setSelected(prev => new Set([...prev].filter(key => keys.has(key))));
+  }, [issues]);
+
+  const fixable = issues.filter(i => i.fix);
+  const selectedFixes = fixable.filter(i => selected.has(i.key)).map(i => i.fix!);
+
+  const toggleCheck = (id: DataQualityCheckId) =>
+    setChecks(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+
+  const toggleIssue = (key: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  const conflictLabel = (issue: DataQualityIssue, field: string) =>
+    issue.records.length > 0 ? columnLabel(field as RecordColumn) : field;
+
+  return (
+    <div className="space-y-8 animate-fade-in-up font-normal">
+      <div className="flex flex-wrap justify-between items-end gap-4">
+        <div>
+          <h2 className="text-2xl font-normal text-slate-900 dark:text-white tracking-tight uppercase">Data Quality</h2>
+          <p className="text-[10px] text-slate-400 uppercase tracking-widest mt-1">
+            {data ? `${issues.length} issue(s) across ${data.records.length} records and ${data.infra.length} infra rows` : loadFailed ? 'Scan failed' : 'Scanning…'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={load} disabled={!data && !loadFailed} className="px-4 py-2.5 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-[10px] uppercase tracking-widest text-slate-500 hover:text-indigo-500 transition-all disabled:opacity-50">Rescan</button>
+          {canFix && (
+            <>
+              <button
+                onClick={() => setSelected(selected.size === fixable.length ? new Set() : new Set(fixable.map(i => i.key)))}
+                disabled={fixable.length === 0}
+                className="px-4 py-2.5 text-[10px] uppercase tracking-widest text-indigo-500 hover:underline disabled:opacity-50"
+              >
+                {selected.size === fixable.length && fixable.length > 0 ? 'Select none' : `Select all fixable (${fixable.length})`}
+              </button>
+              <button
+                onClick={() => onApply(selectedFixes)}
+                disabled={selectedFixes.length === 0}
+                className="px-5 py-2.5 bg-indigo-600 text-white rounded-xl text-[10px] uppercase tracking-widest hover:bg-indigo-700 transition-all disabled:opacity-40"
+              >
+                Fix selected ({selectedFixes.length})
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {DATA_QUALITY_CHECKS.map(check => {
+          const on = checks.includes(check.id);
+          const count = issues.filter(i => i.check === check.id).length;
+          return (
+            <button
+              key={check.id}
+              onClick={() => toggleCheck(check.id)}
+              title={check.description}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl border text-xs transition-all ${
+                on
+                  ? 'bg-indigo-50 dark:bg-indigo-500/10 border-indigo-200 dark:border-indigo-500/30 text-indigo-700 dark:text-indigo-300'
+                  : 'bg-white dark:bg-white/5 border-slate-200 dark:border-white/10 text-slate-400'
+              }`}
+            >
+              <input type="checkbox" checked={on} readOnly className="accent-indigo-600 pointer-events-none" />
+              {check.label}
+              {on && data && <span className={`text-[10px] ${count > 0 ? 'text-amber-500' : 'text-emerald-500'}`}>{count}</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      {loadFailed ? (
+        <div className="p-16 text-center text-rose-500 bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-white/5">
+          Could not load the records and infra references, so nothing was checked. Rescan to try again.
+        </div>
+      ) : !data ? (
+        <div className="p-16 flex justify-center"><Icons.Spinner className="w-6 h-6 text-indigo-500 animate-spin" /></div>
+      ) : issues.length === 0 ? (
+        <div className="p-16 text-center text-slate-400 italic bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-white/5">
+          {checks.length === 0 ? 'No checks enabled.' : 'No issues found.'}
+        </div>
+      ) : DATA_QUALITY_CHECKS.filter(check => checks.includes(check.id)).map(check => {
+        const found = issues.filter(i => i.check === check.id);
+        if (found.length === 0) return null;
+        const shown = expanded.has(check.id) ? found : found.slice(0, MAX_SHOWN);
+        return (
+          <section key={check.id} className="bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-white/5 shadow-sm overflow-hidden">
+            <div className="p-6 border-b border-slate-100 dark:border-white/5">
+              <h3 className="text-sm text-slate-900 dark:text-white uppercase tracking-widest">{check.label} <span className="text-amber-500 ml-1">{found.length}</span></h3>
+              <p className="text-xs text-slate-400 mt-1">{check.description}</p>
+            </div>
+            <ul className="divide-y divide-slate-100 dark:divide-white/5">
+              {shown.map(issue => (
+                <li key={issue.key} className="px-6 py-4 flex gap-4">
+                  {canFix && (
+                    <input
+                      type="checkbox"
+                      disabled={!issue.fix}
+                      checked={selected.has(issue.key)}
+                      onChange={() => toggleIssue(issue.key)}
+                      className="mt-1 accent-indigo-600 disabled:opacity-30"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0 overflow-x-auto custom-scrollbar">
+                    <div className="flex flex-wrap items-center gap-3">
+                      <p className="text-sm text-slate-900 dark:text-white">{issue.summary}</p>
+                      {issue.fix ? (
+                        <span className="text-[10px] uppercase tracking-widest text-indigo-500">{issue.fix.label}</span>
+                      ) : (
+                        <span className="text-[10px] uppercase tracking-widest text-slate-400">Needs a manual edit</span>
+                      )}
+                    </div>
+                    {issue.fix && issue.fix.conflicts.length > 0 && (
+                      <p className="text-[11px] text-amber-600 dark:text-amber-400 mt-1">
+                        The kept row's value wins for: {issue.fix.conflicts.map(f => conflictLabel(issue, f)).join(', ')}
+                      </p>
+                    )}
+                    <IssueRows issue={issue} onOpenRecord={onOpenRecord} />
+                  </div>
+                  {canFix && issue.fix && (
+                    <button
+                      onClick={() => onApply([issue.fix!])}
+                      className="self-start px-3 py-1.5 bg-indigo-500/10 text-indigo-500 rounded-lg text-[10px] uppercase tracking-widest hover:bg-indigo-500/20 transition-all"
+                    >
+                      Fix
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {found.length > shown.length && (
+              <button
+                onClick={() => setExpanded(prev => new Set([...prev, check.id]))}
+                className="w-full py-3 text-[10px] uppercase tracking-widest text-indigo-500 hover:bg-indigo-500/5 border-t border-slate-100 dark:border-white/5"
+              >
+                Show all {found.length}
+              </button>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { RecordItem } from '../types';
+import { RecordColumn } from '../services/recordSchema';
+import { DEFAULT_EXPORT_COLUMNS, EXPORTABLE_COLUMNS, columnLabel, exportRecords, printRecordSummary } from '../services/exportService';
+
+type ExportChoice = 'xlsx' | 'csv' | 'pdf';
+
+const FORMAT_LABELS: Record<ExportChoice, string> = {
+  xlsx: 'Excel (.xlsx)',
+  csv: 'CSV',
+  pdf: 'Print / PDF'
+};
+
+/**
+ * Writes the dashboard's current selection out. Infra Hook status and application number are always appended.
+ */
+export const ExportDialog: React.FC<{
+  records: RecordItem[],
+  infraHookData: Record<string, { appNo: string, isPaid: boolean }>,
+  title: string,
+  initialColumns?: RecordColumn[],
+  onClose: () => void,
+  onError: (message: string) => void
+}> = ({ records, infraHookData, title, initialColumns, onClose, onError }) => {
+  const [format, setFormat] = useState<ExportChoice>('xlsx');
+  const [columns, setColumns] = useState<RecordColumn[]>(initialColumns?.length ? initialColumns : DEFAULT_EXPORT_COLUMNS);
+
+  // Keep the export in the order the columns are listed, not the order they were ticked.
+  const toggleColumn = (column: RecordColumn) => setColumns(columns.includes(column)
+    ? columns.filter(c => c !== column)
+    : EXPORTABLE_COLUMNS.filter(c => c === column || columns.includes(c)));
+
+  const handleExport = () => {
+    const stamp = new Date().toISOString().split('T')[0];
+    if (format === 'pdf') {
+      if (!printRecordSummary(records, columns, infraHookData, title, `${records.length} record(s)`)) {
+        onError("Allow pop-ups to print the summary");
+        return;
+      }
+    } else {
+      exportRecords(records, columns, infraHookData, format, `${title.replace(/[^\w-]+/g, '_')}_${stamp}`);
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60] flex items-center justify-center p-4 animate-fade-in font-normal">
+      <div className="bg-white dark:bg-slate-900 rounded-[2rem] p-8 max-w-3xl w-full shadow-2xl animate-scale-in border border-white/5 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-xl font-normal text-slate-900 dark:text-white uppercase tracking-tight">Export Records</h3>
+            <p className="text-[10px] text-slate-400 uppercase tracking-widest mt-1">{title} • {records.length} record(s)</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 transition-colors"><Icons.Close className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex gap-1 mb-6 p-1 bg-slate-100 dark:bg-black rounded-xl">
+          {(Object.keys(FORMAT_LABELS) as ExportChoice[]).map(f => (
+            <button key={f} onClick={() => setFormat(f)} className={`flex-1 py-2 rounded-lg font-normal text-[10px] uppercase tracking-widest transition-all ${format === f ? 'bg-white dark:bg-slate-800 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{FORMAT_LABELS[f]}</button>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center mb-3">
+          <p className="text-[10px] text-slate-400 uppercase tracking-widest">Columns • {columns.length} selected</p>
+          <div className="flex gap-3 text-[10px] uppercase tracking-widest">
+            <button onClick={() => setColumns(EXPORTABLE_COLUMNS)} className="text-indigo-500 hover:underline">All</button>
+            <button onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)} className="text-slate-400 hover:underline">Default</button>
+            <button onClick={() => setColumns([])} className="text-slate-400 hover:underline">None</button>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 overflow-y-auto custom-scrollbar pr-2 mb-6">
+          {EXPORTABLE_COLUMNS.map(column => (
+            <label key={column} className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={columns.includes(column)} onChange={() => toggleColumn(column)} className="accent-indigo-600" />
+              <span className="truncate">{columnLabel(column)}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={handleExport}
+            disabled={columns.length === 0 || records.length === 0}
+            className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {format === 'pdf' ? 'Open Printable Summary' : `Download ${format.toUpperCase()}`}
+          </button>
+          <button onClick={onClose} className="px-6 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-normal uppercase text-[11px] tracking-widest">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { FacetKey, DateFacetKey, GridViewFilters, FacetCount } from '../types';
+import { FACET_KEYS, FACET_LABELS, DATE_FACET_KEYS, DATE_FACET_LABELS, activeFilterCount } from '../services/recordFilters';
+
+const COLLAPSED_VALUE_COUNT = 6;
+
+const FacetSection: React.FC<{
+  facet: FacetKey,
+  values: FacetCount[],
+  selected: string[],
+  onChange: (selected: string[]) => void
+}> = ({ facet, values, selected, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const shown = expanded ? values : values.slice(0, COLLAPSED_VALUE_COUNT);
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-[10px] text-slate-400 uppercase tracking-widest">{FACET_LABELS[facet]}</p>
+        {selected.length > 0 && (
+          <button onClick={() => onChange([])} className="text-[10px] text-indigo-500 uppercase tracking-widest hover:underline">Clear</button>
+        )}
+      </div>
+      {values.length === 0 ? (
+        <p className="text-xs text-slate-300 dark:text-slate-600 italic">No values</p>
+      ) : (
+        <div className="space-y-1">
+          {shown.map(({ value, count }) => (
+            <label key={value} className={`flex items-center gap-2 text-xs cursor-pointer ${count === 0 && !selected.includes(value) ? 'opacity-40' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selected.includes(value)}
+                onChange={() => onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value])}
+                className="accent-indigo-600"
+              />
+              <span className="flex-1 truncate text-slate-600 dark:text-slate-300">{value}</span>
+              <span className="text-[10px] text-slate-400">{count}</span>
+            </label>
+          ))}
+          {values.length > COLLAPSED_VALUE_COUNT && (
+            <button onClick={() => setExpanded(!expanded)} className="text-[10px] text-indigo-500 uppercase tracking-widest hover:underline">
+              {expanded ? 'Show less' : `Show all ${values.length}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Facet and date-range filters for the dashboard. Counts come from getFacetCounts, so each
+ * number is what the grid would show if that value were ticked.
+ */
+export const FilterPanel: React.FC<{
+  filters: GridViewFilters,
+  counts: Record<FacetKey, FacetCount[]>,
+  onChange: (filters: GridViewFilters) => void
+}> = ({ filters, counts, onChange }) => {
+  const setFacet = (facet: FacetKey, selected: string[]) =>
+    onChange({ ...filters, facets: { ...filters.facets, [facet]: selected } });
+  const setRange = (field: DateFacetKey, bound: 'from' | 'to', value: string) =>
+    onChange({ ...filters, dateRanges: { ...filters.dateRanges, [field]: { ...filters.dateRanges?.[field], [bound]: value || undefined } } });
+
+  return (
+    <div className="p-8 border-b border-slate-100 dark:border-white/5 bg-slate-50/50 dark:bg-white/[0.02] animate-fade-in">
+      <div className="flex justify-between items-center mb-6">
+        <p className="text-[10px] text-slate-400 uppercase tracking-widest">{activeFilterCount(filters)} filter(s) active</p>
+        <button
+          onClick={() => onChange({ ...filters, facets: {}, dateRanges: {} })}
+          className="text-[10px] text-rose-500 uppercase tracking-widest hover:underline"
+        >
+          Clear All
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-x-8 gap-y-6 mb-8">
+        {FACET_KEYS.map(facet => (
+          <FacetSection
+            key={facet}
+            facet={facet}
+            values={counts[facet] || []}
+            selected={filters.facets?.[facet] || []}
+            onChange={selected => setFacet(facet, selected)}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {DATE_FACET_KEYS.map(field => (
+          <div key={field}>
+            <p className="text-[10px] text-slate-400 uppercase tracking-widest mb-2 flex items-center gap-1.5">
+              <Icons.Clock className="w-3 h-3" /> {DATE_FACET_LABELS[field]}
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={filters.dateRanges?.[field]?.from || ''}
+                onChange={e => setRange(field, 'from', e.target.value)}
+                className="flex-1 min-w-0 px-3 py-1.5 bg-white dark:bg-black border border-slate-200 dark:border-white/10 rounded-lg text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+              />
+              <span className="text-slate-400 text-xs">–</span>
+              <input
+                type="date"
+                value={filters.dateRanges?.[field]?.to || ''}
+                onChange={e => setRange(field, 'to', e.target.value)}
+                className="flex-1 min-w-0 px-3 py-1.5 bg-white dark:bg-black border border-slate-200 dark:border-white/10 rounded-lg text-xs outline-none focus:ring-1 focus:ring-indigo-500"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
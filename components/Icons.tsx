@@ -26,7 +26,17 @@ import {
   Calculator,
   CreditCard,
   MessageSquare,
-  Send
+  Send,
+  History,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Columns,
+  ChevronUp,
+  ChevronDown,
+  BarChart3,
+  FileText,
+  ShieldCheck
 } from 'lucide-react';
 
 export const Icons = {
@@ -57,5 +67,15 @@ export const Icons = {
   Calculator: Calculator,
   CreditCard: CreditCard,
   ChatBubble: MessageSquare,
-  Send: Send
+  Send: Send,
+  History: History,
+  SortAsc: ArrowUp,
+  SortDesc: ArrowDown,
+  Sortable: ArrowUpDown,
+  Columns: Columns,
+  Up: ChevronUp,
+  Down: ChevronDown,
+  Analytics: BarChart3,
+  Report: FileText,
+  Quality: ShieldCheck
 };
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { Icons } from './Icons';
+import { RecordItem, ImportBatch, ImportBatchItem, ImportBatchStatus } from '../types';
+import { getImportBatches, getImportBatchItems } from '../services/importBatchService';
+import { getRecordsById } from '../services/storageService';
+
+const STATUS_STYLES: Record<ImportBatchStatus, string> = {
+  running: 'bg-indigo-500/10 border-indigo-500/20 text-indigo-500',
+  completed: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-600 dark:text-emerald-400',
+  failed: 'bg-rose-500/10 border-rose-500/20 text-rose-500',
+  rolled_back: 'bg-slate-500/10 border-slate-500/20 text-slate-400'
+};
+
+const failedRowsOf = (batch: ImportBatch) => batch.status === 'failed' ? batch.totalRows - batch.appliedRows : 0;
+
+const itemKey = (item: ImportBatchItem) => item.targetTable === 'records'
+  ? item.payload.referenceNumber || item.targetId?.split('-')[0] || '-'
+  : [item.payload.plotNumber, item.payload.applicationNumber].filter(Boolean).join(' / ') || item.targetId?.split('-')[0] || '-';
+
+const BatchItems: React.FC<{
+  batch: ImportBatch,
+  refreshKey: number,
+  onOpenRecord: (record: RecordItem) => void
+}> = ({ batch, refreshKey, onOpenRecord }) => {
+  const [items, setItems] = useState<ImportBatchItem[] | null>(null);
+  // The records the batch wrote, as stored now; null while loading or when they could not be read.
+  const [byId, setById] = useState<Map<string, RecordItem> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setItems(null);
+    setById(null);
+    (async () => {
+      const loaded = (await getImportBatchItems(batch.id)) || [];
+      const recordIds = loaded.flatMap(item => item.targetTable === 'records' && item.targetId ? [item.targetId] : []);
+      const records = await getRecordsById(recordIds);
+      if (cancelled) return;
+      setItems(loaded);
+      setById(records && new Map(records.map(r => [r.id, r])));
+    })();
+    return () => { cancelled = true; };
+  }, [batch.id, batch.status, refreshKey]);
+
+  if (!items) {
+    return <div className="p-10 flex justify-center"><Icons.Spinner className="w-5 h-5 text-indigo-500 animate-spin" /></div>;
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-[60vh] custom-scrollbar">
+      <table className="w-full text-left text-xs whitespace-nowrap">
+        <thead className="bg-slate-50 dark:bg-white/5 sticky top-0">
+          <tr>
+            {["Row", "Table", "Action", "Key", "Now", "Fields", "State"].map(h => (
+              <th key={h} className="px-4 py-3 font-normal text-slate-400 uppercase text-[10px] tracking-widest">{h}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+          {items.length === 0 ? (
+            <tr><td colSpan={7} className="p-10 text-center text-slate-400 italic">No rows recorded for this batch.</td></tr>
+          ) : items.map(item => {
+            const record = item.targetTable === 'records' && item.targetId ? byId?.get(item.targetId) : undefined;
+            return (
+              <tr key={item.id} className={item.status === 'applied' ? '' : 'opacity-50'}>
+                <td className="px-4 py-3 align-top font-mono text-slate-400">{item.sourceSheet && <span className="text-slate-300 dark:text-slate-600">{item.sourceSheet}!</span>}{item.sourceRow}</td>
+                <td className={`px-4 py-3 align-top ${item.targetTable === 'records' ? 'text-indigo-500' : 'text-emerald-500'}`}>{item.targetTable === 'records' ? 'Project' : 'Infra'}</td>
+                <td className="px-4 py-3 align-top uppercase text-[10px] tracking-widest text-slate-500">{item.action}</td>
+                <td className="px-4 py-3 align-top font-mono text-slate-500">{itemKey(item)}</td>
+                <td className="px-4 py-3 align-top">
+                  {record ? (
+                    <button onClick={() => onOpenRecord(record)} className="text-left hover:text-indigo-500 transition-colors">
+                      <span className="text-slate-900 dark:text-white">{record.label}</span>
+                      <span className="ml-2 text-indigo-500">{record.status}</span>
+                    </button>
+                  ) : byId && item.targetTable === 'records' && item.status === 'applied' ? (
+                    <span className="text-slate-400 italic">Deleted</span>
+                  ) : <span className="text-slate-300 dark:text-slate-600">—</span>}
+                </td>
+                <td className="px-4 py-3 align-top text-slate-500 whitespace-normal min-w-[14rem]">
+                  {item.action === 'create'
+                    ? <span className="italic text-slate-400">{Object.keys(item.payload).length} fields</span>
+                    : Object.keys(item.payload).map(field => (
+                        <div key={field} className="text-[11px]">
+                          <span className="text-indigo-500">{field}</span>: <span className="text-rose-400 line-through">{String(item.previous?.[field] ?? '∅')}</span> → <span className="text-emerald-600 dark:text-emerald-400">{String(item.payload[field] ?? '∅')}</span>
+                        </div>
+                      ))}
+                </td>
+                <td className="px-4 py-3 align-top text-[10px] uppercase tracking-widest text-slate-400">{item.status.replace('_', ' ')}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+/**
+ * Every Excel sync with who ran it, what it wrote and what it left out.
+ * Reloads whenever `refreshKey` changes, i.e. after a sync or rollback.
+ */
+export const ImportHistoryView: React.FC<{
+  refreshKey: number,
+  canRollback: boolean,
+  onRollback: (batch: ImportBatch) => void,
+  onOpenRecord: (record: RecordItem) => void
+}> = ({ refreshKey, canRollback, onRollback, onOpenRecord }) => {
+  const [batches, setBatches] = useState<ImportBatch[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getImportBatches().then(setBatches);
+  }, [refreshKey]);
+
+  const selected = batches?.find(b => b.id === selectedId) || null;
+
+  return (
+    <div className="space-y-8 animate-fade-in-up font-normal">
+      <div>
+        <h2 className="text-2xl font-normal text-slate-900 dark:text-white tracking-tight uppercase">Import History</h2>
+        <p className="text-[10px] text-slate-400 uppercase tracking-widest mt-1">{batches ? `${batches.length} sync(s) recorded` : 'Loading…'}</p>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-white/5 shadow-sm overflow-hidden">
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-left text-xs whitespace-nowrap">
+            <thead className="bg-slate-50 dark:bg-white/5">
+              <tr>
+                {["File", "When", "By", "Sheets", "Created", "Updated", "Skipped", "Invalid", "Failed", "Stages", "Status", ""].map(h => (
+                  <th key={h} className="px-5 py-4 font-normal text-slate-400 uppercase text-[10px] tracking-widest">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+              {!batches ? (
+                <tr><td colSpan={12} className="p-10 text-center"><Icons.Spinner className="w-5 h-5 text-indigo-500 animate-spin inline" /></td></tr>
+              ) : batches.length === 0 ? (
+                <tr><td colSpan={12} className="p-10 text-center text-slate-400 italic">No imports yet.</td></tr>
+              ) : batches.map(batch => (
+                <tr
+                  key={batch.id}
+                  onClick={() => setSelectedId(batch.id === selectedId ? null : batch.id)}
+                  className={`cursor-pointer transition-colors ${batch.id === selectedId ? 'bg-indigo-500/5' : 'hover:bg-slate-50 dark:hover:bg-white/[0.02]'}`}
+                >
+                  <td className="px-5 py-4 text-slate-900 dark:text-white">
+                    {batch.fileName}
+                    {batch.profileName && <p className="text-[10px] text-slate-400">{batch.profileName}</p>}
+                  </td>
+                  <td className="px-5 py-4 text-slate-500">{new Date(batch.createdAt).toLocaleString()}</td>
+                  <td className="px-5 py-4 text-slate-500">{batch.createdBy || '-'}</td>
+                  <td className="px-5 py-4 text-slate-500">{(batch.sheetNames || []).join(', ') || '-'}</td>
+                  <td className="px-5 py-4">{batch.projectsCreated + batch.infraCreated}<span className="text-[10px] text-slate-400 ml-1">({batch.projectsCreated}P / {batch.infraCreated}I)</span></td>
+                  <td className="px-5 py-4">{batch.projectsUpdated + batch.infraUpdated}<span className="text-[10px] text-slate-400 ml-1">({batch.projectsUpdated}P / {batch.infraUpdated}I)</span></td>
+                  <td className="px-5 py-4 text-slate-400">{batch.skippedRows}</td>
+                  <td className={`px-5 py-4 ${batch.invalidRows > 0 ? 'text-amber-500' : 'text-slate-400'}`}>{batch.invalidRows}</td>
+                  <td className={`px-5 py-4 ${failedRowsOf(batch) > 0 ? 'text-rose-500' : 'text-slate-400'}`}>{failedRowsOf(batch)}</td>
+                  <td className="px-5 py-4 text-[10px] text-slate-500">
+                    {Object.entries(batch.statusBreakdown || {}).map(([status, count]) => `${status}: ${count}`).join(' • ') || '-'}
+                  </td>
+                  <td className="px-5 py-4">
+                    <span className={`px-2 py-0.5 rounded-lg border text-[10px] uppercase tracking-wide ${STATUS_STYLES[batch.status]}`}>{batch.status.replace('_', ' ')}</span>
+                  </td>
+                  <td className="px-5 py-4 text-right">
+                    {canRollback && batch.status !== 'rolled_back' && (
+                      <button
+                        onClick={e => { e.stopPropagation(); onRollback(batch); }}
+                        className="px-3 py-1.5 bg-rose-500/10 text-rose-500 rounded-lg text-[10px] uppercase tracking-widest hover:bg-rose-500/20 transition-all"
+                      >
+                        Roll Back
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-white/5 shadow-sm overflow-hidden animate-fade-in">
+          <div className="p-6 border-b border-slate-100 dark:border-white/5 flex justify-between items-center">
+            <div>
+              <h3 className="text-sm text-slate-900 dark:text-white uppercase tracking-widest">{selected.fileName}</h3>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest mt-1">
+                {selected.appliedRows} of {selected.totalRows} rows written
+                {selected.rolledBackAt && ` • rolled back by ${selected.rolledBackBy || 'unknown'} on ${new Date(selected.rolledBackAt).toLocaleString()}`}
+              </p>
+              {selected.errorMessage && <p className="text-xs text-rose-500 mt-2">{selected.errorMessage}</p>}
+            </div>
+            <button onClick={() => setSelectedId(null)} className="p-2 text-slate-400 hover:text-slate-600 transition-colors"><Icons.Close className="w-4 h-4" /></button>
+          </div>
+          <BatchItems batch={selected} refreshKey={refreshKey} onOpenRecord={onOpenRecord} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { Icons } from './Icons';
+import { RecordItem, InfraReferenceItem, StagedImportRow, ImportAction, RowValidity } from '../types';
+import { rowValidity } from '../services/importValidation';
+
+type PreviewKind = 'projects' | 'infra';
+
+const PAGE_SIZE = 25;
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-600 dark:text-emerald-400',
+  update: 'bg-amber-500/10 border-amber-500/20 text-amber-600 dark:text-amber-400',
+  unchanged: 'bg-slate-500/10 border-slate-500/20 text-slate-400'
+};
+
+const VALIDITY_STYLES: Record<RowValidity, string> = {
+  error: 'text-rose-500',
+  warning: 'text-amber-500',
+  ok: 'text-emerald-500'
+};
+
+const IssueList: React.FC<{ row: StagedImportRow<any> }> = ({ row }) => {
+  const validity = rowValidity(row);
+  if (validity === 'ok') return <Icons.Check className={`w-3.5 h-3.5 ${VALIDITY_STYLES.ok}`} />;
+  return (
+    <div className="space-y-0.5 whitespace-normal min-w-[12rem]">
+      {(row.issues || []).map((issue, i) => (
+        <div key={i} className={`text-[11px] ${issue.severity === 'error' ? VALIDITY_STYLES.error : VALIDITY_STYLES.warning}`}>{issue.message}</div>
+      ))}
+    </div>
+  );
+};
+
+const ChangeList: React.FC<{ row: StagedImportRow<any> }> = ({ row }) => {
+  if (row.action === 'create') return <span className="text-slate-400 italic">New row</span>;
+  if (row.changes.length === 0) return <span className="text-slate-300 dark:text-slate-600">—</span>;
+  return (
+    <div className="space-y-0.5">
+      {row.changes.map(c => (
+        <div key={c.field} className="text-[11px]">
+          <span className="text-indigo-500">{c.field}</span>: <span className="text-rose-400 line-through">{c.from || '∅'}</span> → <span className="text-emerald-600 dark:text-emerald-400">{c.to}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Paginated review grid over staged import rows with per-row include/exclude.
+ * Rows failing validation are shown with their reasons and cannot be ticked.
+ * Row indexes passed to the callbacks refer to the unfiltered staged arrays.
+ */
+export const ImportPreviewGrid: React.FC<{
+  projects: StagedImportRow<RecordItem>[],
+  infra: StagedImportRow<InfraReferenceItem>[],
+  onToggle: (kind: PreviewKind, index: number) => void,
+  onToggleAll: (kind: PreviewKind, indexes: number[], included: boolean) => void
+}> = ({ projects, infra, onToggle, onToggleAll }) => {
+  const [kind, setKind] = useState<PreviewKind>(projects.length > 0 || infra.length === 0 ? 'projects' : 'infra');
+  const [actionFilter, setActionFilter] = useState<ImportAction | 'all'>('all');
+  const [validityFilter, setValidityFilter] = useState<RowValidity | 'all'>('all');
+  const [page, setPage] = useState(0);
+
+  const rows: StagedImportRow<any>[] = kind === 'projects' ? projects : infra;
+  const visible = useMemo(() => rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => actionFilter === 'all' || row.action === actionFilter)
+    .filter(({ row }) => validityFilter === 'all' || rowValidity(row) === validityFilter), [rows, actionFilter, validityFilter]);
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = visible.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const selectable = pageRows.filter(({ row }) => row.action !== 'unchanged' && rowValidity(row) !== 'error');
+  const allPageSelected = selectable.length > 0 && selectable.every(({ row }) => row.included);
+
+  const headers = kind === 'projects'
+    ? ["Row", "Action", "Checks", "Reference", "Project", "Source Status", "Stage", "Plot", "Zone", "Changes"]
+    : ["Row", "Action", "Checks", "Plot", "Application", "Owner", "Payments", "Changes"];
+
+  return (
+    <div className="text-left">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div className="flex gap-1 p-1 bg-slate-100 dark:bg-black rounded-xl">
+          {([['projects', `Projects (${projects.length})`], ['infra', `Infra (${infra.length})`]] as [PreviewKind, string][]).map(([k, label]) => (
+            <button key={k} onClick={() => { setKind(k); setPage(0); }} className={`px-4 py-1.5 rounded-lg text-[10px] uppercase tracking-widest transition-all ${kind === k ? 'bg-white dark:bg-slate-800 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{label}</button>
+          ))}
+        </div>
+        <div className="flex gap-1 p-1 bg-slate-100 dark:bg-black rounded-xl">
+          {(['all', 'create', 'update', 'unchanged'] as (ImportAction | 'all')[]).map(a => (
+            <button key={a} onClick={() => { setActionFilter(a); setPage(0); }} className={`px-3 py-1.5 rounded-lg text-[10px] uppercase tracking-widest transition-all ${actionFilter === a ? 'bg-white dark:bg-slate-800 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{a}</button>
+          ))}
+        </div>
+        <div className="flex gap-1 p-1 bg-slate-100 dark:bg-black rounded-xl">
+          {(['all', 'error', 'warning', 'ok'] as (RowValidity | 'all')[]).map(v => (
+            <button key={v} onClick={() => { setValidityFilter(v); setPage(0); }} className={`px-3 py-1.5 rounded-lg text-[10px] uppercase tracking-widest transition-all ${validityFilter === v ? 'bg-white dark:bg-slate-800 text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{v}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-2xl border border-slate-100 dark:border-white/5 max-h-[45vh] custom-scrollbar">
+        <table className="w-full text-left text-xs whitespace-nowrap">
+          <thead className="bg-slate-50 dark:bg-white/5 sticky top-0">
+            <tr>
+              <th className="px-4 py-3">
+                <input
+                  type="checkbox"
+                  checked={allPageSelected}
+                  disabled={selectable.length === 0}
+                  onChange={() => onToggleAll(kind, selectable.map(({ index }) => index), !allPageSelected)}
+                  className="accent-indigo-600"
+                />
+              </th>
+              {headers.map(h => (
+                <th key={h} className="px-4 py-3 font-normal text-slate-400 uppercase text-[10px] tracking-widest">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+            {pageRows.length === 0 ? (
+              <tr><td colSpan={headers.length + 1} className="p-10 text-center text-slate-400 italic">No rows in this view.</td></tr>
+            ) : pageRows.map(({ row, index }) => (
+              <tr key={index} className={`${row.included ? '' : 'opacity-50'} ${rowValidity(row) === 'error' ? 'bg-rose-500/5' : ''}`}>
+                <td className="px-4 py-3 align-top">
+                  <input
+                    type="checkbox"
+                    checked={row.included}
+                    disabled={row.action === 'unchanged' || rowValidity(row) === 'error'}
+                    onChange={() => onToggle(kind, index)}
+                    className="accent-indigo-600"
+                  />
+                </td>
+                <td className="px-4 py-3 align-top font-mono text-slate-400">{row.sourceSheet && <span className="text-slate-300 dark:text-slate-600">{row.sourceSheet}!</span>}{row.sourceRow}</td>
+                <td className="px-4 py-3 align-top">
+                  <span className={`px-2 py-0.5 rounded-lg border text-[10px] uppercase tracking-wide ${ACTION_STYLES[row.action]}`}>{row.action}</span>
+                </td>
+                <td className="px-4 py-3 align-top"><IssueList row={row} /></td>
+                {kind === 'projects' ? (
+                  <>
+                    <td className="px-4 py-3 align-top font-mono text-slate-500">{row.data.referenceNumber || '-'}</td>
+                    <td className="px-4 py-3 align-top text-slate-900 dark:text-white">{row.data.label}</td>
+                    <td className="px-4 py-3 align-top text-slate-400">{row.sourceStatus || '-'}</td>
+                    <td className="px-4 py-3 align-top text-indigo-600 dark:text-indigo-400">{row.data.status}</td>
+                    <td className="px-4 py-3 align-top">{row.data.plotNumber || '-'}</td>
+                    <td className="px-4 py-3 align-top text-slate-500">{row.data.zone || '-'}</td>
+                  </>
+                ) : (
+                  <>
+                    <td className="px-4 py-3 align-top">{row.data.plotNumber}</td>
+                    <td className="px-4 py-3 align-top font-mono text-slate-500">{row.data.applicationNumber || '-'}</td>
+                    <td className="px-4 py-3 align-top text-slate-900 dark:text-white">{row.data.ownerNameEn || '-'}</td>
+                    <td className="px-4 py-3 align-top text-slate-500">
+                      {[row.data.initialPaymentDate, row.data.secondPayment, row.data.thirdPayment].map(v => v || '·').join(' / ')}
+                    </td>
+                  </>
+                )}
+                <td className="px-4 py-3 align-top"><ChangeList row={row} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center mt-3 text-[10px] text-slate-400 uppercase tracking-widest">
+        <span>{visible.length} rows • {rows.filter(r => r.included).length} selected</span>
+        <div className="flex items-center gap-2">
+          <button disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)} className="p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-white/5 disabled:opacity-30"><Icons.Left className="w-4 h-4" /></button>
+          <span>Page {currentPage + 1} / {pageCount}</span>
+          <button disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)} className="p-1.5 rounded-lg hover:bg-slate-100 dark:hover:bg-white/5 disabled:opacity-30"><Icons.Right className="w-4 h-4" /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
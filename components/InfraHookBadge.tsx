@@ -0,0 +1,30 @@
+import React from 'react';
+
+const normalizePlot = (s: any) => String(s || '').trim().toUpperCase();
+
+export const InfraHookBadge: React.FC<{ plot: string, hookData: Record<string, { appNo: string, isPaid: boolean }> }> = ({ plot, hookData }) => {
+  const normalized = normalizePlot(plot);
+  const data = hookData[normalized];
+
+  if (data && data.isPaid) {
+    return (
+      <div className="relative group cursor-help flex items-center">
+        <div className="absolute -inset-1 bg-emerald-500 rounded-lg blur opacity-10 group-hover:opacity-20 transition"></div>
+        <div className="relative flex flex-col items-start px-3 py-1.5 bg-emerald-500/10 border border-emerald-500/20 rounded-xl">
+           <div className="flex items-center gap-1.5">
+              <div className="w-1.5 h-1.5 rounded-full bg-emerald-500"></div>
+              <span className="text-emerald-600 dark:text-emerald-400 font-normal text-[10px] uppercase tracking-wide">YES</span>
+           </div>
+           <span className="text-[9px] font-normal text-slate-400 uppercase leading-none mt-0.5">{data.appNo}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1.5 px-3 py-1.5 bg-rose-50 dark:bg-rose-500/5 border border-rose-100 dark:border-rose-500/10 rounded-xl opacity-80">
+        <div className="w-1.5 h-1.5 rounded-full bg-rose-400"></div>
+        <span className="text-rose-500 font-normal text-[10px] uppercase tracking-wide">NO</span>
+    </div>
+  );
+};
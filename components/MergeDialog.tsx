@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { Icons } from './Icons';
+import { RecordItem } from '../types';
+import { RECORD_COLUMNS, RecordColumn } from '../services/recordSchema';
+import { columnLabel } from '../services/exportService';
+import { mergeRecordEdits, resolveMerge, MergeResolution } from '../services/recordMerge';
+
+const RESOLUTION_LABELS: Record<MergeResolution, string> = {
+  mine: 'Yours',
+  theirs: 'Theirs',
+  same: 'Same',
+  conflict: 'Conflict'
+};
+
+const formatValue = (field: RecordColumn, value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (RECORD_COLUMNS[field] === 'timestamp') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+  }
+  return String(value);
+};
+
+/**
+ * Shown when a save hits a record someone else changed after it was opened. Lists base, yours and
+ * theirs for every field either side touched; conflicting fields need a pick, the rest merge themselves.
+ */
+export const MergeDialog: React.FC<{
+  base: RecordItem,
+  mine: Partial<RecordItem>,
+  theirs: RecordItem | null,
+  onSave: (merged: Partial<RecordItem>) => void,
+  onClose: () => void
+}> = ({ base, mine, theirs, onSave, onClose }) => {
+  const fields = useMemo(() => theirs ? mergeRecordEdits(base, mine, theirs) : [], [base, mine, theirs]);
+  const [picks, setPicks] = useState<Partial<Record<RecordColumn, 'mine' | 'theirs'>>>(() =>
+    Object.fromEntries(fields.filter(f => f.resolution === 'conflict').map(f => [f.field, 'mine']))
+  );
+  const conflicts = fields.filter(f => f.resolution === 'conflict').length;
+
+  const cell = (field: RecordColumn, value: any, chosen: boolean) => (
+    <td className={`px-4 py-3 align-top max-w-[12rem] truncate ${chosen ? 'text-slate-900 dark:text-white' : 'text-slate-400 line-through decoration-slate-300 dark:decoration-slate-600'}`} title={formatValue(field, value)}>
+      {formatValue(field, value)}
+    </td>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-md z-[75] flex items-center justify-center p-4 animate-fade-in font-normal">
+      <div className="bg-white dark:bg-slate-900 rounded-[2rem] p-8 max-w-4xl w-full shadow-2xl animate-scale-in border border-white/5 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-xl font-normal text-slate-900 dark:text-white uppercase tracking-tight">Resolve Edit Conflict</h3>
+            <p className="text-[10px] text-slate-400 uppercase tracking-widest mt-1">
+              Ref: {base.referenceNumber} • {theirs ? `${conflicts} conflicting field(s)` : 'Record deleted'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 transition-colors"><Icons.Close className="w-5 h-5" /></button>
+        </div>
+
+        {!theirs ? (
+          <div className="p-4 mb-6 bg-rose-500/10 border border-rose-500/20 rounded-xl flex items-center gap-3 text-rose-600 dark:text-rose-400 text-sm">
+            <Icons.Alert className="w-5 h-5 shrink-0" />
+            <span>Someone else deleted this record after you opened it, so your changes cannot be saved.</span>
+          </div>
+        ) : (
+          <>
+            <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">
+              Someone else saved this record after you opened it. Fields only one of you changed are merged automatically; pick a value for each conflict.
+            </p>
+            <div className="overflow-auto custom-scrollbar mb-6 border border-slate-100 dark:border-white/5 rounded-xl">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-slate-50 dark:bg-white/5 sticky top-0">
+                  <tr className="text-[10px] text-slate-400 uppercase tracking-widest">
+                    <th className="px-4 py-3 font-normal">Field</th>
+                    <th className="px-4 py-3 font-normal">Base</th>
+                    <th className="px-4 py-3 font-normal">Yours</th>
+                    <th className="px-4 py-3 font-normal">Theirs</th>
+                    <th className="px-4 py-3 font-normal">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+                  {fields.map(f => {
+                    const takeMine = f.resolution === 'mine' || (f.resolution === 'conflict' && picks[f.field] === 'mine');
+                    return (
+                      <tr key={f.field} className={f.resolution === 'conflict' ? 'bg-amber-500/5' : ''}>
+                        <td className="px-4 py-3 align-top text-slate-500">{columnLabel(f.field)}</td>
+                        <td className="px-4 py-3 align-top text-slate-400 max-w-[12rem] truncate">{formatValue(f.field, f.base)}</td>
+                        {cell(f.field, f.mine, takeMine || f.resolution === 'same')}
+                        {cell(f.field, f.theirs, !takeMine)}
+                        <td className="px-4 py-3 align-top">
+                          {f.resolution === 'conflict' ? (
+                            <div className="flex gap-1 p-0.5 bg-slate-100 dark:bg-black rounded-lg w-fit">
+                              {(['mine', 'theirs'] as const).map(side => (
+                                <button
+                                  key={side}
+                                  onClick={() => setPicks({ ...picks, [f.field]: side })}
+                                  className={`px-2.5 py-1 rounded-md text-[10px] uppercase tracking-widest transition-all ${picks[f.field] === side ? 'bg-white dark:bg-slate-800 text-amber-600 shadow-sm' : 'text-slate-400'}`}
+                                >
+                                  {RESOLUTION_LABELS[side]}
+                                </button>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-[10px] text-slate-400 uppercase tracking-widest">{RESOLUTION_LABELS[f.resolution]}</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3">
+          {theirs && (
+            <button
+              onClick={() => onSave(resolveMerge(theirs, fields, picks))}
+              className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all hover:bg-indigo-700"
+            >
+              Save Merged Record
+            </button>
+          )}
+          <button onClick={onClose} className={`${theirs ? 'px-6' : 'flex-1'} py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-normal uppercase text-[11px] tracking-widest`}>
+            {theirs ? 'Discard My Changes' : 'Close'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from './Icons';
+import { RecordItem, PortfolioMessage } from '../types';
+import { buildPortfolioContext, citedRecords, isOpenRecord } from '../services/portfolioContext';
+import { generateDataInsights } from '../services/geminiService';
+import { queryAllRecords } from '../services/storageService';
+import { getStageEntryTimes } from '../services/historyService';
+import { EMPTY_FILTERS } from '../services/recordFilters';
+
+const SUGGESTED_QUESTIONS = [
+  "Which stage has the most projects stuck over 30 days?",
+  "Who has the heaviest open workload?",
+  "Which urgent projects are still open?",
+  "How is the portfolio split across governorates?"
+];
+
+/**
+ * "Ask your portfolio" chat. Each question is sent with a fresh summary of every record plus the
+ * records picked for it; answers list the records they cite, which open in the editor.
+ * The records are read page by page when the panel opens and again whenever `refreshKey` changes.
+ * The conversation is owned by App so it survives closing the panel and switching views.
+ */
+export const PortfolioAssistant: React.FC<{
+  refreshKey: number,
+  messages: PortfolioMessage[],
+  onMessagesChange: (messages: PortfolioMessage[]) => void,
+  onOpenRecord: (record: RecordItem) => void,
+  onClose: () => void
+}> = ({ refreshKey, messages, onMessagesChange, onOpenRecord, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const [records, setRecords] = useState<RecordItem[] | null>(null);
+  const [stageEntryTimes, setStageEntryTimes] = useState<Record<string, string>>({});
+  const [loadFailed, setLoadFailed] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const all = await queryAllRecords(EMPTY_FILTERS, null);
+      const times = all && await getStageEntryTimes(all.records.filter(isOpenRecord).map(r => r.id));
+      if (cancelled) return;
+      setLoadFailed(!all || !times);
+      setRecords(all && times ? all.records : null);
+      setStageEntryTimes(times || {});
+    })();
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, asking]);
+
+  const ask = async (text: string) => {
+    const query = text.trim();
+    if (!query || asking || !records) return;
+    const asked: PortfolioMessage[] = [...messages, { role: 'user', text: query, at: new Date().toISOString() }];
+    onMessagesChange(asked);
+    setQuestion('');
+    setAsking(true);
+
+    const context = buildPortfolioContext(records, stageEntryTimes, query);
+    const result = await generateDataInsights(context.text, query, messages);
+    onMessagesChange([...asked, {
+      role: 'assistant',
+      text: result.answer,
+      references: citedRecords(result.references, context.records).map(r => r.referenceNumber),
+      failed: result.failed,
+      at: new Date().toISOString()
+    }]);
+    setAsking(false);
+  };
+
+  return (
+    <div className="fixed right-0 top-0 h-full w-full max-w-md z-[55] bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-white/10 shadow-2xl flex flex-col animate-fade-in font-normal">
+      <div className="flex justify-between items-start p-6 border-b border-slate-100 dark:border-white/5">
+        <div>
+          <h3 className="text-lg font-normal text-slate-900 dark:text-white uppercase tracking-tight flex items-center gap-2">
+            <Icons.AI className="w-5 h-5 text-indigo-500" /> Ask your portfolio
+          </h3>
+          <p className={`text-[10px] uppercase tracking-widest mt-1 ${loadFailed ? 'text-rose-500' : 'text-slate-400'}`}>
+            {records ? `${records.length} record(s) in scope` : loadFailed ? 'Could not load the records' : 'Loading records…'}
+          </p>
+        </div>
+        <div className="flex items-center gap-1">
+          {messages.length > 0 && (
+            <button onClick={() => onMessagesChange([])} disabled={asking} className="px-2 py-1 text-[10px] text-slate-400 uppercase tracking-widest hover:text-rose-500 disabled:opacity-40">Clear</button>
+          )}
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 transition-colors"><Icons.Close className="w-5 h-5" /></button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-4">
+        {messages.length === 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-slate-400 mb-3">Questions are answered from counts over every record plus the records that match what you ask.</p>
+            {SUGGESTED_QUESTIONS.map(q => (
+              <button key={q} onClick={() => ask(q)} className="w-full text-left px-4 py-2.5 rounded-xl bg-slate-50 dark:bg-white/5 text-xs text-slate-600 dark:text-slate-300 hover:bg-indigo-50 dark:hover:bg-indigo-500/10 transition-colors">
+                {q}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {messages.map((message, i) => {
+          const cited = message.references && records ? citedRecords(message.references, records) : [];
+          return (
+            <div key={i} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm ${
+                message.role === 'user'
+                  ? 'bg-indigo-600 text-white'
+                  : message.failed
+                    ? 'bg-rose-500/10 text-rose-600 dark:text-rose-400'
+                    : 'bg-slate-100 dark:bg-white/5 text-slate-700 dark:text-slate-200'
+              }`}>
+                <p className="whitespace-pre-wrap">{message.text}</p>
+                {cited.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-slate-200 dark:border-white/10">
+                    <p className="text-[9px] text-slate-400 uppercase tracking-widest mb-1.5">Based on {cited.length} record(s)</p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {cited.map(record => (
+                        <button
+                          key={record.id}
+                          onClick={() => onOpenRecord(record)}
+                          title={`${record.label} • ${record.status}`}
+                          className="px-2 py-0.5 rounded-lg bg-white dark:bg-black border border-slate-200 dark:border-white/10 text-[10px] font-mono text-indigo-600 dark:text-indigo-400 hover:border-indigo-400 transition-colors"
+                        >
+                          {record.referenceNumber}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {asking && (
+          <div className="flex items-center gap-2 text-xs text-slate-400">
+            <Icons.Spinner className="w-4 h-4 animate-spin" /> Analysing {records?.length} record(s)…
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <form
+        onSubmit={e => { e.preventDefault(); ask(question); }}
+        className="p-4 border-t border-slate-100 dark:border-white/5 flex gap-2"
+      >
+        <input
+          value={question}
+          onChange={e => setQuestion(e.target.value)}
+          placeholder="e.g. Which engineer has the oldest GIS projects?"
+          className="flex-1 min-w-0 px-4 py-2.5 bg-slate-50 dark:bg-black border border-slate-200 dark:border-white/10 rounded-xl text-sm outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+        <button type="submit" disabled={!question.trim() || asking || !records} className="px-4 py-2.5 bg-indigo-600 text-white rounded-xl hover:bg-indigo-700 transition-colors disabled:opacity-50">
+          <Icons.Send className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
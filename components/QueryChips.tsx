@@ -0,0 +1,106 @@
+import React from 'react';
+import { Icons } from './Icons';
+import { FacetKey } from '../types';
+import { FACET_LABELS, STATUS_OPTIONS } from '../services/recordFilters';
+import { RecordQuery, QueryVocabulary, isUnmatchedValue } from '../services/recordQuery';
+import { LLMProviderKind } from '../services/llmProvider';
+
+const INTERPRETER_LABELS: Record<LLMProviderKind, string> = {
+  gemini: 'Understood by Gemini',
+  template: 'Understood offline'
+};
+
+const Chip: React.FC<{ label: string, warning?: string, onRemove: () => void, children: React.ReactNode }> = ({ label, warning, onRemove, children }) => (
+  <span
+    title={warning}
+    className={`inline-flex items-center gap-1.5 pl-3 pr-1 py-1 rounded-xl border text-xs ${
+      warning
+        ? 'bg-amber-500/10 border-amber-500/30 text-amber-700 dark:text-amber-400'
+        : 'bg-indigo-50 dark:bg-indigo-500/10 border-indigo-100 dark:border-indigo-500/20 text-indigo-700 dark:text-indigo-300'
+    }`}
+  >
+    <span className="text-[9px] uppercase tracking-widest opacity-60">{label}</span>
+    {children}
+    <button onClick={onRemove} className="p-0.5 rounded-md opacity-60 hover:opacity-100 hover:bg-black/5 dark:hover:bg-white/10"><Icons.Close className="w-3 h-3" /></button>
+  </span>
+);
+
+const CHIP_INPUT = 'bg-transparent outline-none text-xs font-normal';
+
+/**
+ * What a natural-language search was understood as, one editable chip per condition. Values that
+ * match nothing stored are flagged; every edit is applied to the dashboard straight away.
+ */
+export const QueryChips: React.FC<{
+  query: RecordQuery,
+  vocabulary: QueryVocabulary,
+  interpretedBy: LLMProviderKind,
+  onChange: (query: RecordQuery) => void,
+  onClear: () => void
+}> = ({ query, vocabulary, interpretedBy, onChange, onClear }) => {
+  const setFacet = (facet: FacetKey, values: string[]) => {
+    const facets = { ...query.facets };
+    if (values.length) facets[facet] = values;
+    else delete facets[facet];
+    onChange({ ...query, facets });
+  };
+  const days = (value: string) => Math.max(1, Math.round(Number(value)) || 1);
+  const facetEntries = Object.entries(query.facets) as [FacetKey, string[]][];
+  const empty = !query.status && facetEntries.length === 0 && !query.olderThanDays && !query.newerThanDays && !query.text;
+
+  return (
+    <div className="px-8 py-3 flex flex-wrap items-center gap-2 border-b border-slate-100 dark:border-white/5 bg-indigo-50/30 dark:bg-indigo-500/[0.03] animate-fade-in">
+      <span className="flex items-center gap-1.5 text-[10px] text-slate-400 uppercase tracking-widest mr-1">
+        <Icons.AI className="w-3.5 h-3.5" /> {INTERPRETER_LABELS[interpretedBy]}
+      </span>
+
+      {empty && <span className="text-xs text-slate-400 italic">No conditions recognised</span>}
+
+      {query.status && (
+        <Chip label="Stage" onRemove={() => onChange({ ...query, status: null })}>
+          <select value={query.status} onChange={e => onChange({ ...query, status: e.target.value })} className={CHIP_INPUT}>
+            {STATUS_OPTIONS.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </Chip>
+      )}
+
+      {facetEntries.flatMap(([facet, values]) => values.map((value, i) => {
+        const options = [...new Set([value, ...(vocabulary[facet] || [])])];
+        return (
+          <Chip
+            key={`${facet}:${value}`}
+            label={FACET_LABELS[facet]}
+            warning={isUnmatchedValue(facet, value, vocabulary) ? `No ${FACET_LABELS[facet].toLowerCase()} called "${value}" in the data` : undefined}
+            onRemove={() => setFacet(facet, values.filter((_, j) => j !== i))}
+          >
+            <select value={value} onChange={e => setFacet(facet, values.map((v, j) => j === i ? e.target.value : v))} className={`${CHIP_INPUT} max-w-[12rem]`}>
+              {options.map(o => <option key={o} value={o}>{o}</option>)}
+            </select>
+          </Chip>
+        );
+      }))}
+
+      {query.olderThanDays && (
+        <Chip label="Created over" onRemove={() => onChange({ ...query, olderThanDays: null })}>
+          <input type="number" min={1} value={query.olderThanDays} onChange={e => onChange({ ...query, olderThanDays: days(e.target.value) })} className={`${CHIP_INPUT} w-12`} />
+          <span>days ago</span>
+        </Chip>
+      )}
+
+      {query.newerThanDays && (
+        <Chip label="Created within" onRemove={() => onChange({ ...query, newerThanDays: null })}>
+          <input type="number" min={1} value={query.newerThanDays} onChange={e => onChange({ ...query, newerThanDays: days(e.target.value) })} className={`${CHIP_INPUT} w-12`} />
+          <span>days</span>
+        </Chip>
+      )}
+
+      {query.text && (
+        <Chip label="Text" onRemove={() => onChange({ ...query, text: '' })}>
+          <input value={query.text} onChange={e => onChange({ ...query, text: e.target.value })} className={`${CHIP_INPUT} w-32`} />
+        </Chip>
+      )}
+
+      <button onClick={onClear} className="ml-auto text-[10px] text-rose-500 uppercase tracking-widest hover:underline">Clear</button>
+    </div>
+  );
+};
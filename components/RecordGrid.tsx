@@ -0,0 +1,234 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Icons } from './Icons';
+import { InfraHookBadge } from './InfraHookBadge';
+import { RecordItem, GridColumn, GridColumnKey, SortConfig } from '../types';
+import { RECORD_COLUMNS, RecordColumn } from '../services/recordSchema';
+import { EXPORTABLE_COLUMNS, columnLabel } from '../services/exportService';
+
+const GRID_LABELS: Partial<Record<GridColumnKey, string>> = {
+  label: 'Project',
+  status: 'Stage',
+  referenceNumber: 'Reference',
+  plotNumber: 'Plot',
+  infraHook: 'Infra Hook'
+};
+
+export const GRID_COLUMN_KEYS: GridColumnKey[] = [...EXPORTABLE_COLUMNS, 'infraHook'];
+
+export const gridColumnLabel = (key: GridColumnKey): string =>
+  GRID_LABELS[key] || columnLabel(key as RecordColumn);
+
+const MIN_COLUMN_WIDTH = 80;
+
+// Rows have a fixed height so only the ones in view need rendering.
+const ROW_HEIGHT = 80;
+const OVERSCAN_ROWS = 8;
+
+const GridCell: React.FC<{ record: RecordItem, column: GridColumnKey, infraHookData: Record<string, { appNo: string, isPaid: boolean }> }> = ({ record, column, infraHookData }) => {
+  switch (column) {
+    case 'label':
+      return (
+        <>
+          <div className="font-normal text-slate-900 dark:text-white text-base truncate">{record.label}</div>
+          <div className="text-[10px] text-slate-400 font-normal uppercase tracking-tight">{record.subtype || 'Project'}</div>
+        </>
+      );
+    case 'status':
+      return (
+        <span className="px-2.5 py-0.5 rounded-lg bg-indigo-50/50 dark:bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 text-[10px] font-normal uppercase tracking-wide border border-indigo-100 dark:border-indigo-500/20">
+          {record.status}
+        </span>
+      );
+    case 'referenceNumber':
+      return <span className="text-slate-400 font-mono text-[11px]">{record.referenceNumber}</span>;
+    case 'infraHook':
+      return <InfraHookBadge plot={record.plotNumber || ''} hookData={infraHookData} />;
+  }
+  const value = record[column];
+  if (value === undefined || value === null || value === '') return <span className="text-slate-300 dark:text-slate-600">-</span>;
+  if (typeof value === 'boolean') return <span className="text-slate-500 dark:text-slate-400">{value ? 'Yes' : 'No'}</span>;
+  if (RECORD_COLUMNS[column as RecordColumn] === 'timestamp') {
+    const date = new Date(value);
+    return <span className="text-slate-500 dark:text-slate-400">{isNaN(date.getTime()) ? value : date.toLocaleDateString()}</span>;
+  }
+  return <span className="text-slate-500 dark:text-slate-400">{value}</span>;
+};
+
+/**
+ * Picks which columns the grid shows and in what order.
+ */
+export const ColumnChooser: React.FC<{
+  columns: GridColumn[],
+  onChange: (columns: GridColumn[]) => void,
+  onClose: () => void
+}> = ({ columns, onChange, onClose }) => {
+  const visible = columns.map(c => c.key);
+  const hidden = GRID_COLUMN_KEYS.filter(k => !visible.includes(k));
+
+  const move = (index: number, delta: number) => {
+    const next = [...columns];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + delta, 0, moved);
+    onChange(next);
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 z-30 w-80 max-h-[60vh] overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl p-4 animate-scale-in">
+      <div className="flex justify-between items-center mb-3">
+        <p className="text-[10px] text-slate-400 uppercase tracking-widest">Shown • {columns.length}</p>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600"><Icons.Close className="w-4 h-4" /></button>
+      </div>
+      <div className="space-y-1 mb-4">
+        {columns.map((column, i) => (
+          <div key={column.key} className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-slate-50 dark:bg-white/5 text-xs">
+            <input type="checkbox" checked onChange={() => onChange(columns.filter(c => c.key !== column.key))} disabled={columns.length === 1} className="accent-indigo-600" />
+            <span className="flex-1 truncate">{gridColumnLabel(column.key)}</span>
+            <button disabled={i === 0} onClick={() => move(i, -1)} className="p-0.5 text-slate-400 hover:text-indigo-500 disabled:opacity-20"><Icons.Up className="w-3.5 h-3.5" /></button>
+            <button disabled={i === columns.length - 1} onClick={() => move(i, 1)} className="p-0.5 text-slate-400 hover:text-indigo-500 disabled:opacity-20"><Icons.Down className="w-3.5 h-3.5" /></button>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-slate-400 uppercase tracking-widest mb-2">Available</p>
+      <div className="space-y-1">
+        {hidden.map(key => (
+          <label key={key} className="flex items-center gap-2 px-2 py-1 text-xs text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={false} onChange={() => onChange([...columns, { key }])} className="accent-indigo-600" />
+            <span className="truncate">{gridColumnLabel(key)}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Dashboard table over an already filtered and sorted record list.
+ * Header clicks cycle the sort asc → desc → off; dragging a header's right edge resizes it.
+ * Only the rows in view are rendered; scrolling near the end asks for the next page.
+ * Rows someone else has open in the editor carry their name.
+ */
+export const RecordGrid: React.FC<{
+  records: RecordItem[],
+  infraHookData: Record<string, { appNo: string, isPaid: boolean }>,
+  columns: GridColumn[],
+  sort: SortConfig | null,
+  onSortChange: (sort: SortConfig | null) => void,
+  onColumnsChange: (columns: GridColumn[]) => void,
+  renderActions: (record: RecordItem) => React.ReactNode,
+  hasMore?: boolean,
+  loading?: boolean,
+  onEndReached?: () => void,
+  scrollResetKey?: string,
+  editingBy?: Record<string, string[]>
+}> = ({ records, infraHookData, columns, sort, onSortChange, onColumnsChange, renderActions, hasMore, loading, onEndReached, scrollResetKey, editingBy = {} }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ top: 0, height: 800 });
+  const [resizing, setResizing] = useState<{ key: GridColumnKey, startX: number, startWidth: number } | null>(null);
+  const [draftWidth, setDraftWidth] = useState<number | null>(null);
+  const columnsRef = useRef(columns);
+  columnsRef.current = columns;
+
+  useEffect(() => {
+    if (!resizing) return;
+    const widthAt = (x: number) => Math.max(MIN_COLUMN_WIDTH, resizing.startWidth + x - resizing.startX);
+    const onMove = (e: MouseEvent) => setDraftWidth(widthAt(e.clientX));
+    const onUp = (e: MouseEvent) => {
+      onColumnsChange(columnsRef.current.map(c => c.key === resizing.key ? { ...c, width: widthAt(e.clientX) } : c));
+      setResizing(null);
+      setDraftWidth(null);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+    return () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+  }, [resizing]);
+
+  const toggleSort = (key: GridColumnKey) => {
+    if (sort?.key !== key) onSortChange({ key, direction: 'asc' });
+    else if (sort.direction === 'asc') onSortChange({ key, direction: 'desc' });
+    else onSortChange(null);
+  };
+
+  const measure = () => {
+    const el = scrollRef.current;
+    if (el) setViewport({ top: el.scrollTop, height: el.clientHeight });
+  };
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    measure();
+  }, [scrollResetKey]);
+
+  const first = Math.max(0, Math.floor(viewport.top / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const last = Math.min(records.length, Math.ceil((viewport.top + viewport.height) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  useEffect(() => {
+    if (hasMore && !loading && onEndReached && last >= records.length - OVERSCAN_ROWS) onEndReached();
+  }, [last, records.length, hasMore, loading]);
+
+  const widthOf = (column: GridColumn) => resizing?.key === column.key && draftWidth !== null ? draftWidth : column.width;
+
+  return (
+    <div ref={scrollRef} onScroll={measure} className="overflow-auto max-h-[70vh] custom-scrollbar">
+      <table className="w-full text-left text-sm whitespace-nowrap" style={{ tableLayout: columns.some(c => c.width) ? 'fixed' : 'auto' }}>
+        <thead className="sticky top-0 z-10 bg-slate-50 dark:bg-slate-900">
+          <tr>
+            {columns.map(column => {
+              const SortIcon = sort?.key !== column.key ? Icons.Sortable : sort.direction === 'asc' ? Icons.SortAsc : Icons.SortDesc;
+              return (
+                <th key={column.key} style={{ width: widthOf(column) }} className="relative px-8 py-4 font-normal text-slate-400 uppercase text-[10px] tracking-widest select-none">
+                  <button onClick={() => toggleSort(column.key)} className={`flex items-center gap-1.5 uppercase tracking-widest hover:text-indigo-500 transition-colors ${sort?.key === column.key ? 'text-indigo-500' : ''}`}>
+                    <span className="truncate">{gridColumnLabel(column.key)}</span>
+                    <SortIcon className={`w-3 h-3 shrink-0 ${sort?.key === column.key ? '' : 'opacity-30'}`} />
+                  </button>
+                  <span
+                    onMouseDown={e => {
+                      const th = (e.currentTarget.parentElement as HTMLElement);
+                      setResizing({ key: column.key, startX: e.clientX, startWidth: th.getBoundingClientRect().width });
+                    }}
+                    className="absolute right-0 top-2 bottom-2 w-1.5 cursor-col-resize rounded hover:bg-indigo-500/30"
+                  />
+                </th>
+              );
+            })}
+            <th className="px-8 py-4 w-40"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 dark:divide-white/5">
+          {records.length === 0 ? (
+            <tr><td colSpan={columns.length + 1} className="p-12 text-center text-slate-400 italic">{loading ? 'Loading records…' : 'No records found.'}</td></tr>
+          ) : (
+            <>
+              {first > 0 && <tr style={{ height: first * ROW_HEIGHT }}><td colSpan={columns.length + 1} /></tr>}
+              {records.slice(first, last).map(r => (
+                <tr key={r.id} style={{ height: ROW_HEIGHT }} className="group hover:bg-slate-50/50 dark:hover:bg-white/5 transition-colors">
+                  {columns.map(column => (
+                    <td key={column.key} className="px-8 overflow-hidden text-ellipsis">
+                      <GridCell record={r} column={column.key} infraHookData={infraHookData} />
+                    </td>
+                  ))}
+                  <td className="px-8 text-right">
+                    <div className="flex justify-end items-center gap-2">
+                      {editingBy[r.id] && (
+                        <span title={`Being edited by ${editingBy[r.id].join(', ')}`} className="flex items-center gap-1 px-2 py-0.5 rounded-lg bg-amber-500/10 text-amber-600 dark:text-amber-400 text-[10px] uppercase tracking-wide">
+                          <Icons.Edit className="w-3 h-3" /> {editingBy[r.id][0]}{editingBy[r.id].length > 1 && ` +${editingBy[r.id].length - 1}`}
+                        </span>
+                      )}
+                      {renderActions(r)}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {last < records.length && <tr style={{ height: (records.length - last) * ROW_HEIGHT }}><td colSpan={columns.length + 1} /></tr>}
+              {hasMore && (
+                <tr><td colSpan={columns.length + 1} className="p-6 text-center text-[10px] text-slate-400 uppercase tracking-widest">{loading ? 'Loading more…' : ''}</td></tr>
+              )}
+            </>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
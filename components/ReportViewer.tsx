@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Icons } from './Icons';
+import { ReportSubject } from '../services/llmProvider';
+import { GeneratedReport, generateRecordReport, reportTitle, printReport, downloadReportDocx } from '../services/reportService';
+import { MarkdownBlock, MarkdownSpan, parseMarkdown } from '../services/markdown';
+
+const Spans: React.FC<{ spans: MarkdownSpan[] }> = ({ spans }) => (
+  <>
+    {spans.map((span, i) =>
+      span.code ? <code key={i} className="px-1 rounded bg-slate-100 dark:bg-white/10 font-mono text-[0.9em]">{span.text}</code>
+        : span.bold ? <strong key={i} className="font-semibold">{span.text}</strong>
+        : span.italic ? <em key={i}>{span.text}</em>
+        : <React.Fragment key={i}>{span.text}</React.Fragment>
+    )}
+  </>
+);
+
+const HEADING_CLASSES = [
+  'text-xl text-slate-900 dark:text-white mb-3',
+  'text-xs uppercase tracking-widest text-indigo-500 mt-6 mb-2',
+  'text-sm text-slate-900 dark:text-white mt-4 mb-1'
+];
+
+const Block: React.FC<{ block: MarkdownBlock }> = ({ block }) => {
+  switch (block.type) {
+    case 'heading':
+      return <div role="heading" aria-level={block.level} className={HEADING_CLASSES[Math.min(block.level, 3) - 1]}><Spans spans={block.spans} /></div>;
+    case 'paragraph':
+      return <p className="my-2"><Spans spans={block.spans} /></p>;
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List className={`my-2 pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, i) => <li key={i} style={{ marginLeft: `${item.depth * 1.25}rem` }}><Spans spans={item.spans} /></li>)}
+        </List>
+      );
+    }
+    case 'table':
+      return (
+        <div className="my-3 overflow-x-auto custom-scrollbar">
+          <table className="w-full text-xs text-left">
+            <thead><tr>{block.header.map((cell, i) => <th key={i} className="px-3 py-2 font-normal text-slate-400 uppercase text-[10px] tracking-widest border-b border-slate-200 dark:border-white/10"><Spans spans={cell} /></th>)}</tr></thead>
+            <tbody>{block.rows.map((row, r) => <tr key={r}>{row.map((cell, c) => <td key={c} className="px-3 py-2 border-b border-slate-100 dark:border-white/5"><Spans spans={cell} /></td>)}</tr>)}</tbody>
+          </table>
+        </div>
+      );
+    case 'code':
+      return <pre className="my-3 p-3 rounded-xl bg-slate-100 dark:bg-black text-xs font-mono whitespace-pre-wrap">{block.text}</pre>;
+    case 'rule':
+      return <hr className="my-5 border-slate-200 dark:border-white/10" />;
+  }
+};
+
+/**
+ * Generates a status report for a record or infra row, renders the Markdown and exports it as a
+ * printable page (Save as PDF) or a .docx. When the configured provider fails, the offline template
+ * report is shown instead and labelled as such.
+ */
+export const ReportViewer: React.FC<{
+  subject: ReportSubject,
+  onClose: () => void,
+  onError: (message: string) => void
+}> = ({ subject, onClose, onError }) => {
+  const [report, setReport] = useState<GeneratedReport | null>(null);
+  const [generation, setGeneration] = useState(0);
+  const title = reportTitle(subject);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    generateRecordReport(subject).then(result => { if (!cancelled) setReport(result); });
+    return () => { cancelled = true; };
+  }, [subject, generation]);
+
+  const blocks = useMemo(() => report ? parseMarkdown(report.markdown) : [], [report]);
+  const fileName = title.replace(/[^\w-]+/g, '_');
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60] flex items-center justify-center p-4 animate-fade-in font-normal">
+      <div className="bg-white dark:bg-slate-900 rounded-[2rem] p-8 max-w-3xl w-full shadow-2xl animate-scale-in border border-white/5 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-start mb-6">
+          <div>
+            <h3 className="text-xl font-normal text-slate-900 dark:text-white uppercase tracking-tight">{title}</h3>
+            <p className="text-[10px] text-slate-400 uppercase tracking-widest mt-1">
+              {report ? `Written by ${report.providerLabel}` : 'Generating…'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 transition-colors"><Icons.Close className="w-5 h-5" /></button>
+        </div>
+
+        {report?.fellBack && (
+          <div className="mb-4 px-4 py-2.5 rounded-xl bg-amber-500/10 text-amber-600 dark:text-amber-400 text-xs flex items-center gap-2">
+            <Icons.Alert className="w-4 h-4 shrink-0" /> The AI provider could not be reached, so this report was compiled from the stored fields.
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar pr-2 mb-6 text-sm text-slate-700 dark:text-slate-300 leading-relaxed">
+          {report ? blocks.map((block, i) => <Block key={i} block={block} />) : (
+            <div className="h-48 flex flex-col items-center justify-center gap-3 text-slate-400">
+              <Icons.Spinner className="w-6 h-6 animate-spin" />
+              <p className="text-[10px] uppercase tracking-widest">Writing report…</p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => report && !printReport(report.markdown, title) && onError("Allow pop-ups to print the report")}
+            disabled={!report}
+            className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Print / PDF
+          </button>
+          <button
+            onClick={() => report && downloadReportDocx(report.markdown, fileName)}
+            disabled={!report}
+            className="flex-1 py-3 bg-slate-900 dark:bg-white/10 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest transition-all hover:bg-slate-800 disabled:opacity-50"
+          >
+            Word (.docx)
+          </button>
+          <button
+            onClick={() => setGeneration(generation + 1)}
+            disabled={!report}
+            title="Generate again"
+            className="px-4 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl disabled:opacity-50"
+          >
+            <Icons.AI className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
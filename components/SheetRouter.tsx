@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { WorkbookSheet, SheetRoute } from '../types';
+
+const ROUTE_LABELS: Record<SheetRoute, string> = {
+  projects: 'Projects',
+  infra: 'Infra References',
+  mixed: 'Mixed (by status)',
+  ignore: 'Ignore'
+};
+
+/**
+ * Lists every worksheet in the workbook and lets the user route each one before staging.
+ */
+export const SheetRouter: React.FC<{
+  fileName: string,
+  sheets: WorkbookSheet[],
+  onConfirm: (sheets: WorkbookSheet[]) => void,
+  onCancel: () => void
+}> = ({ fileName, sheets, onConfirm, onCancel }) => {
+  const [draft, setDraft] = useState<WorkbookSheet[]>(sheets);
+  const routedCount = draft.filter(s => s.route !== 'ignore').length;
+
+  return (
+    <div className="text-left animate-fade-in">
+      <div className="text-center mb-8">
+        <h3 className="text-xl font-normal mb-1 text-slate-900 dark:text-white uppercase tracking-tight">Route Sheets</h3>
+        <p className="text-[10px] text-slate-400 font-normal uppercase tracking-widest">{fileName} • {sheets.length} sheet(s) found</p>
+      </div>
+
+      <div className="space-y-3 max-h-[50vh] overflow-y-auto custom-scrollbar pr-2">
+        {draft.map((sheet, i) => (
+          <div key={sheet.name} className={`p-5 rounded-2xl border flex flex-col md:flex-row md:items-center justify-between gap-4 ${sheet.route === 'ignore' ? 'bg-slate-50/50 dark:bg-white/[0.02] border-slate-100 dark:border-white/5 opacity-60' : 'bg-slate-50 dark:bg-white/5 border-slate-100 dark:border-white/5'}`}>
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <Icons.Excel className="w-4 h-4 text-indigo-500 shrink-0" />
+                <p className="text-sm text-slate-900 dark:text-white truncate">{sheet.name}</p>
+                <span className="text-[10px] text-slate-400 uppercase tracking-widest">{sheet.rows.length} rows</span>
+              </div>
+              <p className="text-[10px] text-slate-400 mt-1 truncate">{sheet.headers.slice(0, 8).join(' • ') || 'No header row'}{sheet.headers.length > 8 ? ' …' : ''}</p>
+              <p className="text-[10px] text-indigo-400 uppercase tracking-widest mt-1">Suggested: {ROUTE_LABELS[sheet.suggestedRoute]}</p>
+            </div>
+            <select
+              value={sheet.route}
+              onChange={e => setDraft(draft.map((s, j) => j === i ? { ...s, route: e.target.value as SheetRoute } : s))}
+              className="md:w-52 px-4 py-2.5 bg-white dark:bg-black border border-slate-200 dark:border-white/10 rounded-xl text-xs outline-none focus:ring-1 focus:ring-indigo-500 appearance-none"
+            >
+              {(Object.keys(ROUTE_LABELS) as SheetRoute[]).map(r => <option key={r} value={r}>{ROUTE_LABELS[r]}</option>)}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-8 flex gap-3">
+        <button
+          onClick={() => onConfirm(draft)}
+          disabled={routedCount === 0}
+          className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-normal uppercase text-[11px] tracking-widest shadow-md transition-all hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Continue With {routedCount} Sheet(s)
+        </button>
+        <button onClick={onCancel} className="px-6 py-3 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 rounded-xl font-normal uppercase text-[11px] tracking-widest">Cancel</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import { RecordItem } from '../types';
+import { STATUS_OPTIONS } from './recordFilters';
+import { evaluateSla } from './slaService';
+
+type InfraHookData = Record<string, { appNo: string, isPaid: boolean }>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PASSED_STATUS = 'Passed';
+
+export const AGING_BUCKETS = [
+  { label: '0-7d', maxDays: 7 },
+  { label: '8-14d', maxDays: 14 },
+  { label: '15-30d', maxDays: 30 },
+  { label: '31-60d', maxDays: 60 },
+  { label: '60d+', maxDays: Infinity }
+];
+
+const normalizePlot = (s: any) => String(s || '').trim().toUpperCase();
+
+const sameText = (a?: string | null, b?: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+const stageIndex = (status: string) => STATUS_OPTIONS.findIndex(s => sameText(s, status));
+
+/**
+ * Records per stage, and how many have reached each stage or gone past it.
+ */
+export const stageFunnel = (records: RecordItem[]) =>
+  STATUS_OPTIONS.map((stage, i) => ({
+    stage,
+    count: records.filter(r => stageIndex(r.status) === i).length,
+    reached: records.filter(r => stageIndex(r.status) >= i).length
+  }));
+
+/**
+ * Days spent in the current stage, bucketed per open stage. Uses the same stage entry time as
+ * the SLA alerts, falling back to createdAt for records without status history.
+ */
+export const agingByStage = (records: RecordItem[], stageEntryTimes: Record<string, string>, now = Date.now()) =>
+  STATUS_OPTIONS.filter(stage => stage !== PASSED_STATUS).map(stage => {
+    const row: Record<string, string | number> = { stage };
+    AGING_BUCKETS.forEach(b => { row[b.label] = 0; });
+    records.filter(r => sameText(r.status, stage)).forEach(record => {
+      const { daysInStage } = evaluateSla(record, [], stageEntryTimes[record.id], now);
+      const bucket = AGING_BUCKETS.find(b => daysInStage <= b.maxDays)!;
+      row[bucket.label] = (row[bucket.label] as number) + 1;
+    });
+    return row;
+  });
+
+// Monday of the week, as YYYY-MM-DD in UTC.
+const weekStart = (time: number) => {
+  const date = new Date(time);
+  const offset = (date.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - offset)).toISOString().split('T')[0];
+};
+
+/**
+ * When each record entered Passed: its logged moves into the stage, plus the stage entry time of
+ * Passed records that never had one logged (e.g. imported as Passed).
+ */
+export const passedEntryTimes = (
+  records: RecordItem[],
+  entries: { recordId: string, changedAt: string }[],
+  stageEntryTimes: Record<string, string>
+): string[] => {
+  const ids = new Set(records.map(r => r.id));
+  const logged = entries.filter(e => ids.has(e.recordId));
+  const seen = new Set(logged.map(e => e.recordId));
+  const unlogged = records
+    .filter(r => sameText(r.status, PASSED_STATUS) && !seen.has(r.id))
+    .map(r => stageEntryTimes[r.id] || r.createdAt);
+  return [...logged.map(e => e.changedAt), ...unlogged];
+};
+
+/**
+ * Counts per week (starting Monday) inside [from, to], with empty weeks kept so the axis is continuous.
+ */
+export const weeklyCounts = (times: string[], from: string, to: string) => {
+  const counts = new Map<string, number>();
+  const start = Date.parse(`${weekStart(Date.parse(from))}T00:00:00Z`);
+  const end = Date.parse(to);
+  for (let t = start; t <= end; t += 7 * DAY_MS) counts.set(weekStart(t), 0);
+  times.forEach(time => {
+    const ms = Date.parse(time);
+    if (isNaN(ms) || ms < start || ms > end + DAY_MS - 1) return;
+    const week = weekStart(ms);
+    counts.set(week, (counts.get(week) || 0) + 1);
+  });
+  return [...counts.entries()].map(([week, count]) => ({ week, count }));
+};
+
+/**
+ * The instants weeklyCounts covers for [from, to]: from the Monday of the first week up to, but
+ * not including, the day after `to`.
+ */
+export const weeklyCountsWindow = (from: string, to: string) => ({
+  since: `${weekStart(Date.parse(from))}T00:00:00.000Z`,
+  until: new Date(Date.parse(to) + DAY_MS).toISOString()
+});
+
+/**
+ * Open (not yet Passed) records per value of `key`, busiest first; the rest are folded into "Other".
+ */
+export const openWorkload = (records: RecordItem[], key: 'planningEngineer' | 'zone', limit = 12) => {
+  const counts = new Map<string, number>();
+  records.filter(r => !sameText(r.status, PASSED_STATUS)).forEach(record => {
+    const value = String(record[key] || '').trim() || 'Unassigned';
+    counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  const sorted = [...counts.entries()].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count);
+  if (sorted.length <= limit) return sorted;
+  const other = sorted.slice(limit - 1).reduce((n, row) => n + row.count, 0);
+  return [...sorted.slice(0, limit - 1), { name: 'Other', count: other }];
+};
+
+/**
+ * Infra payment coverage by the month records were created: how many have an infra record and how
+ * many of those are paid, as shares of the month's records.
+ */
+export const paymentCoverageByMonth = (records: RecordItem[], hookData: InfraHookData) => {
+  const months = new Map<string, { total: number, withInfra: number, paid: number }>();
+  records.forEach(record => {
+    const created = Date.parse(record.createdAt);
+    if (isNaN(created)) return;
+    const month = new Date(created).toISOString().slice(0, 7);
+    const entry = months.get(month) || { total: 0, withInfra: 0, paid: 0 };
+    const hook = hookData[normalizePlot(record.plotNumber)];
+    entry.total += 1;
+    if (hook) entry.withInfra += 1;
+    if (hook?.isPaid) entry.paid += 1;
+    months.set(month, entry);
+  });
+  return [...months.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, { total, withInfra, paid }]) => ({
+      month,
+      total,
+      infraPct: Math.round((withInfra / total) * 100),
+      paidPct: Math.round((paid / total) * 100)
+    }));
+};
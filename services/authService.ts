@@ -0,0 +1,93 @@
+import { supabase } from './supabaseClient';
+import { STORAGE_BACKEND_KIND } from './storageBackend';
+import { RecordItem, User } from '../types';
+
+type AuthUser = { id: string; email?: string };
+
+// The local storage backend runs without Supabase Auth; every session is this administrator.
+const LOCAL_USER: User = { id: 'local', username: 'local', role: 'admin' };
+const isLocalMode = STORAGE_BACKEND_KIND === 'local';
+
+/**
+ * Resolves the application User for a Supabase auth user from the `profiles` table.
+ * Missing profiles fall back to a regular user named after the e-mail prefix.
+ */
+const loadProfile = async (authUser: AuthUser): Promise<User> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('username, role, avatar')
+    .eq('id', authUser.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching profile:', error);
+  }
+
+  return {
+    id: authUser.id,
+    username: data?.username || (authUser.email || '').split('@')[0] || 'user',
+    role: data?.role === 'admin' ? 'admin' : 'user',
+    avatar: data?.avatar || undefined
+  };
+};
+
+export const getCurrentUser = async (): Promise<User | null> => {
+  if (isLocalMode) return LOCAL_USER;
+  const { data, error } = await supabase.auth.getSession();
+  if (error) {
+    console.error('Error reading session:', error);
+    return null;
+  }
+  return data.session ? loadProfile(data.session.user) : null;
+};
+
+export const signIn = async (email: string, password: string): Promise<{ user: User | null, error: string | null }> => {
+  if (isLocalMode) return { user: LOCAL_USER, error: null };
+  const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error || !data.user) {
+    console.error('Error signing in:', error);
+    return { user: null, error: error?.message || 'Sign in failed' };
+  }
+  return { user: await loadProfile(data.user), error: null };
+};
+
+export const signOut = async (): Promise<void> => {
+  if (isLocalMode) return;
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    console.error('Error signing out:', error);
+  }
+};
+
+/**
+ * Subscribes to sign-in/sign-out events. Returns the unsubscribe function.
+ */
+export const onAuthUserChange = (callback: (user: User | null) => void) => {
+  if (isLocalMode) return () => {};
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+    // Supabase holds a lock while this callback runs; defer the profile query until it is released.
+    setTimeout(async () => callback(session ? await loadProfile(session.user) : null), 0);
+  });
+  return () => data.subscription.unsubscribe();
+};
+
+// --- Permissions (mirrored by the RLS policies in supabase_schema.sql) ---
+
+const sameName = (a?: string, b?: string) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const isAdmin = (user: User | null): boolean => user?.role === 'admin';
+
+export const canDeleteRecords = (user: User | null): boolean => isAdmin(user);
+
+export const canImport = (user: User | null): boolean => isAdmin(user);
+
+/**
+ * Admins may edit any record; regular users only records assigned to them
+ * as planning engineer or supervisor.
+ */
+export const canEditRecord = (user: User | null, record: RecordItem): boolean => {
+  if (!user) return false;
+  if (isAdmin(user)) return true;
+  return sameName(record.planningEngineer, user.username) || sameName(record.supervisor, user.username);
+};
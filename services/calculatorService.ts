@@ -0,0 +1,36 @@
+export type PaymentType = '10' | '12' | '6.5';
+
+/**
+ * EDD's share of the calculated fees for each payment type (BD).
+ */
+export const EDD_SHARE_MULTIPLIERS: Record<PaymentType, number> = {
+  '10': 0.4,
+  '12': 0.375,
+  '6.5': 0.6923
+};
+
+export const PAYMENT_TYPES = Object.keys(EDD_SHARE_MULTIPLIERS) as PaymentType[];
+
+export interface CapitalContribution {
+  fees: number;
+  originalCC: number;
+  eddShare: number;
+  adjustedCC: number;
+}
+
+const toAmount = (value: string | number): number => parseFloat(String(value)) || 0;
+
+/**
+ * Takes EDD's share of the fees off the original capital contribution. The adjusted CC never goes
+ * below zero; blank or unreadable amounts count as 0.
+ */
+export const calculateCapitalContribution = (
+  fees: string | number,
+  originalCC: string | number,
+  paymentType: PaymentType
+): CapitalContribution => {
+  const feesVal = toAmount(fees);
+  const ccVal = toAmount(originalCC);
+  const eddShare = feesVal * (EDD_SHARE_MULTIPLIERS[paymentType] || 0);
+  return { fees: feesVal, originalCC: ccVal, eddShare, adjustedCC: Math.max(0, ccVal - eddShare) };
+};
@@ -0,0 +1,341 @@
+import { RecordItem, InfraReferenceItem } from '../types';
+import { ALL_RECORD_COLUMNS } from './recordSchema';
+import { isValidPaymentMarker } from './infraHook';
+import { updateRecordRemote, deleteRecordRemote, updateInfraReference, deleteInfraReference } from './storageService';
+
+export type DataQualityCheckId =
+  | 'duplicateReference'
+  | 'duplicatePlot'
+  | 'duplicateInfra'
+  | 'plotFormat'
+  | 'uspMissingDate'
+  | 'paymentPlaceholder';
+
+export interface DataQualityCheck {
+  id: DataQualityCheckId;
+  label: string;
+  description: string;
+}
+
+export const DATA_QUALITY_CHECKS: DataQualityCheck[] = [
+  { id: 'duplicateReference', label: 'Duplicate references', description: 'Project records sharing one reference number.' },
+  { id: 'duplicatePlot', label: 'Plot under several references', description: 'Project records for the same plot with different reference numbers. These can be separate jobs, so they are left for a manual edit.' },
+  { id: 'duplicateInfra', label: 'Duplicate infra rows', description: 'Infra rows with the same plot and application number.' },
+  { id: 'plotFormat', label: 'Plot spelled differently', description: 'One plot written in several ways (dashes, spaces, leading zeros), so the Infra Hook cannot match it.' },
+  { id: 'uspMissingDate', label: 'USP without sent date', description: 'Records at the USP stage with no Sent to USP date.' },
+  { id: 'paymentPlaceholder', label: 'Placeholder payments', description: 'Infra payment fields holding placeholders or stray characters rather than a payment.' }
+];
+
+export const DEFAULT_DATA_QUALITY_CHECKS: DataQualityCheckId[] = DATA_QUALITY_CHECKS.map(c => c.id);
+
+/**
+ * The writes that resolve one issue. Updates are applied before deletes, so a merge saves the
+ * combined record before its duplicates go. `conflicts` names fields where a removed duplicate
+ * held a different value from the one kept.
+ */
+export interface DataQualityFix {
+  label: string;
+  /** Ids of every row the fix was planned from, including rows it leaves as they are. */
+  rowIds: string[];
+  recordUpdates: { record: RecordItem, changes: Partial<RecordItem> }[];
+  recordDeletes: RecordItem[];
+  infraUpdates: { row: InfraReferenceItem, changes: Partial<InfraReferenceItem> }[];
+  infraDeletes: InfraReferenceItem[];
+  conflicts: string[];
+}
+
+export interface DataQualityIssue {
+  /** Stable across rescans of the same data: the check plus the ids involved. */
+  key: string;
+  check: DataQualityCheckId;
+  summary: string;
+  records: RecordItem[];
+  infra: InfraReferenceItem[];
+  /** Null when there is no safe automatic fix and the rows need editing by hand. */
+  fix: DataQualityFix | null;
+}
+
+export interface DataQualityFixResult {
+  applied: number;
+  failed: number;
+  /** Fixes left alone because an earlier fix in the same run involved one of their rows. */
+  skipped: number;
+}
+
+const normalizePlot = (p: string | number | null | undefined): string => String(p || '').trim().toUpperCase();
+
+/**
+ * A plot number with separators and leading zeros removed, so "0101-1234", "101 1234" and
+ * "1011234" all compare equal. normalizePlot, used for Infra Hook matching, only trims and uppercases.
+ */
+export const canonicalPlot = (p: string | number | null | undefined): string =>
+  normalizePlot(p).replace(/[\s\-_./\\]+/g, '').replace(/^0+(?=.)/, '');
+
+const normalizeKey = (value: any) => String(value ?? '').trim().toUpperCase();
+
+// False counts as blank so a flag set on any duplicate survives the merge.
+const isBlank = (value: any) => value === undefined || value === null || value === false || String(value).trim() === '';
+
+const sameValue = (a: any, b: any) => String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+
+const filledCount = (row: Record<string, any>, fields: string[]) => fields.filter(f => !isBlank(row[f])).length;
+
+const byCreatedAt = (a: { createdAt?: string }, b: { createdAt?: string }) =>
+  String(a.createdAt || '').localeCompare(String(b.createdAt || ''));
+
+const groupBy = <T>(rows: T[], keyOf: (row: T) => string): T[][] => {
+  const groups = new Map<string, T[]>();
+  rows.forEach(row => {
+    const key = keyOf(row);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+  return [...groups.values()];
+};
+
+const issueKey = (check: DataQualityCheckId, ids: string[]) => `${check}:${[...ids].sort().join(',')}`;
+
+const emptyFix = (label: string, rowIds: string[]): DataQualityFix => ({
+  label, rowIds, recordUpdates: [], recordDeletes: [], infraUpdates: [], infraDeletes: [], conflicts: []
+});
+
+/**
+ * Blank fields of `keep` filled from `others`, newest first; differing values stay as kept and
+ * are reported as conflicts.
+ */
+const mergeFields = <T extends Record<string, any>>(keep: T, others: T[], fields: string[]) => {
+  const changes: Record<string, any> = {};
+  const conflicts: string[] = [];
+  [...others].sort(byCreatedAt).reverse().forEach(other => {
+    fields.forEach(field => {
+      const value = other[field];
+      if (isBlank(value)) return;
+      const current = field in changes ? changes[field] : keep[field];
+      if (isBlank(current)) changes[field] = value;
+      else if (!sameValue(current, value) && !conflicts.includes(field)) conflicts.push(field);
+    });
+  });
+  return { changes, conflicts };
+};
+
+// Identity and bookkeeping fields stay as the kept row has them.
+const RECORD_MERGE_FIELDS: string[] = ALL_RECORD_COLUMNS.filter(c => c !== 'createdAt' && c !== 'importBatchId');
+const INFRA_SKIPPED_FIELDS = ['id', 'createdAt', 'importBatchId', '_searchablePlot'];
+
+/**
+ * Merge of duplicate project records into the most complete one (the oldest on a tie).
+ */
+export const planRecordMerge = (records: RecordItem[]): DataQualityFix => {
+  const [keep, ...others] = [...records].sort((a, b) =>
+    filledCount(b, RECORD_MERGE_FIELDS) - filledCount(a, RECORD_MERGE_FIELDS) || byCreatedAt(a, b));
+  const { changes, conflicts } = mergeFields(keep as Record<string, any>, others, RECORD_MERGE_FIELDS);
+  return {
+    ...emptyFix(`Merge into ${keep.referenceNumber || keep.label || 'the most complete record'}`, records.map(r => r.id)),
+    recordUpdates: Object.keys(changes).length ? [{ record: keep, changes }] : [],
+    recordDeletes: others,
+    conflicts
+  };
+};
+
+/**
+ * Merge of duplicate infra rows into the newest one, which is the row the Infra Hook already reads.
+ */
+export const planInfraMerge = (rows: InfraReferenceItem[]): DataQualityFix => {
+  const [keep, ...others] = [...rows].sort(byCreatedAt).reverse();
+  const fields = [...new Set(rows.flatMap(Object.keys))].filter(f => !INFRA_SKIPPED_FIELDS.includes(f));
+  const { changes, conflicts } = mergeFields(keep as Record<string, any>, others, fields);
+  return {
+    ...emptyFix('Keep the newest row', rows.map(r => r.id)),
+    infraUpdates: Object.keys(changes).length ? [{ row: keep, changes }] : [],
+    infraDeletes: others,
+    conflicts
+  };
+};
+
+const duplicateReferenceIssues = (records: RecordItem[]): DataQualityIssue[] =>
+  groupBy(records, r => normalizeKey(r.referenceNumber))
+    .filter(group => group.length > 1)
+    .map(group => ({
+      key: issueKey('duplicateReference', group.map(r => r.id)),
+      check: 'duplicateReference',
+      summary: `Reference ${group[0].referenceNumber.trim()} is used by ${group.length} records`,
+      records: group,
+      infra: [],
+      fix: planRecordMerge(group)
+    }));
+
+const duplicatePlotIssues = (records: RecordItem[]): DataQualityIssue[] =>
+  groupBy(records, r => canonicalPlot(r.plotNumber))
+    .filter(group => new Set(group.map(r => normalizeKey(r.referenceNumber))).size > 1)
+    .map(group => ({
+      key: issueKey('duplicatePlot', group.map(r => r.id)),
+      check: 'duplicatePlot',
+      summary: `Plot ${normalizePlot(group[0].plotNumber)} appears under ${new Set(group.map(r => normalizeKey(r.referenceNumber))).size} reference numbers`,
+      records: group,
+      infra: [],
+      // Merging would delete whole projects under other references, so there is no automatic fix.
+      fix: null
+    }));
+
+const duplicateInfraIssues = (infra: InfraReferenceItem[]): DataQualityIssue[] =>
+  groupBy(infra, row => {
+    const plot = canonicalPlot(row.plotNumber);
+    const application = normalizeKey(row.applicationNumber);
+    return plot && application ? `${plot}|${application}` : '';
+  })
+    .filter(group => group.length > 1)
+    .map(group => ({
+      key: issueKey('duplicateInfra', group.map(r => r.id)),
+      check: 'duplicateInfra',
+      summary: `Plot ${normalizePlot(group[0].plotNumber)}, application ${group[0].applicationNumber!.trim()}: ${group.length} rows`,
+      records: [],
+      infra: group,
+      fix: planInfraMerge(group)
+    }));
+
+/**
+ * Plots written in more than one way across records and infra rows. The spelling the infra rows use
+ * most wins, since that is what the Infra Hook matches against; without infra rows, the records' most
+ * common spelling does.
+ */
+const plotFormatIssues = (records: RecordItem[], infra: InfraReferenceItem[]): DataQualityIssue[] => {
+  const rows = [
+    ...records.map(record => ({ record, infra: undefined, plot: record.plotNumber })),
+    ...infra.map(row => ({ record: undefined, infra: row, plot: row.plotNumber }))
+  ];
+
+  return groupBy(rows, row => canonicalPlot(row.plot))
+    .filter(group => new Set(group.map(row => normalizePlot(row.plot))).size > 1)
+    .map(group => {
+      const tally = new Map<string, number>();
+      // Infra spellings outweigh every record spelling put together.
+      group.forEach(row => {
+        const spelling = normalizePlot(row.plot);
+        tally.set(spelling, (tally.get(spelling) || 0) + (row.infra ? rows.length : 1));
+      });
+      const preferred = [...tally.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+      const stray = group.filter(row => normalizePlot(row.plot) !== preferred);
+      const groupRecords = group.flatMap(row => row.record ? [row.record] : []);
+      const groupInfra = group.flatMap(row => row.infra ? [row.infra] : []);
+
+      return {
+        key: issueKey('plotFormat', group.map(row => (row.record || row.infra)!.id)),
+        check: 'plotFormat',
+        summary: `Plot written as ${[...tally.keys()].join(', ')}`,
+        records: groupRecords,
+        infra: groupInfra,
+        fix: {
+          ...emptyFix(`Rewrite as ${preferred}`, group.map(row => (row.record || row.infra)!.id)),
+          recordUpdates: stray.flatMap(row => row.record ? [{ record: row.record, changes: { plotNumber: preferred } }] : []),
+          infraUpdates: stray.flatMap(row => row.infra ? [{ row: row.infra, changes: { plotNumber: preferred } }] : [])
+        }
+      };
+    });
+};
+
+/**
+ * USP records without a Sent to USP date. The date they entered the stage, from the workflow entry
+ * date or else the status history, is the fix; without either the record has to be edited by hand.
+ */
+const uspMissingDateIssues = (records: RecordItem[], stageEntryTimes: Record<string, string>): DataQualityIssue[] =>
+  records
+    .filter(r => normalizeKey(r.status) === 'USP' && isBlank(r.sentToUSPDate))
+    .map(record => {
+      const entered = record.workflowEntryDate || stageEntryTimes[record.id];
+      const date = entered ? entered.split('T')[0] : null;
+      return {
+        key: issueKey('uspMissingDate', [record.id]),
+        check: 'uspMissingDate',
+        summary: `${record.referenceNumber || record.label} is at USP with no sent date`,
+        records: [record],
+        infra: [],
+        fix: date ? { ...emptyFix(`Set sent date to ${date}`, [record.id]), recordUpdates: [{ record, changes: { sentToUSPDate: date } }] } : null
+      };
+    });
+
+const PAYMENT_FIELDS = ['initialPaymentDate', 'secondPayment', 'thirdPayment'] as const;
+
+const PAYMENT_LABELS: Record<typeof PAYMENT_FIELDS[number], string> = {
+  initialPaymentDate: 'initial payment',
+  secondPayment: 'second payment',
+  thirdPayment: 'third payment'
+};
+
+/**
+ * Payment fields that hold something isValidPaymentMarker rejects. They already count as unpaid,
+ * so clearing them changes no Infra Hook status.
+ */
+const paymentPlaceholderIssues = (infra: InfraReferenceItem[]): DataQualityIssue[] =>
+  infra.flatMap(row => {
+    const junk = PAYMENT_FIELDS.filter(f => !isBlank(row[f]) && !isValidPaymentMarker(row[f]));
+    if (junk.length === 0) return [];
+    return [{
+      key: issueKey('paymentPlaceholder', [row.id]),
+      check: 'paymentPlaceholder' as const,
+      summary: `Plot ${normalizePlot(row.plotNumber) || '?'}: ${junk.map(f => `${PAYMENT_LABELS[f]} "${String(row[f]).trim()}"`).join(', ')}`,
+      records: [],
+      infra: [row],
+      fix: {
+        ...emptyFix('Clear the placeholders', [row.id]),
+        infraUpdates: [{ row, changes: Object.fromEntries(junk.map(f => [f, null])) }]
+      }
+    }];
+  });
+
+/**
+ * Runs the enabled checks over every record and infra row. `stageEntryTimes` (record id to the time
+ * it entered its current stage) lets the USP check propose a date.
+ */
+export const scanDataQuality = (
+  records: RecordItem[],
+  infra: InfraReferenceItem[],
+  checks: DataQualityCheckId[] = DEFAULT_DATA_QUALITY_CHECKS,
+  stageEntryTimes: Record<string, string> = {}
+): DataQualityIssue[] => {
+  const enabled = new Set(checks);
+  const run: [DataQualityCheckId, () => DataQualityIssue[]][] = [
+    ['duplicateReference', () => duplicateReferenceIssues(records)],
+    ['duplicatePlot', () => duplicatePlotIssues(records)],
+    ['duplicateInfra', () => duplicateInfraIssues(infra)],
+    ['plotFormat', () => plotFormatIssues(records, infra)],
+    ['uspMissingDate', () => uspMissingDateIssues(records, stageEntryTimes)],
+    ['paymentPlaceholder', () => paymentPlaceholderIssues(infra)]
+  ];
+  return run.filter(([id]) => enabled.has(id)).flatMap(([, issues]) => issues());
+};
+
+/**
+ * Applies fixes in order. Record updates carry the rowVersion they were planned from, so a record
+ * changed since the scan is not overwritten. A fix that fails part-way stops there and counts as
+ * failed; rescanning shows what is left. Writes never go to the offline outbox, where a merge could
+ * hit a conflict on replay while the deletes queued after it still went through.
+ */
+export const applyDataQualityFixes = async (fixes: DataQualityFix[]): Promise<DataQualityFixResult> => {
+  const result: DataQualityFixResult = { applied: 0, failed: 0, skipped: 0 };
+  const touched = new Set<string>();
+
+  for (const fix of fixes) {
+    if (fix.rowIds.some(id => touched.has(id))) {
+      result.skipped += 1;
+      continue;
+    }
+    fix.rowIds.forEach(id => touched.add(id));
+
+    let ok = true;
+    for (const { record, changes } of fix.recordUpdates) {
+      ok = ok && !!(await updateRecordRemote(record.id, changes, record.rowVersion))?.success;
+    }
+    for (const { row, changes } of fix.infraUpdates) {
+      ok = ok && await updateInfraReference(row.id, changes);
+    }
+    for (const record of fix.recordDeletes) {
+      ok = ok && !!await deleteRecordRemote(record.id);
+    }
+    for (const row of fix.infraDeletes) {
+      ok = ok && await deleteInfraReference(row.id);
+    }
+    if (ok) result.applied += 1;
+    else result.failed += 1;
+  }
+  return result;
+};
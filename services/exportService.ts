@@ -0,0 +1,127 @@
+import * as XLSX from 'xlsx';
+import { RecordItem } from '../types';
+import { ALL_RECORD_COLUMNS, RecordColumn } from './recordSchema';
+import { PROJECT_FIELD_CANDIDATES } from './importService';
+
+export type ExportFormat = 'xlsx' | 'csv';
+
+type InfraHookData = Record<string, { appNo: string, isPaid: boolean }>;
+
+export const DEFAULT_EXPORT_COLUMNS: RecordColumn[] = [
+  'referenceNumber', 'label', 'status', 'zone', 'block', 'plotNumber', 'scheduleStartDate', 'planningEngineer', 'createdAt'
+];
+
+// Internal bookkeeping, never useful in a spreadsheet.
+const HIDDEN_EXPORT_COLUMNS: RecordColumn[] = ['importBatchId'];
+
+export const EXPORTABLE_COLUMNS = ALL_RECORD_COLUMNS.filter(c => !HIDDEN_EXPORT_COLUMNS.includes(c));
+
+/**
+ * Human header for a record column: the first spelling the importer knows, so an export
+ * can be fed straight back through the column mapper, else the camelCase key split into words.
+ */
+export const columnLabel = (column: RecordColumn): string =>
+  PROJECT_FIELD_CANDIDATES[column]?.[0] ||
+  column.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase()).trim();
+
+const normalizePlot = (s: any) => String(s || '').trim().toUpperCase();
+
+const infraHookOf = (record: RecordItem, hookData: InfraHookData) => {
+  const hook = hookData[normalizePlot(record.plotNumber)];
+  return {
+    status: hook ? (hook.isPaid ? 'Paid' : 'Unpaid') : 'No Infra Record',
+    appNo: hook?.appNo || ''
+  };
+};
+
+/**
+ * Flattens records into sheet rows: the chosen columns in order, then the Infra Hook status and application number.
+ */
+export const buildExportRows = (records: RecordItem[], columns: RecordColumn[], hookData: InfraHookData) =>
+  records.map(record => {
+    const row: Record<string, any> = {};
+    columns.forEach(column => {
+      const value = record[column];
+      row[columnLabel(column)] = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value ?? '';
+    });
+    const hook = infraHookOf(record, hookData);
+    row['Infra Hook'] = hook.status;
+    row['Infra Application No'] = hook.appNo;
+    return row;
+  });
+
+export const exportRecords = (
+  records: RecordItem[],
+  columns: RecordColumn[],
+  hookData: InfraHookData,
+  format: ExportFormat,
+  fileName: string
+) => {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(buildExportRows(records, columns, hookData)), 'Records');
+  XLSX.writeFile(wb, `${fileName}.${format}`, { bookType: format });
+};
+
+const escapeHtml = (value: any) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Opens a print-ready summary in a new window and triggers the browser's print dialog,
+ * which doubles as "Save as PDF". Returns false when a popup blocker stopped the window.
+ */
+export const printRecordSummary = (
+  records: RecordItem[],
+  columns: RecordColumn[],
+  hookData: InfraHookData,
+  title: string,
+  subtitle: string
+): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+
+  const byStatus = records.reduce((acc, r) => {
+    acc[r.status || 'Unknown'] = (acc[r.status || 'Unknown'] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  const hooks = records.map(r => infraHookOf(r, hookData).status);
+  const rows = buildExportRows(records, columns, hookData);
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [...columns.map(columnLabel), 'Infra Hook', 'Infra Application No'];
+
+  const kpi = (label: string, value: number) => `<div class="kpi"><div class="value">${value}</div><div class="label">${escapeHtml(label)}</div></div>`;
+
+  win.document.write(`<!DOCTYPE html>
+<html><head><title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 32px; }
+  h1 { font-size: 20px; margin: 0; text-transform: uppercase; letter-spacing: .02em; }
+  .sub { color: #64748b; font-size: 11px; text-transform: uppercase; letter-spacing: .1em; margin: 4px 0 24px; }
+  .kpis { display: flex; flex-wrap: wrap; gap: 12px; margin-bottom: 24px; }
+  .kpi { border: 1px solid #e2e8f0; border-radius: 10px; padding: 10px 16px; min-width: 90px; }
+  .kpi .value { font-size: 20px; }
+  .kpi .label { font-size: 9px; color: #64748b; text-transform: uppercase; letter-spacing: .1em; }
+  table { width: 100%; border-collapse: collapse; font-size: 10px; }
+  th { text-align: left; color: #64748b; font-weight: normal; text-transform: uppercase; letter-spacing: .08em; border-bottom: 1px solid #cbd5e1; padding: 6px; }
+  td { border-bottom: 1px solid #f1f5f9; padding: 6px; }
+  @media print { body { margin: 12mm; } tr { page-break-inside: avoid; } }
+</style></head><body>
+<h1>${escapeHtml(title)}</h1>
+<div class="sub">${escapeHtml(subtitle)} • Generated ${escapeHtml(new Date().toLocaleString())}</div>
+<div class="kpis">
+  ${kpi('Projects', records.length)}
+  ${Object.entries(byStatus).map(([status, count]) => kpi(status, count)).join('')}
+  ${kpi('Infra Paid', hooks.filter(h => h === 'Paid').length)}
+  ${kpi('Infra Unpaid', hooks.filter(h => h !== 'Paid').length)}
+</div>
+<table>
+  <thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+  <tbody>${rows.map(row => `<tr>${headers.map(h => `<td>${escapeHtml(row[h])}</td>`).join('')}</tr>`).join('')}</tbody>
+</table>
+</body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
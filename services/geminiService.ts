@@ -1,6 +1,7 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { RecordItem } from "../types";
+import { GoogleGenAI, Type } from "@google/genai";
+import { PortfolioMessage } from "../types";
+import { LLMProvider } from "./llmProvider";
 
 // Ensure TypeScript recognizes process.env
 declare var process: {
@@ -9,95 +10,80 @@ declare var process: {
   }
 };
 
+// Turns kept when a conversation is sent back to the model.
+const MAX_HISTORY_MESSAGES = 12;
+
 /**
- * Generates data insights from records using Gemini API.
- * Follows @google/genai guidelines for client initialization and response handling.
+ * Answers a question about the portfolio from a context built by buildPortfolioContext, with the
+ * earlier turns of the conversation. The model replies in JSON so the answer comes back with the
+ * reference numbers it was based on.
  */
-export const generateDataInsights = async (records: RecordItem[], query?: string): Promise<string> => {
+export const generateDataInsights = async (
+  context: string,
+  query: string,
+  history: PortfolioMessage[] = []
+): Promise<{ answer: string, references: string[], failed?: boolean }> => {
   try {
     // Guideline: Always use const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-    
-    const contextData = JSON.stringify(records.slice(0, 50));
-    
-    const prompt = query 
-      ? `Given the following dataset of records (Fields: Label, Status, Block, Zone, ScheduleStartDate, Wayleave, Account, Reference): ${contextData}. Answer this question: ${query}`
-      : `Analyze the following dataset. Provide 3 key insights focusing on Status distribution, Zones with most activity, and any scheduling bottlenecks based on ScheduleStartDate. Dataset: ${contextData}`;
+
+    // Earlier answers go back in the same JSON shape the model is asked to produce.
+    const turns = history.filter(m => !m.failed).slice(-MAX_HISTORY_MESSAGES).map(m => ({
+      role: m.role === 'user' ? 'user' : 'model',
+      parts: [{ text: m.role === 'user' ? m.text : JSON.stringify({ answer: m.text, references: m.references || [] }) }]
+    }));
 
     const response = await ai.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: prompt,
+      contents: [...turns, { role: 'user', parts: [{ text: query }] }],
       config: {
-        systemInstruction: "You are an expert data analyst for a Record Management System. Keep answers concise, professional, and actionable.",
+        systemInstruction: `You are an expert data analyst for a Record Management System tracking electricity connection projects through the stages In Design, GIS, WL / GSN, USP and Passed.
+Answer from the data below only. Counts and aging cover every record; the record list is a selection, so use the summary for totals and say so when a question needs records that are not listed.
+Keep answers concise, professional, and actionable. Put the reference numbers of every listed record your answer relies on in "references".
+
+${context}`,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            answer: { type: Type.STRING },
+            references: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ['answer', 'references']
+        }
       }
     });
 
     // Guideline: Use response.text property directly
-    return response.text || "No insights generated.";
+    const parsed = JSON.parse(response.text || '{}');
+    return {
+      answer: parsed.answer || "No insights generated.",
+      references: Array.isArray(parsed.references) ? parsed.references.map(String) : []
+    };
   } catch (error) {
     console.error("Gemini API Error:", error);
-    return "Failed to generate insights. Please try again later.";
+    return { answer: "Failed to generate insights. Please try again later.", references: [], failed: true };
   }
 };
 
 /**
- * Generates a professional report for a record using Gemini API.
+ * LLMProvider backed by Gemini. Errors propagate so the caller can fall back to templates.
  */
-export const generateRecordReport = async (record: any): Promise<string> => {
-  try {
+export const createGeminiProvider = (): LLMProvider => ({
+  kind: 'gemini',
+  label: 'Gemini',
+
+  async generate(request) {
     // Guideline: Create a new GoogleGenAI instance right before making an API call
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
-    
-    // Prepare a generic prompt that works for both active Records and Excel/Infra references
-    const prompt = `
-      You are an intelligent AI assistant for the 'Nexus Record Manager' system.
-      The user has requested a full status report for a specific project/plot.
-      
-      **Data Source**: ${record.plotNumber ? 'Infrastructure Database (Excel)' : 'Active Project Records'}
-      
-      **Raw Record Data**:
-      ${JSON.stringify(record, null, 2)}
-      
-      Please generate a **Professional Project Status Report**.
-      
-      The report should be formatted cleanly (use Markdown) and include the following sections if data exists:
-      
-      1.  **Executive Summary**: 
-          - Identification: Plot ${record.plotNumber || 'N/A'}, Application ${record.applicationNumber || 'N/A'}, Reference ${record.referenceNumber || 'N/A'}.
-          - Owner: ${record.ownerNameEn || record.label || 'N/A'}.
-      
-      2.  **Current Status**: 
-          - State: ${record.status || record.applicationStatus || 'Unknown'}.
-          - Fee Status: ${record.ewaFeeStatus || 'N/A'}.
-      
-      3.  **Location Details**: 
-          - Block ${record.block || record.blockNumber || '-'}, Zone ${record.zone || record.investmentZone || '-'}, Road ${record.roadNumber || '-'}, Building ${record.buildingNumber || '-'}.
-      
-      4.  **Financial & Payments**:
-          - **Critical**: Check for 'Initial Payment Date', 'Second Payment', 'Third Payment'. 
-          - If dates exist, list them clearly. If they are missing/null, explicitly state "No Payment History Found".
-          - 13/2006 CC Status (if derived from calculation logic context, otherwise omit).
-      
-      5.  **Technical Details**:
-          - Load: ${record.momaaLoad || 'N/A'}.
-          - Wayleave: ${record.wayleaveNumber || 'N/A'}.
-          - Account: ${record.accountNumber || 'N/A'}.
-      
-      6.  **Remarks**: 
-          - Analyze 'Error log', 'Justification', or 'Notes' if present.
-      
-      Tone: Professional, informative, and direct.
-    `;
-
     const response = await ai.models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: prompt,
+      contents: request.prompt,
+      config: 'json' in request ? { responseMimeType: 'application/json' } : undefined,
     });
 
     // Guideline: Use response.text property directly
-    return response.text || "No report generated.";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "Failed to generate report due to an API error. Please try again.";
+    if (!response.text) throw new Error(`Gemini returned no text for ${request.task}`);
+    return response.text;
   }
-};
+});
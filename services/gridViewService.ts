@@ -0,0 +1,97 @@
+import { supabase } from './supabaseClient';
+import { RECORD_COLUMNS, RecordColumn } from './recordSchema';
+import { RecordItem, GridView, GridColumn, GridColumnKey, SortConfig } from '../types';
+
+export const DEFAULT_GRID_COLUMNS: GridColumn[] = [
+  { key: 'label' },
+  { key: 'status' },
+  { key: 'zone' },
+  { key: 'referenceNumber' },
+  { key: 'plotNumber' },
+  { key: 'infraHook' }
+];
+
+/**
+ * The user's own views plus everything shared by the team; RLS hides other users' private views.
+ */
+export const getGridViews = async (): Promise<GridView[]> => {
+  const { data, error } = await supabase
+    .from('grid_views')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching grid views:', error);
+    return [];
+  }
+  return data || [];
+};
+
+/**
+ * Inserts a new view, or updates it in place when it already has an id.
+ */
+export const saveGridView = async (view: GridView): Promise<GridView | null> => {
+  const { id, ...fields } = view;
+  const query = id
+    ? supabase.from('grid_views').update(fields).eq('id', id)
+    : supabase.from('grid_views').insert([{ ...fields, createdAt: new Date().toISOString() }]);
+
+  const { data, error } = await query.select().single();
+  if (error) {
+    console.error('Error saving grid view:', error);
+    return null;
+  }
+  return data;
+};
+
+export const deleteGridView = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('grid_views')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting grid view:', error);
+    return false;
+  }
+  return true;
+};
+
+type InfraHookData = Record<string, { appNo: string, isPaid: boolean }>;
+
+const normalizePlot = (s: any) => String(s || '').trim().toUpperCase();
+
+/**
+ * The value a grid column sorts by. Infra Hook ranks paid above unpaid above no infra record;
+ * timestamp columns sort as instants so mixed offsets still order correctly.
+ */
+export const gridSortValue = (record: RecordItem, key: GridColumnKey, hookData: InfraHookData): string | number | null => {
+  if (key === 'infraHook') {
+    const hook = hookData[normalizePlot(record.plotNumber)];
+    return hook ? (hook.isPaid ? 2 : 1) : 0;
+  }
+  const value = record[key];
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (RECORD_COLUMNS[key as RecordColumn] === 'timestamp') {
+    const time = new Date(value).getTime();
+    return isNaN(time) ? null : time;
+  }
+  return String(value);
+};
+
+/**
+ * Sorts a copy of the records. Blank values always go last, whichever the direction;
+ * text compares case-insensitively with embedded numbers in numeric order.
+ */
+export const sortRecords = (records: RecordItem[], sort: SortConfig | null, hookData: InfraHookData): RecordItem[] => {
+  if (!sort) return records;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...records].sort((a, b) => {
+    const va = gridSortValue(a, sort.key, hookData);
+    const vb = gridSortValue(b, sort.key, hookData);
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    if (typeof va === 'number' && typeof vb === 'number') return (va - vb) * factor;
+    return String(va).localeCompare(String(vb), undefined, { numeric: true, sensitivity: 'base' }) * factor;
+  });
+};
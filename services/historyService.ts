@@ -0,0 +1,168 @@
+import { supabase } from './supabaseClient';
+import { RECORD_COLUMNS, RecordColumn } from './recordSchema';
+import { RecordItem, RecordHistoryEntry } from '../types';
+
+let currentActor = 'system';
+
+/**
+ * Sets the name stamped on every history entry written from this session.
+ */
+export const setHistoryActor = (actor: string) => {
+  currentActor = actor || 'system';
+};
+
+const toHistoryValue = (val: any): string | null => {
+  if (val === undefined || val === null || val === '') return null;
+  return String(val);
+};
+
+const isSameValue = (field: string, a: string | null, b: string | null): boolean => {
+  if (a === b) return true;
+  if (a === null || b === null) return false;
+  // Timestamps come back from Postgres with a time zone suffix, so compare instants.
+  if (RECORD_COLUMNS[field as RecordColumn] === 'timestamp') {
+    return new Date(a).getTime() === new Date(b).getTime();
+  }
+  return false;
+};
+
+/**
+ * Lists the fields whose value differs between two versions of a record.
+ * Only keys present in `after` are compared, matching the semantics of a partial update.
+ */
+export const diffRecordFields = (before: Record<string, any>, after: Record<string, any>) => {
+  return Object.keys(after)
+    .filter(field => field !== 'id' && field in RECORD_COLUMNS)
+    .map(field => ({ field, oldValue: toHistoryValue(before[field]), newValue: toHistoryValue(after[field]) }))
+    .filter(change => !isSameValue(change.field, change.oldValue, change.newValue));
+};
+
+export const logRecordChanges = async (
+  recordId: string,
+  before: Record<string, any>,
+  after: Record<string, any>
+): Promise<boolean> => {
+  const changes = diffRecordFields(before, after);
+  if (changes.length === 0) return true;
+
+  const changedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('record_history')
+    .insert(changes.map(c => ({ ...c, recordId, changedAt, actor: currentActor })));
+
+  if (error) {
+    console.error('Error logging record history:', error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Opens the stage history of a newly created record.
+ * The entry is dated at the record's createdAt so imported projects keep their real start.
+ */
+export const logRecordCreated = async (record: RecordItem): Promise<boolean> => {
+  const { error } = await supabase
+    .from('record_history')
+    .insert([{
+      recordId: record.id,
+      field: 'status',
+      oldValue: null,
+      newValue: toHistoryValue(record.status),
+      changedAt: record.createdAt || new Date().toISOString(),
+      actor: currentActor
+    }]);
+
+  if (error) {
+    console.error('Error logging record creation:', error);
+    return false;
+  }
+  return true;
+};
+
+export const getRecordHistory = async (recordId: string): Promise<RecordHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('record_history')
+    .select('*')
+    .eq('recordId', recordId)
+    .order('changedAt', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching record history:', error);
+    return [];
+  }
+  return data || [];
+};
+
+// PostgREST caps a response at 1000 rows, so history reads are paged.
+const HISTORY_PAGE_SIZE = 1000;
+
+/**
+ * Returns, per record id, when the record entered its current status.
+ * Records without any logged status change are absent from the result; null if the history
+ * could not be read in full.
+ */
+export const getStageEntryTimes = async (recordIds: string[]): Promise<Record<string, string> | null> => {
+  const entryTimes: Record<string, string> = {};
+  const CHUNK = 200;
+
+  for (let i = 0; i < recordIds.length; i += CHUNK) {
+    const chunk = recordIds.slice(i, i + CHUNK);
+    for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('record_history')
+        .select('recordId, changedAt')
+        .eq('field', 'status')
+        .in('recordId', chunk)
+        .order('changedAt', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + HISTORY_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Error fetching stage entry times:', error);
+        return null;
+      }
+      data?.forEach((row: any) => {
+        const known = entryTimes[row.recordId];
+        if (!known || new Date(row.changedAt).getTime() > new Date(known).getTime()) {
+          entryTimes[row.recordId] = row.changedAt;
+        }
+      });
+      if (!data || data.length < HISTORY_PAGE_SIZE) break;
+    }
+  }
+
+  return entryTimes;
+};
+
+/**
+ * Every logged move into `status` at or after `since` and before `until`, oldest first; null if the
+ * history could not be read in full. Records that later left the stage still count, which is what
+ * throughput measures.
+ */
+export const getStatusEntries = async (
+  status: string,
+  since: string,
+  until: string
+): Promise<{ recordId: string, changedAt: string }[] | null> => {
+  const entries: { recordId: string, changedAt: string }[] = [];
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('record_history')
+      .select('recordId, changedAt')
+      .eq('field', 'status')
+      .eq('newValue', status)
+      .gte('changedAt', since)
+      .lt('changedAt', until)
+      .order('changedAt', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + HISTORY_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching status entries:', error);
+      return null;
+    }
+    entries.push(...(data || []));
+    if (!data || data.length < HISTORY_PAGE_SIZE) return entries;
+  }
+};
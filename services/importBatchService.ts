@@ -0,0 +1,345 @@
+import { getStorageBackend } from './storageBackend';
+import { insertRecordRemote, updateRecordRemote } from './storageService';
+import { changedFieldsOf, projectMatchKey, infraMatchKey } from './importService';
+import { RecordItem, InfraReferenceItem, StagedImportRow, ImportBatch, ImportBatchItem } from '../types';
+
+const CHUNK_SIZE = 500;
+
+export interface ImportBatchPlan {
+  fileName: string;
+  profileName?: string;
+  mode: ImportBatch['mode'];
+  createdBy?: string;
+  sheetNames: string[];
+  projects: StagedImportRow<RecordItem>[]; // Pending rows only, see pendingImportRows
+  infra: StagedImportRow<InfraReferenceItem>[];
+  skippedRows: number;  // Staged but left out: unchanged, skipped or unticked
+  invalidRows: number;  // Blocked by validation errors
+}
+
+export interface ImportBatchProgress {
+  applied: number;
+  total: number;
+  droppedFields: string[];
+}
+
+export interface ImportBatchRunResult {
+  batch: ImportBatch | null;
+  success: boolean;
+  droppedFields: string[];
+}
+
+const toItem = (batchId: string, targetTable: ImportBatchItem['targetTable'], row: StagedImportRow<any>) => ({
+  batchId,
+  targetTable,
+  action: row.action === 'create' ? 'create' : 'update',
+  targetId: row.action === 'create' ? null : row.existingId,
+  payload: row.action === 'create' ? row.data : changedFieldsOf(row),
+  status: 'pending',
+  sourceSheet: row.sourceSheet || null,
+  sourceRow: row.sourceRow
+});
+
+/**
+ * Records the batch and every planned write before anything is synced.
+ * Returns null (and leaves no batch behind) if the plan cannot be stored.
+ */
+export const createImportBatch = async (plan: ImportBatchPlan): Promise<ImportBatch | null> => {
+  const backend = getStorageBackend();
+  const { data: batch, error } = await backend.insertImportBatch({
+    fileName: plan.fileName,
+    profileName: plan.profileName,
+    mode: plan.mode,
+    status: 'running',
+    totalRows: plan.projects.length + plan.infra.length,
+    appliedRows: 0,
+    projectsCreated: plan.projects.filter(r => r.action === 'create').length,
+    projectsUpdated: plan.projects.filter(r => r.action === 'update').length,
+    infraCreated: plan.infra.filter(r => r.action === 'create').length,
+    infraUpdated: plan.infra.filter(r => r.action === 'update').length,
+    skippedRows: plan.skippedRows,
+    invalidRows: plan.invalidRows,
+    sheetNames: plan.sheetNames,
+    statusBreakdown: plan.projects.reduce((acc, row) => {
+      const status = row.data.status || 'Unknown';
+      acc[status] = (acc[status] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>),
+    createdBy: plan.createdBy,
+    createdAt: new Date().toISOString()
+  });
+
+  if (error) {
+    console.error('Error creating import batch:', error);
+    return null;
+  }
+
+  const items = [
+    ...plan.projects.map(row => toItem(batch.id, 'records', row)),
+    ...plan.infra.map(row => toItem(batch.id, 'infra_references', row))
+  ];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    const { error: itemError } = await backend.insertImportBatchItems(items.slice(i, i + CHUNK_SIZE));
+
+    if (itemError) {
+      console.error('Error storing import batch items:', itemError);
+      await backend.deleteImportBatch(batch.id);
+      return null;
+    }
+  }
+  return batch;
+};
+
+export const getImportBatches = async (): Promise<ImportBatch[]> => {
+  const { data, error } = await getStorageBackend().listImportBatches();
+
+  if (error) {
+    console.error('Error fetching import batches:', error);
+    return [];
+  }
+  return data || [];
+};
+
+/**
+ * Batches that stopped before finishing: failed ones, and 'running' ones whose tab was closed mid-sync.
+ */
+export const getUnfinishedImportBatches = async (): Promise<ImportBatch[]> => {
+  const { data, error } = await getStorageBackend().listImportBatches(['running', 'failed']);
+
+  if (error) {
+    console.error('Error fetching unfinished import batches:', error);
+    return [];
+  }
+  return data || [];
+};
+
+/**
+ * Loads the planned writes of a batch, optionally only those in one status; null on error.
+ */
+export const getImportBatchItems = async (batchId: string, status?: ImportBatchItem['status']): Promise<ImportBatchItem[] | null> => {
+  const items: ImportBatchItem[] = [];
+  // PostgREST caps a single response, so page through large batches.
+  for (let from = 0; ; from += CHUNK_SIZE) {
+    const { data, error } = await getStorageBackend().listImportBatchItems(batchId, status, from, CHUNK_SIZE);
+
+    if (error) {
+      console.error('Error loading import batch items:', error);
+      return null;
+    }
+    items.push(...(data || []));
+    if (!data || data.length < CHUNK_SIZE) return items;
+  }
+};
+
+const markItems = async (ids: string[], fields: Partial<ImportBatchItem>): Promise<boolean> => {
+  const { error } = await getStorageBackend().updateImportBatchItems(ids, fields);
+
+  if (error) {
+    console.error('Error updating import batch items:', error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Marks items applied in one request when each carries its own targetId / previous values.
+ */
+const markItemsApplied = async (items: ImportBatchItem[]): Promise<boolean> => {
+  if (items.length === 0) return true;
+  const { error } = await getStorageBackend().saveImportBatchItems(items.map(item => ({ ...item, status: 'applied' })));
+
+  if (error) {
+    console.error('Error updating import batch items:', error);
+    return false;
+  }
+  return true;
+};
+
+const finishBatch = async (batchId: string, fields: Partial<ImportBatch>): Promise<ImportBatch | null> => {
+  const { data, error } = await getStorageBackend().updateImportBatch(batchId, fields);
+
+  if (error) {
+    console.error('Error updating import batch:', error);
+    return null;
+  }
+  return data;
+};
+
+/**
+ * Rows stamped with this batch by an earlier, interrupted run. A create whose row already
+ * exists is only re-marked, so resuming never inserts the same row twice. Null if the read fails:
+ * carrying on without the list would insert those rows again.
+ */
+const getStampedRows = async (table: ImportBatchItem['targetTable'], batchId: string, keyOf: (row: any) => string) => {
+  const { data, error } = await getStorageBackend().listImportedRows(table, batchId);
+
+  if (error) {
+    console.error(`Error loading rows stamped with batch ${batchId}:`, error);
+    return null;
+  }
+  return new Map((data || []).map((row: any) => [keyOf(row), row.id as string]));
+};
+
+const pickFields = (row: Record<string, any>, fields: string[]) =>
+  fields.reduce((acc, field) => ({ ...acc, [field]: row[field] ?? null }), {} as Record<string, any>);
+
+/**
+ * Applies the pending writes of a batch, newest progress reported through `onProgress`.
+ * Stops at the first failure and marks the batch 'failed'; calling it again resumes from there.
+ */
+export const runImportBatch = async (
+  batch: ImportBatch,
+  onProgress: (progress: ImportBatchProgress) => void
+): Promise<ImportBatchRunResult> => {
+  const droppedFields = new Set<string>();
+  let applied = batch.appliedRows;
+  const report = () => onProgress({ applied, total: batch.totalRows, droppedFields: [...droppedFields] });
+  const fail = async (message: string): Promise<ImportBatchRunResult> => {
+    const updated = await finishBatch(batch.id, { status: 'failed', appliedRows: applied, errorMessage: message });
+    return { batch: updated, success: false, droppedFields: [...droppedFields] };
+  };
+
+  const pending = await getImportBatchItems(batch.id, 'pending');
+  if (!pending) return fail('Could not load the pending rows of this batch');
+  // Count from the items rather than appliedRows, which is stale if the tab closed mid-sync.
+  applied = batch.totalRows - pending.length;
+  if (batch.status !== 'running') await finishBatch(batch.id, { status: 'running', errorMessage: null });
+  report();
+
+  // Projects go through the storage service one by one so history and column pruning apply. Writes
+  // skip the offline outbox: an unreachable store fails the batch, which can be resumed later.
+  const stampedRecords = await getStampedRows('records', batch.id, projectMatchKey);
+  if (!stampedRecords) return fail('Could not read the projects already written by this batch');
+  for (const item of pending.filter(i => i.targetTable === 'records')) {
+    if (item.action === 'create') {
+      const existingId = stampedRecords.get(projectMatchKey(item.payload));
+      let targetId = existingId;
+      if (!existingId) {
+        const result = await insertRecordRemote({ ...item.payload, importBatchId: batch.id } as RecordItem);
+        result?.droppedFields.filter(f => f !== 'importBatchId').forEach(f => droppedFields.add(f));
+        if (!result?.success || !result.record) return fail(`Could not create project on row ${item.sourceRow}`);
+        targetId = result.record.id;
+      }
+      if (!await markItems([item.id], { status: 'applied', targetId })) return fail('Could not record progress');
+    } else {
+      const { data: before, error } = await getStorageBackend().getRecord(item.targetId!);
+      if (error || !before) {
+        console.error('Error reading record before import update:', error);
+        return fail(`Could not read project for row ${item.sourceRow}`);
+      }
+      const result = await updateRecordRemote(item.targetId!, item.payload);
+      result?.droppedFields.forEach(f => droppedFields.add(f));
+      if (!result?.success) return fail(`Could not update project on row ${item.sourceRow}`);
+      const previous = pickFields(before, Object.keys(item.payload));
+      if (!await markItems([item.id], { status: 'applied', previous })) return fail('Could not record progress');
+    }
+    applied++;
+    report();
+  }
+
+  // New infra rows are inserted a chunk per statement, so each chunk lands or fails as a whole.
+  const backend = getStorageBackend();
+  const stampedInfra = await getStampedRows('infra_references', batch.id, infraMatchKey);
+  if (!stampedInfra) return fail('Could not read the infra rows already written by this batch');
+  const infraItems = pending.filter(i => i.targetTable === 'infra_references');
+  const infraCreates = infraItems.filter(i => i.action === 'create');
+  const alreadyWritten = infraCreates.filter(i => stampedInfra.has(infraMatchKey(i.payload)));
+  if (!await markItemsApplied(alreadyWritten.map(item => ({ ...item, targetId: stampedInfra.get(infraMatchKey(item.payload)) })))) {
+    return fail('Could not record progress');
+  }
+  applied += alreadyWritten.length;
+
+  const toInsert = infraCreates.filter(i => !alreadyWritten.includes(i));
+  for (let i = 0; i < toInsert.length; i += CHUNK_SIZE) {
+    const chunk = toInsert.slice(i, i + CHUNK_SIZE);
+    const { data, error } = await backend.insertInfraReferences(chunk.map(item => ({ ...item.payload, importBatchId: batch.id })));
+
+    if (error) {
+      console.error('Error saving infra chunk:', error);
+      return fail(`Could not save infra rows ${chunk[0].sourceRow}–${chunk[chunk.length - 1].sourceRow}`);
+    }
+    // Rows come back in insert order.
+    if (!await markItemsApplied(chunk.map((item, j) => ({ ...item, targetId: data[j]?.id })))) return fail('Could not record progress');
+    applied += chunk.length;
+    report();
+  }
+
+  // Updates carry different columns per row, so each is its own write: a bulk upsert would send
+  // every column of the chunk and null out the ones a row does not change.
+  const infraUpdates = infraItems.filter(i => i.action === 'update');
+  for (let i = 0; i < infraUpdates.length; i += CHUNK_SIZE) {
+    const chunk = infraUpdates.slice(i, i + CHUNK_SIZE);
+    const { data: before, error: readError } = await backend.getInfraReferencesById(chunk.map(item => item.targetId!));
+
+    if (readError) {
+      console.error('Error reading infra rows before import update:', readError);
+      return fail('Could not read infra rows before updating them');
+    }
+    const beforeById = new Map(before.map(row => [row.id, row]));
+    for (const item of chunk) {
+      const { data: written, error } = await backend.updateInfraReference(item.targetId!, item.payload);
+      if (error || written.length === 0) {
+        console.error('Error updating infra row:', error);
+        return fail(`Could not update infra row ${item.sourceRow}`);
+      }
+      const previous = pickFields(beforeById.get(item.targetId!) || {}, Object.keys(item.payload));
+      if (!await markItems([item.id], { status: 'applied', previous })) return fail('Could not record progress');
+      applied++;
+    }
+    report();
+  }
+
+  const updated = await finishBatch(batch.id, {
+    status: 'completed',
+    appliedRows: applied,
+    errorMessage: null,
+    finishedAt: new Date().toISOString()
+  });
+  return { batch: updated, success: true, droppedFields: [...droppedFields] };
+};
+
+/**
+ * Undoes every applied write of a batch: created rows are deleted, updated rows get their
+ * previous values back. Later edits to those fields are overwritten, so this is admin-only.
+ */
+export const rollbackImportBatch = async (batch: ImportBatch, actor: string): Promise<ImportBatch | null> => {
+  const applied = await getImportBatchItems(batch.id, 'applied');
+  if (!applied) return null;
+
+  const updates = applied.filter(i => i.action === 'update' && i.targetId && i.previous);
+  for (const item of updates.filter(i => i.targetTable === 'records')) {
+    const result = await updateRecordRemote(item.targetId!, item.previous as Partial<RecordItem>);
+    if (!result?.success) return null;
+    await markItems([item.id], { status: 'rolled_back' });
+  }
+  // One write per row, for the same reason as in runImportBatch. A row deleted since has nothing to restore.
+  const backend = getStorageBackend();
+  for (const item of updates.filter(i => i.targetTable === 'infra_references')) {
+    const { error } = await backend.updateInfraReference(item.targetId!, item.previous!);
+    if (error) {
+      console.error('Error restoring infra row:', error);
+      return null;
+    }
+    await markItems([item.id], { status: 'rolled_back' });
+  }
+
+  for (const table of ['records', 'infra_references'] as const) {
+    const creates = applied.filter(i => i.action === 'create' && i.targetTable === table && i.targetId);
+    for (let i = 0; i < creates.length; i += CHUNK_SIZE) {
+      const chunk = creates.slice(i, i + CHUNK_SIZE);
+      const { error } = await backend.deleteImportedRows(table, chunk.map(item => item.targetId!));
+
+      if (error) {
+        console.error(`Error deleting rows created by batch ${batch.id}:`, error);
+        return null;
+      }
+      await markItems(chunk.map(item => item.id), { status: 'rolled_back' });
+    }
+  }
+
+  return finishBatch(batch.id, {
+    status: 'rolled_back',
+    rolledBackBy: actor,
+    rolledBackAt: new Date().toISOString()
+  });
+};
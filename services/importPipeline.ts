@@ -0,0 +1,125 @@
+import * as XLSX from 'xlsx';
+import { RecordItem, InfraReferenceItem, StagedImportRow, StagedSourceRow, ImportProfile, WorkbookSheet } from '../types';
+import { ImportMode, stageAgainstExisting, projectMatchKey, infraMatchKey, readMappedValue, suggestSheetRoute, mapSourceToUIStatus, parseDateSafe, parseBooleanFlag } from './importService';
+import { validateProjectRows, validateInfraRows, PROJECT_DATE_FIELDS, INFRA_DATE_FIELDS } from './importValidation';
+import { getExistingRecords, getExistingInfraReferences } from './storageService';
+
+const normalizePlot = (s: any) => String(s || '').trim().toUpperCase();
+
+/**
+ * Parses a workbook into its sheets, each with a suggested route from its headers.
+ */
+export const readWorkbook = (data: any, type: XLSX.ParsingOptions['type']): WorkbookSheet[] => {
+  const wb = XLSX.read(data, { type });
+  return wb.SheetNames.map(name => {
+    const sheet = wb.Sheets[name];
+    const rows = XLSX.utils.sheet_to_json(sheet);
+    const headerRow = (XLSX.utils.sheet_to_json<any[]>(sheet, { header: 1 })[0] || []);
+    const headers = headerRow.map(h => String(h ?? '').trim()).filter(Boolean);
+    const suggestedRoute = suggestSheetRoute(headers, rows.length);
+    return { name, headers, rows, route: suggestedRoute, suggestedRoute };
+  });
+};
+
+/**
+ * Turns the routed sheets into project and infra rows through the profile's mappings.
+ * `now` stamps rows that carry no creation date of their own.
+ */
+export const extractSourceRows = (sheets: WorkbookSheet[], profile: ImportProfile, now = new Date().toISOString()) => {
+  const projectRows: StagedSourceRow<RecordItem>[] = [];
+  const infraRows: StagedSourceRow<InfraReferenceItem>[] = [];
+  sheets.filter(sheet => sheet.route !== 'ignore').forEach(sheet => sheet.rows.forEach((row: any) => {
+    const sourceSheet = sheet.name;
+    // sheet_to_json exposes the 0-based sheet row index as a hidden __rowNum__ property.
+    const sourceRow = (row.__rowNum__ ?? 0) + 1;
+    const projectValue = (field: string) => readMappedValue(row, profile.projectMapping, field);
+    const infraValue = (field: string) => readMappedValue(row, profile.infraMapping, field);
+
+    const ref = projectValue('referenceNumber').toUpperCase();
+    const plot = normalizePlot(projectValue('plotNumber') || infraValue('plotNumber'));
+    const sourceStatusRaw = projectValue('status').trim();
+
+    // Project sheets stage every row so bad statuses surface as errors. Mixed sheets send a row to infra
+    // only when it has a plot and no status at all; an unknown status is still a project row to report.
+    if (sheet.route === 'projects' || (sheet.route === 'mixed' && (sourceStatusRaw || !plot))) {
+      const mappedFields: Partial<RecordItem> = {};
+      Object.keys(profile.projectMapping).forEach(field => {
+        const value = projectValue(field);
+        if (value) (mappedFields as any)[field] = value;
+      });
+      // Unreadable dates are reported by validation and never stored as raw text.
+      Object.keys(PROJECT_DATE_FIELDS).forEach(field => {
+        const value = parseDateSafe((mappedFields as any)[field]);
+        if (value) (mappedFields as any)[field] = value;
+        else delete (mappedFields as any)[field];
+      });
+
+      const urgentRaw = projectValue('urgent');
+      if (urgentRaw) mappedFields.urgent = parseBooleanFlag(urgentRaw);
+      else delete mappedFields.urgent;
+
+      const creationDate = mappedFields.createdAt;
+      projectRows.push({ sourceSheet, sourceRow, sourceStatus: sourceStatusRaw, raw: row, data: {
+        ...mappedFields,
+        label: projectValue('label'),
+        status: mapSourceToUIStatus(sourceStatusRaw),
+        plotNumber: plot,
+        referenceNumber: ref,
+        zone: projectValue('zone'),
+        block: projectValue('block'),
+        scheduleStartDate: mappedFields.scheduleStartDate || '',
+        wayleaveNumber: projectValue('wayleaveNumber'),
+        accountNumber: projectValue('accountNumber'),
+        requireUSP: false,
+        createdAt: creationDate ? new Date(creationDate).toISOString() : now
+      } });
+    } 
+    else if (sheet.route === 'infra' || sheet.route === 'mixed') {
+      const mappedFields: Partial<InfraReferenceItem> = {};
+      Object.keys(profile.infraMapping).forEach(field => {
+        const value = infraValue(field);
+        if (value) (mappedFields as any)[field] = value;
+      });
+      Object.keys(INFRA_DATE_FIELDS).forEach(field => {
+        const value = parseDateSafe((mappedFields as any)[field]);
+        if (value) (mappedFields as any)[field] = value;
+        else delete (mappedFields as any)[field];
+      });
+
+      infraRows.push({ sourceSheet, sourceRow, raw: row, data: {
+        ...mappedFields,
+        plotNumber: plot,
+        createdAt: now
+      } });
+    }
+  }));
+  return { projectRows, infraRows };
+};
+
+/**
+ * Extracts, validates and compares a workbook against what is stored: projects against the stored
+ * records with the same reference numbers, infra rows against the stored rows for the same plots.
+ * Null if the stored rows cannot be read.
+ */
+export const stageWorkbook = async (
+  sheets: WorkbookSheet[],
+  profile: ImportProfile,
+  mode: ImportMode
+): Promise<{ stagedProjects: StagedImportRow<RecordItem>[], stagedInfra: StagedImportRow<InfraReferenceItem>[] } | null> => {
+  const { projectRows, infraRows } = extractSourceRows(sheets, profile);
+  const validProjects = validateProjectRows(projectRows, profile.projectMapping);
+  const validInfra = validateInfraRows(infraRows, profile.infraMapping);
+  const [existingRecords, existingInfra] = await Promise.all([
+    getExistingRecords(projectRows.map(r => r.data.referenceNumber || '')),
+    getExistingInfraReferences(infraRows.map(r => r.data.plotNumber || '').filter(Boolean))
+  ]);
+  if (!existingRecords || !existingInfra) return null;
+  // A blank label only gets a placeholder on new projects; on a match it would overwrite the stored one.
+  const stagedProjects = stageAgainstExisting(validProjects, existingRecords, projectMatchKey, mode).map(row =>
+    row.action === 'create' && !row.data.label ? { ...row, data: { ...row.data, label: 'Untitled' } } : row
+  );
+  return {
+    stagedProjects,
+    stagedInfra: stageAgainstExisting(validInfra, existingInfra, infraMatchKey, mode)
+  };
+};
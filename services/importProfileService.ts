@@ -0,0 +1,45 @@
+import { supabase } from './supabaseClient';
+import { ImportProfile } from '../types';
+
+export const getImportProfiles = async (): Promise<ImportProfile[]> => {
+  const { data, error } = await supabase
+    .from('import_profiles')
+    .select('*')
+    .order('createdAt', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching import profiles:', error);
+    return [];
+  }
+  return data || [];
+};
+
+/**
+ * Inserts a new profile, or updates it in place when it already has an id.
+ */
+export const saveImportProfile = async (profile: ImportProfile): Promise<ImportProfile | null> => {
+  const { id, ...fields } = profile;
+  const query = id
+    ? supabase.from('import_profiles').update(fields).eq('id', id)
+    : supabase.from('import_profiles').insert([{ ...fields, createdAt: new Date().toISOString() }]);
+
+  const { data, error } = await query.select().single();
+  if (error) {
+    console.error('Error saving import profile:', error);
+    return null;
+  }
+  return data;
+};
+
+export const deleteImportProfile = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('import_profiles')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting import profile:', error);
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,326 @@
+import { RecordItem, InfraReferenceItem, FieldChange, StagedImportRow, StagedSourceRow, FieldMapping, ImportProfile, SheetRoute } from '../types';
+
+export type ImportMode = 'merge' | 'skip';
+
+export const VALID_IMPORT_STATUSES = [
+  "Assign planning", "Site Visit", "Design", "Design approval",
+  "GIS digitalization", "Wayleave", "Cost estimation",
+  "Attach Utilities Drawing", "Engineer approval", "1Redesign",
+  "Suspended by EDD", "Work Design"
+];
+
+export const isKnownImportStatus = (sourceStatus: string): boolean =>
+  VALID_IMPORT_STATUSES.some(s => s.toLowerCase() === sourceStatus.trim().toLowerCase());
+
+export const mapSourceToUIStatus = (sourceStatus: string): string => {
+  const s = sourceStatus.trim().toLowerCase();
+  const inDesign = ["assign planning", "site visit", "design", "design approval", "engineer approval", "1redesign"];
+  const gis = ["gis digitalization"];
+  const wl = ["wayleave"];
+  const usp = ["suspended by edd", "cost estimation", "attach utilities drawing"];
+  const passed = ["work design"];
+
+  if (inDesign.includes(s)) return "In Design";
+  if (gis.includes(s)) return "GIS";
+  if (wl.includes(s)) return "WL / GSN";
+  if (usp.includes(s)) return "USP";
+  if (passed.includes(s)) return "Passed";
+
+  return "In Design";
+};
+
+// Excel day serials; anything outside this window (1900-03-01 .. 2173) is not a workbook date.
+const EXCEL_SERIAL_MIN = 61;
+const EXCEL_SERIAL_MAX = 100000;
+
+const excelSerialToIso = (serial: number): string => {
+  const date = new Date(Math.round((serial - 25569) * 86400 * 1000));
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Normalises a workbook date cell to YYYY-MM-DD, or '' when it cannot be read.
+ * sheet_to_json hands serials through as numbers, but they arrive stringified after getValueByFuzzyKey.
+ */
+export const parseDateSafe = (value: any): string => {
+  if (!value) return '';
+  if (typeof value === 'number') {
+    return value >= EXCEL_SERIAL_MIN && value < EXCEL_SERIAL_MAX ? excelSerialToIso(value) : '';
+  }
+  const s = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(s)) {
+    const serial = Number(s);
+    return serial >= EXCEL_SERIAL_MIN && serial < EXCEL_SERIAL_MAX ? excelSerialToIso(serial) : '';
+  }
+  const d = new Date(s);
+  return isNaN(d.getTime()) ? '' : d.toISOString().split('T')[0];
+};
+
+export const parseBooleanFlag = (value: string): boolean => ['yes', 'y', 'true', '1', 'x'].includes(value.trim().toLowerCase());
+
+/**
+ * Known header spellings per project field, used to pre-fill the column mapper.
+ * `status` and `createdAt` map the workflow status and the project's creation date.
+ */
+export const PROJECT_FIELD_CANDIDATES: Partial<Record<keyof RecordItem, string[]>> = {
+  label: ["Label", "Title", "Project Name"],
+  status: ["Status", "Workflow Status"],
+  referenceNumber: ["Reference Number", "Reference", "Ref"],
+  plotNumber: ["Plot Number", "Plot"],
+  zone: ["Zone"],
+  block: ["Block"],
+  scheduleStartDate: ["Schedule Start", "Schedule start date", "Start Date"],
+  wayleaveNumber: ["Wayleave", "Wayleave number"],
+  accountNumber: ["Account", "Account number"],
+  createdAt: ["Creation Date", "Entry Date", "Date Created", "Created At", "Workflow Entry Date"],
+  urgent: ["Urgent"],
+  subtype: ["Subtype"],
+  type: ["Type"],
+  phase: ["Phase"],
+  scheduleEndDate: ["Schedule end date", "End Date"],
+  userConnected: ["User connected"],
+  createdBy: ["Created by"],
+  capitalContribution: ["Capital contribution"],
+  nominatedContractor: ["Nominated contractor"],
+  lastShutdown: ["Last shutdown"],
+  planningEngineer: ["Planning engineer assigned", "Planning engineer"],
+  constructionEngineer: ["Construction engineer assigned", "Construction engineer"],
+  supervisor: ["Supervisor assigned", "Supervisor"],
+  plannedTotalCost: ["Planned total cost"],
+  plannedMaterialCost: ["Planned material cost"],
+  plannedServiceCost: ["Planned service cost"],
+  paymentDate: ["Payment date"],
+  totalPower: ["Total power"],
+  contractorAssignDate: ["Contractor assign date"],
+  workOrder: ["IO/ Work Order", "Work Order", "IO"],
+  customerCpr: ["Customer CPR", "CPR"],
+  jobType: ["Job type"],
+  governorate: ["Governorate"],
+  nasCode: ["NAS Code"],
+  description: ["Description"],
+  mtcContractor: ["MTC Contractor"],
+  workflowEntryDate: ["Workflow entry state date", "Workflow Entry Date"],
+  contractorPaymentDate: ["Contractor Payment Date"],
+  installationContractor: ["Installation contractor"],
+  applicationNumber: ["Application Number", "App No"],
+};
+
+export const INFRA_FIELD_CANDIDATES: Partial<Record<keyof InfraReferenceItem, string[]>> = {
+  plotNumber: ["Plot Number", "Plot"],
+  applicationNumber: ["Application Number", "App No"],
+  ownerNameEn: ["Owner", "Owner Name (En)", "Owner Name En"],
+  initialPaymentDate: ["First Installment", "Initial Payment", "Initial Payment Date"],
+  secondPayment: ["Second Installment", "Second Payment"],
+  thirdPayment: ["Final Settlement", "Third Payment"],
+  bpRequestNumber: ["BP Request Number", "BP Request No"],
+  versionNumber: ["Version Number", "Version"],
+  constructionType: ["Construction Type"],
+  ewaFeeStatus: ["EWA Fee Status", "Fee Status"],
+  applicationStatus: ["Application Status"],
+  accountNumber: ["Account Number", "Account"],
+  landOwnerId: ["Land Owner ID", "Owner ID"],
+  ownerNameAr: ["Owner Name (Ar)", "Owner Name Ar"],
+  numberOfAddresses: ["Number of Addresses"],
+  mouGatedCommunity: ["MOU Gated Community", "Gated Community"],
+  buildingNumber: ["Building Number", "Building"],
+  blockNumber: ["Block Number", "Block"],
+  roadNumber: ["Road Number", "Road"],
+  titleDeed: ["Title Deed"],
+  buildableArea: ["Buildable Area"],
+  momaaLoad: ["MOMAA Load", "Load"],
+  date: ["Date", "Application Date"],
+  nationality: ["Nationality"],
+  propCategory: ["Property Category", "Prop Category"],
+  usageNature: ["Usage Nature"],
+  investmentZone: ["Investment Zone"],
+  errorLog: ["Error Log"],
+  partialExemption: ["Partial Exemption"],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Reads the first candidate header present in a sheet_to_json row, ignoring case, spaces and punctuation.
+ */
+export const getValueByFuzzyKey = (row: any, ...candidates: string[]): string => {
+  const rowKeys = Object.keys(row);
+  const normalizedKeys = rowKeys.reduce((acc, key) => {
+    acc[normalizeHeader(key)] = key;
+    return acc;
+  }, {} as Record<string, string>);
+
+  for (const candidate of candidates) {
+    const foundKey = normalizedKeys[normalizeHeader(candidate)];
+    if (foundKey && row[foundKey] !== undefined && row[foundKey] !== null) {
+      return String(row[foundKey]).trim();
+    }
+  }
+  return '';
+};
+
+/**
+ * Reads a target field through a profile mapping; unmapped fields read as empty.
+ */
+export const readMappedValue = (row: any, mapping: FieldMapping, field: string): string =>
+  mapping[field] ? getValueByFuzzyKey(row, mapping[field]) : '';
+
+/**
+ * Pre-fills a mapping by matching each field's known spellings against the workbook headers.
+ */
+export const guessFieldMapping = (headers: string[], candidates: Record<string, string[] | undefined>): FieldMapping => {
+  const byNormalized = new Map(headers.map(h => [normalizeHeader(h), h]));
+  const mapping: FieldMapping = {};
+  Object.entries(candidates).forEach(([field, spellings]) => {
+    const match = (spellings || []).map(c => byNormalized.get(normalizeHeader(c))).find(Boolean);
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+};
+
+export const guessImportProfile = (headers: string[], name: string): ImportProfile => ({
+  name,
+  projectMapping: guessFieldMapping(headers, PROJECT_FIELD_CANDIDATES),
+  infraMapping: guessFieldMapping(headers, INFRA_FIELD_CANDIDATES)
+});
+
+/**
+ * Share (0..1) of a profile's mapped headers that exist in the workbook.
+ */
+export const scoreImportProfile = (headers: string[], profile: ImportProfile): number => {
+  const available = new Set(headers.map(normalizeHeader));
+  const mapped = [...new Set([...Object.values(profile.projectMapping), ...Object.values(profile.infraMapping)])];
+  if (mapped.length === 0) return 0;
+  return mapped.filter(h => available.has(normalizeHeader(h))).length / mapped.length;
+};
+
+/**
+ * Suggests where a worksheet's rows belong from its headers alone.
+ * Workflow sheets carry status + reference; infra sheets carry plot + application/payment columns;
+ * sheets with both (the legacy single-sheet export) are routed row by row.
+ */
+export const suggestSheetRoute = (headers: string[], rowCount: number): SheetRoute => {
+  if (headers.length === 0 || rowCount === 0) return 'ignore';
+  const project = guessFieldMapping(headers, PROJECT_FIELD_CANDIDATES);
+  const infra = guessFieldMapping(headers, INFRA_FIELD_CANDIDATES);
+
+  const isProjectSheet = !!project.status && !!project.referenceNumber;
+  const isInfraSheet = !!infra.plotNumber &&
+    ['applicationNumber', 'initialPaymentDate', 'secondPayment', 'thirdPayment'].some(f => !!infra[f]);
+
+  if (isProjectSheet && isInfraSheet) return 'mixed';
+  if (isProjectSheet) return 'projects';
+  if (isInfraSheet) return 'infra';
+  return 'ignore';
+};
+
+const PROFILE_MATCH_THRESHOLD = 0.8;
+
+/**
+ * Picks the saved profile whose headers best cover the workbook, or null when none fits well enough.
+ */
+export const detectImportProfile = (headers: string[], profiles: ImportProfile[]): ImportProfile | null => {
+  let best: ImportProfile | null = null;
+  let bestScore = PROFILE_MATCH_THRESHOLD;
+  profiles.forEach(profile => {
+    const score = scoreImportProfile(headers, profile);
+    if (score >= bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Describe the original import rather than the project, so a re-import never overwrites them.
+const IMMUTABLE_IMPORT_FIELDS = ['id', 'createdAt', 'requireUSP'];
+
+const ISO_DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+
+const toComparable = (val: any): string | null => {
+  if (val === undefined || val === null) return null;
+  const s = String(val).trim();
+  return s === '' ? null : s;
+};
+
+const sameImportValue = (from: string | null, to: string | null): boolean => {
+  if (from === to) return true;
+  if (from === null || to === null) return false;
+  // Dates come back from Postgres as full timestamps; the workbook only carries the day.
+  if (ISO_DATE_PREFIX.test(from) && ISO_DATE_PREFIX.test(to)) {
+    return from.slice(0, 10) === to.slice(0, 10);
+  }
+  return from.toUpperCase() === to.toUpperCase();
+};
+
+/**
+ * Lists the fields where an incoming workbook row differs from the stored row.
+ * Empty workbook cells never produce a change: a blank column must not wipe existing data.
+ */
+export const diffImportFields = <T>(existing: Partial<T>, incoming: Partial<T>): FieldChange[] => {
+  return Object.keys(incoming)
+    .filter(field => !IMMUTABLE_IMPORT_FIELDS.includes(field) && !field.startsWith('_'))
+    .map(field => ({
+      field,
+      from: toComparable((existing as any)[field]),
+      to: toComparable((incoming as any)[field])
+    }))
+    .filter(change => change.to !== null && !sameImportValue(change.from, change.to));
+};
+
+/**
+ * Only the changed fields of a staged update, ready to hand to the storage layer.
+ */
+export const changedFieldsOf = <T>(row: StagedImportRow<T>): Partial<T> => {
+  const patch: any = {};
+  row.changes.forEach(c => { patch[c.field] = (row.data as any)[c.field]; });
+  return patch;
+};
+
+export const projectMatchKey = (row: Partial<RecordItem>): string =>
+  String(row.referenceNumber || '').trim().toUpperCase();
+
+export const infraMatchKey = (row: Partial<InfraReferenceItem>): string =>
+  `${String(row.plotNumber || '').trim().toUpperCase()}|${String(row.applicationNumber || '').trim().toUpperCase()}`;
+
+/**
+ * Classifies workbook rows as create, update or unchanged against the rows already stored.
+ * In 'skip' mode matched rows are left untouched, reproducing the old duplicate-skipping import.
+ */
+export const stageAgainstExisting = <T extends { id: string }>(
+  incoming: StagedSourceRow<T>[],
+  existing: T[],
+  keyOf: (row: Partial<T>) => string,
+  mode: ImportMode = 'merge'
+): StagedImportRow<T>[] => {
+  const byKey = new Map<string, T>();
+  existing.forEach(row => {
+    const key = keyOf(row);
+    if (key) byKey.set(key, row);
+  });
+
+  return incoming.map(source => {
+    const blocked = hasBlockingIssues(source);
+    const match = byKey.get(keyOf(source.data));
+    if (!match) return { ...source, action: 'create', changes: [], included: !blocked };
+    if (mode === 'skip') return { ...source, action: 'unchanged', existingId: match.id, changes: [], included: false };
+
+    const changes = diffImportFields(match, source.data);
+    const action = changes.length > 0 ? 'update' : 'unchanged';
+    return { ...source, action, existingId: match.id, changes, included: action === 'update' && !blocked };
+  });
+};
+
+export const hasBlockingIssues = (row: StagedSourceRow<any>): boolean =>
+  (row.issues || []).some(i => i.severity === 'error');
+
+/**
+ * Rows that will actually be written by a sync: included, carrying a change and free of validation errors.
+ */
+export const pendingImportRows = <T>(rows: StagedImportRow<T>[]): StagedImportRow<T>[] =>
+  rows.filter(r => r.included && r.action !== 'unchanged' && !hasBlockingIssues(r));
+
+export const countImportActions = (rows: StagedImportRow<any>[]) => ({
+  create: rows.filter(r => r.action === 'create').length,
+  update: rows.filter(r => r.action === 'update').length,
+  unchanged: rows.filter(r => r.action === 'unchanged').length
+});
@@ -0,0 +1,129 @@
+import * as XLSX from 'xlsx';
+import { RecordItem, InfraReferenceItem, StagedSourceRow, ValidationIssue, RowValidity, FieldMapping } from '../types';
+import { parseDateSafe, isKnownImportStatus, readMappedValue, projectMatchKey, infraMatchKey } from './importService';
+
+/**
+ * Date columns checked on import. Dates that drive SLA tracking cannot be left blank by a bad cell,
+ * so an unreadable value there blocks the row; elsewhere the field is simply not imported.
+ */
+export const PROJECT_DATE_FIELDS: Partial<Record<keyof RecordItem, 'error' | 'warning'>> = {
+  createdAt: 'error',
+  scheduleStartDate: 'error',
+  scheduleEndDate: 'warning',
+  paymentDate: 'warning',
+  contractorAssignDate: 'warning',
+  workflowEntryDate: 'warning',
+  contractorPaymentDate: 'warning'
+};
+
+export const INFRA_DATE_FIELDS: Partial<Record<keyof InfraReferenceItem, 'error' | 'warning'>> = {
+  date: 'warning'
+};
+
+/**
+ * Expected shapes for identifier columns. Mismatches are warnings: legacy exports carry
+ * dashes, leading zeros stripped by Excel and the odd company registration in place of a CPR.
+ */
+export const IDENTIFIER_FORMATS: { field: string, pattern: RegExp, label: string }[] = [
+  { field: 'customerCpr', pattern: /^\d{9}$/, label: 'CPR must be 9 digits' },
+  { field: 'accountNumber', pattern: /^\d{6,12}$/, label: 'Account number must be 6-12 digits' }
+];
+
+const issue = (rule: string, severity: ValidationIssue['severity'], message: string, field?: string): ValidationIssue =>
+  ({ rule, field, severity, message });
+
+const checkDates = (row: StagedSourceRow<any>, mapping: FieldMapping, fields: Record<string, 'error' | 'warning' | undefined>): ValidationIssue[] =>
+  Object.entries(fields)
+    .filter(([field]) => mapping[field])
+    .flatMap(([field, severity]) => {
+      const value = readMappedValue(row.raw || {}, mapping, field);
+      if (!value || parseDateSafe(value)) return [];
+      return [issue('date-format', severity || 'warning', `Unreadable date in ${mapping[field]}: "${value}"`, field)];
+    });
+
+const checkIdentifiers = (row: StagedSourceRow<any>): ValidationIssue[] =>
+  IDENTIFIER_FORMATS.flatMap(({ field, pattern, label }) => {
+    const value = String((row.data as any)[field] ?? '').trim();
+    if (!value || pattern.test(value)) return [];
+    return [issue('identifier-format', 'warning', `${label}: "${value}"`, field)];
+  });
+
+const rowLabel = (row: StagedSourceRow<any>) => `${row.sourceSheet ? `${row.sourceSheet}!` : ''}${row.sourceRow}`;
+
+/**
+ * Flags repeated keys within the file. The first occurrence is kept as a warning; later ones
+ * would silently overwrite it in the same sync, so they are raised with the given severity.
+ */
+const checkDuplicates = <T>(rows: StagedSourceRow<T>[], keyOf: (row: Partial<T>) => string, label: string, severity: ValidationIssue['severity']) => {
+  const seen = new Map<string, StagedSourceRow<T>>();
+  const extra = new Map<StagedSourceRow<T>, ValidationIssue[]>();
+  const add = (row: StagedSourceRow<T>, found: ValidationIssue) => extra.set(row, [...(extra.get(row) || []), found]);
+
+  rows.forEach(row => {
+    const key = keyOf(row.data);
+    if (!key || key === '|') return;
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, row);
+      return;
+    }
+    add(row, issue('duplicate', severity, `Duplicate ${label}; first seen on row ${rowLabel(first)}`));
+    if (!(extra.get(first) || []).some(i => i.rule === 'duplicate')) {
+      add(first, issue('duplicate', 'warning', `${label} repeated later in the file`));
+    }
+  });
+  return extra;
+};
+
+const withIssues = <T>(rows: StagedSourceRow<T>[], perRow: (row: StagedSourceRow<T>) => ValidationIssue[], duplicates: Map<StagedSourceRow<T>, ValidationIssue[]>) =>
+  rows.map(row => ({ ...row, issues: [...(row.issues || []), ...perRow(row), ...(duplicates.get(row) || [])] }));
+
+export const validateProjectRows = (rows: StagedSourceRow<RecordItem>[], mapping: FieldMapping): StagedSourceRow<RecordItem>[] =>
+  withIssues(rows, row => {
+    const found: ValidationIssue[] = [];
+    if (!row.data.referenceNumber) found.push(issue('required', 'error', 'Missing reference number', 'referenceNumber'));
+    if (!row.sourceStatus) found.push(issue('required', 'error', 'Missing status', 'status'));
+    else if (!isKnownImportStatus(row.sourceStatus)) found.push(issue('unknown-status', 'error', `Unknown status "${row.sourceStatus}"`, 'status'));
+    if (!row.data.label || row.data.label === 'Untitled') found.push(issue('required', 'warning', 'Missing project label', 'label'));
+    return [...found, ...checkDates(row, mapping, PROJECT_DATE_FIELDS), ...checkIdentifiers(row)];
+  }, checkDuplicates(rows, projectMatchKey, 'reference number', 'error'));
+
+export const validateInfraRows = (rows: StagedSourceRow<InfraReferenceItem>[], mapping: FieldMapping): StagedSourceRow<InfraReferenceItem>[] =>
+  withIssues(rows, row => {
+    const found: ValidationIssue[] = [];
+    if (!row.data.plotNumber) found.push(issue('required', 'error', 'Missing plot number', 'plotNumber'));
+    return [...found, ...checkDates(row, mapping, INFRA_DATE_FIELDS), ...checkIdentifiers(row)];
+  }, checkDuplicates(rows, infraMatchKey, 'plot / application number', 'warning'));
+
+export const rowValidity = (row: StagedSourceRow<any>): RowValidity => {
+  const issues = row.issues || [];
+  if (issues.some(i => i.severity === 'error')) return 'error';
+  if (issues.length > 0) return 'warning';
+  return 'ok';
+};
+
+export const countRowValidity = (rows: StagedSourceRow<any>[]) => ({
+  error: rows.filter(r => rowValidity(r) === 'error').length,
+  warning: rows.filter(r => rowValidity(r) === 'warning').length,
+  ok: rows.filter(r => rowValidity(r) === 'ok').length
+});
+
+/**
+ * Writes every row with issues to an .xlsx next to the original name: location, severity and
+ * reasons first, then the row's own cells so it can be fixed and re-imported.
+ */
+export const downloadValidationReport = (rows: StagedSourceRow<any>[], fileName: string): number => {
+  const reported = rows.filter(r => rowValidity(r) !== 'ok');
+  const sheetRows = reported.map(row => ({
+    'Sheet': row.sourceSheet || '',
+    'Row': row.sourceRow,
+    'Severity': rowValidity(row).toUpperCase(),
+    'Reasons': (row.issues || []).map(i => `[${i.severity}] ${i.message}`).join('; '),
+    ...(row.raw || {})
+  }));
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(sheetRows), 'Import Issues');
+  XLSX.writeFile(wb, `${fileName.replace(/\.xlsx?$/i, '')}-import-issues.xlsx`);
+  return reported.length;
+};
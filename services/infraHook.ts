@@ -0,0 +1,46 @@
+import { InfraReferenceItem } from '../types';
+
+export type InfraHookData = Record<string, { appNo: string, isPaid: boolean }>;
+
+export const NO_INFRA_RECORD = 'No Infra Record';
+
+const normalizePlot = (p: string | number | null | undefined): string => String(p || '').trim().toUpperCase();
+
+/**
+ * Enhanced strict validation for payment markers.
+ * Specifically handles empty placeholders and garbage characters.
+ * Mirrored by public.is_payment_marker in supabase_schema.sql.
+ */
+export const isValidPaymentMarker = (val: any): boolean => {
+  if (val === null || val === undefined) return false;
+  const s = String(val).trim().toLowerCase();
+  const emptyPlaceholders = [
+    '', 'null', 'undefined', '-', '0', '0.0', 'n/a', 'none', 'no', 'false', '.', '..', '...', '00', '00.00'
+  ];
+  if (emptyPlaceholders.includes(s)) return false;
+  // If it's a date or a string longer than 2 characters and not a placeholder, we count it.
+  return s.length > 1;
+};
+
+export const isInfraPaid = (row: Partial<InfraReferenceItem>): boolean =>
+  isValidPaymentMarker(row.initialPaymentDate) ||
+  isValidPaymentMarker(row.secondPayment) ||
+  isValidPaymentMarker(row.thirdPayment);
+
+/**
+ * Infra Hook status per normalised plot. Like the record_grid view, the newest row for a plot wins.
+ */
+export const hookDataFromInfraRows = (rows: Partial<InfraReferenceItem>[]): InfraHookData => {
+  const newest = new Map<string, Partial<InfraReferenceItem>>();
+  rows.forEach(row => {
+    const plot = normalizePlot(row.plotNumber);
+    if (!plot) return;
+    const current = newest.get(plot);
+    if (!current || String(row.createdAt || '') >= String(current.createdAt || '')) newest.set(plot, row);
+  });
+  const hookData: InfraHookData = {};
+  newest.forEach((row, plot) => {
+    hookData[plot] = { appNo: row.applicationNumber || 'REF MISSING', isPaid: isInfraPaid(row) };
+  });
+  return hookData;
+};
@@ -0,0 +1,52 @@
+import { readEnv } from './supabaseClient';
+import { RecordItem, InfraReferenceItem } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { createTemplateProvider } from './templateProvider';
+import { QueryVocabulary } from './recordQuery';
+
+export type LLMProviderKind = 'gemini' | 'template';
+
+// A project record or an infra reference row; reports are asked for both.
+export type ReportSubject = RecordItem | InfraReferenceItem;
+
+/**
+ * One piece of generated text. `prompt` is what a model is sent; `data` is the structured input
+ * behind it, which is all the template provider looks at. `json` asks for a JSON reply.
+ */
+export type LLMRequest =
+  | { task: 'recordReport', prompt: string, data: ReportSubject }
+  | { task: 'recordQuery', prompt: string, data: { text: string, vocabulary: QueryVocabulary }, json: true };
+
+/**
+ * Something that turns a request into Markdown, or JSON when asked. Providers throw on failure;
+ * callers decide whether to fall back to the template provider.
+ */
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  readonly label: string;
+  generate(request: LLMRequest): Promise<string>;
+}
+
+const configuredKind = readEnv(() => process.env.LLM_PROVIDER).toLowerCase();
+
+/**
+ * LLM_PROVIDER picks the provider; unset, it is Gemini when an API key is configured and the template provider otherwise.
+ */
+export const LLM_PROVIDER_KIND: LLMProviderKind =
+  configuredKind === 'gemini' || configuredKind === 'template'
+    ? configuredKind
+    : readEnv(() => process.env.API_KEY) ? 'gemini' : 'template';
+
+let provider: LLMProvider | null = null;
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!provider) provider = LLM_PROVIDER_KIND === 'gemini' ? createGeminiProvider() : createTemplateProvider();
+  return provider;
+};
+
+/**
+ * Swaps the provider in use, e.g. for the template provider or a stub in tests.
+ */
+export const setLLMProvider = (next: LLMProvider) => {
+  provider = next;
+};
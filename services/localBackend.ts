@@ -0,0 +1,309 @@
+import { StorageBackend } from './storageBackend';
+import { ALL_RECORD_COLUMNS } from './recordSchema';
+import { InfraReferenceItem, RecordItem, SortConfig, ImportBatch, ImportBatchItem } from '../types';
+import { filterRecords } from './recordFilters';
+import { sortRecords } from './gridViewService';
+import { InfraHookData, NO_INFRA_RECORD, hookDataFromInfraRows } from './infraHook';
+
+// A store that never leaves the browser (or the test process): the same tables as Supabase,
+// held in memory and, unless seeded, kept in IndexedDB between sessions.
+
+const DB_NAME = 'rms-local';
+const DB_VERSION = 1;
+const TABLE_STORE = 'tables';
+
+interface LocalTables {
+  records: any[];
+  infra_references: InfraReferenceItem[];
+  import_batches: ImportBatch[];
+  import_batch_items: ImportBatchItem[];
+}
+
+const TABLE_NAMES: (keyof LocalTables)[] = ['records', 'infra_references', 'import_batches', 'import_batch_items'];
+
+export interface LocalBackendOptions {
+  /** Starting rows. A seeded backend lives in memory only unless `persist` is set. */
+  seed?: Partial<LocalTables>;
+  persist?: boolean;
+}
+
+const NEWEST_FIRST: SortConfig = { key: 'createdAt', direction: 'desc' };
+
+const normalizePlot = (p: string | number | null | undefined): string => String(p || '').trim().toUpperCase();
+
+const openDb = (): Promise<IDBDatabase | null> => new Promise(resolve => {
+  if (typeof indexedDB === 'undefined') return resolve(null);
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => { req.result.createObjectStore(TABLE_STORE); };
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => {
+    console.error('Error opening local store:', req.error);
+    resolve(null);
+  };
+});
+
+const readTable = (db: IDBDatabase, name: keyof LocalTables): Promise<any[]> => new Promise(resolve => {
+  const req = db.transaction(TABLE_STORE, 'readonly').objectStore(TABLE_STORE).get(name);
+  req.onsuccess = () => resolve(req.result || []);
+  req.onerror = () => {
+    console.error(`Error reading local ${name}:`, req.error);
+    resolve([]);
+  };
+});
+
+const writeTable = (db: IDBDatabase, name: keyof LocalTables, rows: any[]): Promise<void> => new Promise(resolve => {
+  const tx = db.transaction(TABLE_STORE, 'readwrite');
+  tx.objectStore(TABLE_STORE).put(rows, name);
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => {
+    console.error(`Error saving local ${name}:`, tx.error);
+    resolve();
+  };
+});
+
+/**
+ * The record_grid view's extra columns (supabase_schema.sql, section 6) for one record.
+ */
+const toGridRow = (record: any, hookData: InfraHookData) => {
+  const hook = record.plotNumber ? hookData[normalizePlot(record.plotNumber)] : undefined;
+  return {
+    ...record,
+    infraHook: hook ? (hook.isPaid ? 'Paid' : 'Unpaid') : NO_INFRA_RECORD,
+    infraHookRank: hook ? (hook.isPaid ? 2 : 1) : 0,
+    infraApplicationNumber: hook ? hook.appNo : null
+  };
+};
+
+/**
+ * Backend for development, demos and tests without Supabase. It mirrors what the database does
+ * for the app: generated ids, rowVersion bumps on update, and the record_grid Infra Hook columns.
+ */
+export const createLocalBackend = ({ seed, persist = !seed }: LocalBackendOptions = {}): StorageBackend => {
+  let tablesPromise: Promise<LocalTables> | null = null;
+  let db: IDBDatabase | null = null;
+
+  const tables = (): Promise<LocalTables> => {
+    if (!tablesPromise) {
+      tablesPromise = (async () => {
+        db = persist ? await openDb() : null;
+        const loaded = {} as LocalTables;
+        for (const name of TABLE_NAMES) {
+          const rows = db && !seed ? await readTable(db, name) : seed?.[name];
+          (loaded as any)[name] = [...(rows || [])];
+        }
+        return loaded;
+      })();
+    }
+    return tablesPromise;
+  };
+
+  const save = async (name: keyof LocalTables) => {
+    const current = await tables();
+    if (db) await writeTable(db, name, current[name]);
+  };
+
+  const gridRows = async () => {
+    const { records, infra_references } = await tables();
+    const hookData = hookDataFromInfraRows(infra_references);
+    return { records: records as RecordItem[], hookData };
+  };
+
+  const patchRows = async <K extends keyof LocalTables>(name: K, ids: string[], patch: (row: any) => any) => {
+    const current = await tables();
+    const wanted = new Set(ids);
+    (current as any)[name] = current[name].map((row: any) => wanted.has(row.id) ? patch(row) : row);
+    await save(name);
+  };
+
+  return {
+    kind: 'local',
+
+    writableColumns: async () => new Set(ALL_RECORD_COLUMNS),
+
+    listRecords: async () => {
+      const { records } = await tables();
+      return { data: sortRecords(records, NEWEST_FIRST, {}).map(r => ({ ...r })), error: null };
+    },
+
+    getRecord: async id => {
+      const row = (await tables()).records.find(r => r.id === id);
+      return { data: row ? { ...row } : null, error: null };
+    },
+
+    getRecordsById: async ids => {
+      const wanted = new Set(ids);
+      const rows = (await tables()).records.filter(r => wanted.has(r.id));
+      return { data: rows.map(r => ({ ...r })), error: null };
+    },
+
+    getRecordsByReference: async keys => {
+      const wanted = new Set(keys);
+      const rows = (await tables()).records.filter(r => wanted.has(String(r.referenceNumber || '').trim().toUpperCase()));
+      return { data: rows.map(r => ({ ...r })), error: null };
+    },
+
+    insertRecord: async payload => {
+      const now = new Date().toISOString();
+      const row = { ...payload, id: crypto.randomUUID(), createdAt: payload.createdAt || now, rowVersion: 1, updatedAt: now };
+      (await tables()).records.push(row);
+      await save('records');
+      return { data: { ...row }, error: null };
+    },
+
+    updateRecord: async (id, payload, expectedVersion) => {
+      const current = await tables();
+      const index = current.records.findIndex(r => r.id === id);
+      const stored = current.records[index];
+      if (!stored || (expectedVersion !== undefined && (stored.rowVersion ?? 1) !== expectedVersion)) {
+        return { data: [], error: null };
+      }
+      const row = { ...stored, ...payload, id, rowVersion: (stored.rowVersion ?? 1) + 1, updatedAt: new Date().toISOString() };
+      current.records[index] = row;
+      await save('records');
+      return { data: [{ ...row }], error: null };
+    },
+
+    deleteRecord: async id => {
+      const current = await tables();
+      current.records = current.records.filter(r => r.id !== id);
+      await save('records');
+      return { data: null, error: null };
+    },
+
+    ping: async () => ({ data: null, error: null }),
+
+    getInfraReferences: async plots => {
+      const wanted = new Set(plots.map(normalizePlot));
+      const rows = (await tables()).infra_references.filter(row => wanted.has(normalizePlot(row.plotNumber)));
+      return { data: rows.map(row => ({ ...row })), error: null };
+    },
+
+    searchInfraReferences: async (term, limit) => {
+      const needle = normalizePlot(term);
+      const rows = (await tables()).infra_references.filter(row => normalizePlot(row.plotNumber).includes(needle));
+      return { data: rows.slice(0, limit).map(row => ({ ...row })), error: null };
+    },
+
+    listInfraReferences: async () => {
+      const rows = [...(await tables()).infra_references].sort((a, b) => String(a.createdAt || '').localeCompare(String(b.createdAt || '')));
+      return { data: rows.map(row => ({ ...row })), error: null };
+    },
+
+    updateInfraReference: async (id, payload) => {
+      const current = await tables();
+      const index = current.infra_references.findIndex(row => row.id === id);
+      if (index < 0) return { data: [], error: null };
+      const row = { ...current.infra_references[index], ...payload, id };
+      current.infra_references[index] = row;
+      await save('infra_references');
+      return { data: [{ ...row }], error: null };
+    },
+
+    deleteInfraReference: async id => {
+      const current = await tables();
+      current.infra_references = current.infra_references.filter(row => row.id !== id);
+      await save('infra_references');
+      return { data: null, error: null };
+    },
+
+    getInfraReferencesById: async ids => {
+      const wanted = new Set(ids);
+      const rows = (await tables()).infra_references.filter(row => wanted.has(row.id));
+      return { data: rows.map(row => ({ ...row })), error: null };
+    },
+
+    insertInfraReferences: async rows => {
+      const stored = rows.map(row => ({ ...row, id: crypto.randomUUID(), createdAt: row.createdAt || new Date().toISOString() } as InfraReferenceItem));
+      (await tables()).infra_references.push(...stored);
+      await save('infra_references');
+      return { data: stored.map(row => ({ ...row })), error: null };
+    },
+
+    listImportedRows: async (table, batchId) => {
+      const rows = (await tables())[table].filter((row: any) => row.importBatchId === batchId);
+      return { data: rows.map((row: any) => ({ ...row })), error: null };
+    },
+
+    deleteImportedRows: async (table, ids) => {
+      const current = await tables();
+      const doomed = new Set(ids);
+      (current as any)[table] = current[table].filter((row: any) => !doomed.has(row.id));
+      await save(table);
+      return { data: null, error: null };
+    },
+
+    listImportBatches: async statuses => {
+      const rows = (await tables()).import_batches.filter(batch => !statuses || statuses.includes(batch.status));
+      const sorted = [...rows].sort((a, b) => String(b.createdAt || '').localeCompare(String(a.createdAt || '')));
+      return { data: sorted.map(batch => ({ ...batch })), error: null };
+    },
+
+    insertImportBatch: async payload => {
+      const batch = { ...payload, id: crypto.randomUUID() } as ImportBatch;
+      (await tables()).import_batches.push(batch);
+      await save('import_batches');
+      return { data: { ...batch }, error: null };
+    },
+
+    updateImportBatch: async (id, payload) => {
+      await patchRows('import_batches', [id], batch => ({ ...batch, ...payload, id }));
+      const batch = (await tables()).import_batches.find(b => b.id === id);
+      return { data: batch ? { ...batch } : null, error: null };
+    },
+
+    deleteImportBatch: async id => {
+      const current = await tables();
+      current.import_batches = current.import_batches.filter(batch => batch.id !== id);
+      await save('import_batches');
+      return { data: null, error: null };
+    },
+
+    insertImportBatchItems: async items => {
+      (await tables()).import_batch_items.push(...items.map(item => ({ ...item, id: crypto.randomUUID() } as ImportBatchItem)));
+      await save('import_batch_items');
+      return { data: null, error: null };
+    },
+
+    listImportBatchItems: async (batchId, status, offset, limit) => {
+      const rows = (await tables()).import_batch_items
+        .filter(item => item.batchId === batchId && (!status || item.status === status))
+        .sort((a, b) => b.targetTable.localeCompare(a.targetTable) || (a.sourceRow ?? 0) - (b.sourceRow ?? 0) || a.id.localeCompare(b.id));
+      return { data: rows.slice(offset, offset + limit).map(item => ({ ...item })), error: null };
+    },
+
+    updateImportBatchItems: async (ids, fields) => {
+      await patchRows('import_batch_items', ids, item => ({ ...item, ...fields }));
+      return { data: null, error: null };
+    },
+
+    saveImportBatchItems: async items => {
+      const byId = new Map(items.map(item => [item.id, item]));
+      await patchRows('import_batch_items', [...byId.keys()], item => ({ ...byId.get(item.id) }));
+      return { data: null, error: null };
+    },
+
+    queryGrid: async (filters, sort, offset, limit, withCount) => {
+      const { records, hookData } = await gridRows();
+      const matches = sortRecords(filterRecords(records, filters, hookData), sort || NEWEST_FIRST, hookData);
+      return {
+        data: matches.slice(offset, offset + limit).map(r => toGridRow(r, hookData)),
+        error: null,
+        count: withCount ? matches.length : null
+      };
+    },
+
+    countGrid: async (columns, filters, skip) => {
+      const { records, hookData } = await gridRows();
+      const groups = new Map<string, any>();
+      filterRecords(records, filters, hookData, skip).forEach(record => {
+        const row = toGridRow(record, hookData);
+        const picked = Object.fromEntries(columns.map(c => [c, row[c] ?? null]));
+        const key = JSON.stringify(picked);
+        const group = groups.get(key);
+        if (group) group.count += 1;
+        else groups.set(key, { ...picked, count: 1 });
+      });
+      return { data: [...groups.values()], error: null };
+    }
+  };
+};
@@ -0,0 +1,155 @@
+import { RecordItem, InfraReferenceItem, QueuedWrite } from '../types';
+
+// IndexedDB copy of what the app last read from Supabase, plus the outbox of writes made offline.
+// Every call resolves even without IndexedDB (private windows, old browsers); the cache is best effort.
+
+const DB_NAME = 'rms-offline';
+const DB_VERSION = 1;
+
+type StoreName = 'records' | 'infra' | 'hookData' | 'outbox';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore('records', { keyPath: 'id' });
+        db.createObjectStore('infra', { keyPath: 'id' });
+        db.createObjectStore('hookData', { keyPath: 'plot' });
+        db.createObjectStore('outbox', { keyPath: 'seq', autoIncrement: true });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        console.error('Error opening offline cache:', req.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs `work` in one transaction and resolves with its result once the transaction commits,
+ * or with `fallback` if it fails, is aborted (e.g. over quota) or cannot be started at all.
+ */
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  work: (s: IDBObjectStore) => IDBRequest<T> | void,
+  fallback: T
+): Promise<T> => {
+  const db = await openDb();
+  if (!db) return fallback;
+  return new Promise(resolve => {
+    const failed = (error: unknown) => {
+      console.error(`Error accessing offline ${store}:`, error);
+      resolve(fallback);
+    };
+    try {
+      const tx = db.transaction(store, mode);
+      const req = work(tx.objectStore(store));
+      tx.oncomplete = () => resolve(req ? req.result : fallback);
+      // A failed request aborts its transaction, so this covers errors as well.
+      tx.onabort = () => failed(tx.error);
+    } catch (error) {
+      failed(error);
+    }
+  });
+};
+
+const normalizePlot = (p: string | number | null | undefined): string => String(p || '').trim().toUpperCase();
+
+// --- Records ---
+
+/**
+ * Replaces the cached records with a fresh full read.
+ */
+export const cacheRecords = (records: RecordItem[]) =>
+  withStore('records', 'readwrite', s => {
+    s.clear();
+    records.forEach(r => s.put(r));
+  }, undefined);
+
+/**
+ * Adds or refreshes records from a partial read, leaving the rest of the cache as it is.
+ */
+export const putCachedRecords = (records: RecordItem[]) =>
+  withStore('records', 'readwrite', s => {
+    records.forEach(r => s.put(r));
+  }, undefined);
+
+export const getCachedRecords = () =>
+  withStore<RecordItem[]>('records', 'readonly', s => s.getAll(), []);
+
+export const getCachedRecord = async (id: string): Promise<RecordItem | null> =>
+  (await withStore<RecordItem | undefined>('records', 'readonly', s => s.get(id), undefined)) || null;
+
+export const putCachedRecord = (record: RecordItem) =>
+  withStore('records', 'readwrite', s => { s.put(record); }, undefined);
+
+export const removeCachedRecord = (id: string) =>
+  withStore('records', 'readwrite', s => { s.delete(id); }, undefined);
+
+// --- Infra references and Infra Hook ---
+
+export const cacheInfraReferences = (items: InfraReferenceItem[]) =>
+  withStore('infra', 'readwrite', s => {
+    items.forEach(item => s.put(item));
+  }, undefined);
+
+export const removeCachedInfraReference = (id: string) =>
+  withStore('infra', 'readwrite', s => { s.delete(id); }, undefined);
+
+export const searchCachedInfraReferences = async (plotNumber: string, limit = 20): Promise<InfraReferenceItem[]> => {
+  const term = normalizePlot(plotNumber);
+  const all = await withStore<InfraReferenceItem[]>('infra', 'readonly', s => s.getAll(), []);
+  return all.filter(item => normalizePlot(item.plotNumber).includes(term)).slice(0, limit);
+};
+
+export const cacheHookData = (hookData: Record<string, { appNo: string, isPaid: boolean }>) =>
+  withStore('hookData', 'readwrite', s => {
+    Object.entries(hookData).forEach(([plot, hook]) => s.put({ plot, ...hook }));
+  }, undefined);
+
+/**
+ * Cached Infra Hook entries; with `plots` only those plots, otherwise every cached plot.
+ */
+export const getCachedHookData = async (plots?: string[]): Promise<Record<string, { appNo: string, isPaid: boolean }>> => {
+  const rows = await withStore<{ plot: string, appNo: string, isPaid: boolean }[]>('hookData', 'readonly', s => s.getAll(), []);
+  const wanted = plots ? new Set(plots.map(normalizePlot)) : null;
+  return rows.reduce((acc, { plot, appNo, isPaid }) => {
+    if (!wanted || wanted.has(plot)) acc[plot] = { appNo, isPaid };
+    return acc;
+  }, {} as Record<string, { appNo: string, isPaid: boolean }>);
+};
+
+/**
+ * Drops everything read into the cache, e.g. on sign-out. The outbox is kept: each queued write
+ * carries its author and waits for their next session.
+ */
+export const clearCachedReads = async () => {
+  await withStore('records', 'readwrite', s => { s.clear(); }, undefined);
+  await withStore('infra', 'readwrite', s => { s.clear(); }, undefined);
+  await withStore('hookData', 'readwrite', s => { s.clear(); }, undefined);
+};
+
+// --- Outbox ---
+
+export const enqueueWrite = (write: QueuedWrite) =>
+  withStore('outbox', 'readwrite', s => { s.add(write); }, undefined);
+
+/**
+ * Queued writes, oldest first.
+ */
+export const getQueuedWrites = () =>
+  withStore<QueuedWrite[]>('outbox', 'readonly', s => s.getAll(), []);
+
+export const replaceQueuedWrite = (write: QueuedWrite) =>
+  withStore('outbox', 'readwrite', s => { s.put(write); }, undefined);
+
+export const removeQueuedWrite = (seq: number) =>
+  withStore('outbox', 'readwrite', s => { s.delete(seq); }, undefined);
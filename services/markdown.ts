@@ -0,0 +1,162 @@
+/**
+ * The Markdown subset reports use, parsed once into blocks so the viewer, the printable page and
+ * the .docx export all render the same structure: headings, paragraphs, nested lists, tables,
+ * code blocks and rules, with bold, italic and inline code inside them.
+ */
+
+export interface MarkdownSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export interface MarkdownListItem {
+  depth: number;             // 0 for top-level items
+  spans: MarkdownSpan[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading', level: number, spans: MarkdownSpan[] }
+  | { type: 'paragraph', spans: MarkdownSpan[] }
+  | { type: 'list', ordered: boolean, items: MarkdownListItem[] }
+  | { type: 'table', header: MarkdownSpan[][], rows: MarkdownSpan[][][] }
+  | { type: 'code', text: string }
+  | { type: 'rule' };
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|`([^`]+)`|\*([^*\s](?:[^*]*[^*\s])?)\*/g;
+
+export const parseInline = (text: string): MarkdownSpan[] => {
+  const spans: MarkdownSpan[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    if (match.index! > last) spans.push({ text: text.slice(last, match.index) });
+    if (match[1] !== undefined) spans.push({ text: match[1].replace(/\*/g, ''), bold: true });
+    else if (match[2] !== undefined) spans.push({ text: match[2], code: true });
+    else spans.push({ text: match[3], italic: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < text.length) spans.push({ text: text.slice(last) });
+  return spans;
+};
+
+export const spansToText = (spans: MarkdownSpan[]): string => spans.map(s => s.text).join('');
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*(:?-{3,}:?\s*)?$/;
+const FENCE = /^\s*```/;
+
+const tableCells = (line: string) =>
+  line.trim().replace(/^\||\|$/g, '').split('|').map(cell => parseInline(cell.trim()));
+
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', spans: parseInline(paragraph.join(' ')) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, spans: parseInline(heading[2]) });
+      continue;
+    }
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+    if (TABLE_ROW.test(line)) {
+      flushParagraph();
+      const rows: MarkdownSpan[][][] = [];
+      for (; i < lines.length && TABLE_ROW.test(lines[i]); i++) {
+        if (!TABLE_SEPARATOR.test(lines[i])) rows.push(tableCells(lines[i]));
+      }
+      i--;
+      blocks.push({ type: 'table', header: rows[0] || [], rows: rows.slice(1) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const items: MarkdownListItem[] = [];
+      const ordered = /\d/.test(item[2]);
+      for (; i < lines.length && lines[i].trim(); i++) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next) items.push({ depth: Math.floor(next[1].replace(/\t/g, '  ').length / 2), spans: parseInline(next[3]) });
+        else if (/^\s+/.test(lines[i])) {
+          // An indented continuation of the previous item.
+          const prev = items[items.length - 1];
+          prev.spans = parseInline(`${spansToText(prev.spans)} ${lines[i].trim()}`);
+        } else break;
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    paragraph.push(line.replace(/^\s*>\s?/, '').trim());
+  }
+  flushParagraph();
+  return blocks;
+};
+
+const escapeHtml = (value: any) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const spansToHtml = (spans: MarkdownSpan[]) => spans.map(span => {
+  const text = escapeHtml(span.text);
+  if (span.code) return `<code>${text}</code>`;
+  if (span.bold) return `<strong>${text}</strong>`;
+  if (span.italic) return `<em>${text}</em>`;
+  return text;
+}).join('');
+
+/**
+ * Renders parsed blocks as HTML; everything is escaped, so model output can't inject markup.
+ */
+export const blocksToHtml = (blocks: MarkdownBlock[]): string => blocks.map(block => {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${spansToHtml(block.spans)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p>${spansToHtml(block.spans)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li style="margin-left:${item.depth * 1.5}em">${spansToHtml(item.spans)}</li>`).join('')}</${tag}>`;
+    }
+    case 'table':
+      return `<table><thead><tr>${block.header.map(cell => `<th>${spansToHtml(cell)}</th>`).join('')}</tr></thead>` +
+        `<tbody>${block.rows.map(row => `<tr>${row.map(cell => `<td>${spansToHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+    case 'code':
+      return `<pre>${escapeHtml(block.text)}</pre>`;
+    case 'rule':
+      return '<hr />';
+  }
+}).join('\n');
@@ -0,0 +1,161 @@
+import { RecordItem } from '../types';
+import { STATUS_OPTIONS } from './recordFilters';
+import { AGING_BUCKETS, agingByStage } from './analyticsService';
+import { evaluateSla } from './slaService';
+
+const PASSED_STATUS = 'Passed';
+
+// Record lines sent with each question; the rest of the portfolio only reaches the model as counts.
+export const MAX_CONTEXT_RECORDS = 40;
+const MAX_GROUP_VALUES = 15;
+
+// Fields a question is matched against when picking the records to list.
+const SEARCHED_FIELDS: (keyof RecordItem)[] = [
+  'label', 'referenceNumber', 'plotNumber', 'status', 'zone', 'block', 'governorate', 'jobType',
+  'planningEngineer', 'constructionEngineer', 'nominatedContractor', 'wayleaveNumber'
+];
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'are', 'for', 'how', 'many', 'much', 'what', 'which', 'who', 'with', 'that', 'this',
+  'have', 'has', 'from', 'there', 'any', 'all', 'show', 'list', 'give', 'tell', 'about', 'project', 'projects',
+  'record', 'records', 'than', 'more', 'most', 'least', 'does', 'into', 'per', 'each', 'our', 'still'
+]);
+
+export interface PortfolioContext {
+  summary: string;           // Aggregates over every record
+  records: RecordItem[];     // Records listed line by line, most relevant first
+  text: string;              // Summary plus the record lines, as sent to the model
+}
+
+const sameText = (a?: string | null, b?: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+export const isOpenRecord = (record: RecordItem) => !sameText(record.status, PASSED_STATUS);
+
+/**
+ * "value n" pairs for a field, most frequent first, with the tail folded into "Other".
+ */
+const countBy = (records: RecordItem[], key: keyof RecordItem, limit = MAX_GROUP_VALUES): string => {
+  const counts = new Map<string, number>();
+  records.forEach(record => {
+    const value = String(record[key] ?? '').trim() || 'Unassigned';
+    counts.set(value, (counts.get(value) || 0) + 1);
+  });
+  const sorted = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const shown = sorted.length > limit ? sorted.slice(0, limit - 1) : sorted;
+  const other = sorted.slice(shown.length).reduce((n, [, count]) => n + count, 0);
+  return [...shown.map(([value, count]) => `${value} ${count}`), ...(other ? [`Other ${other}`] : [])].join(', ') || 'none';
+};
+
+/**
+ * Words of the question worth matching: three letters or more, or anything with a digit
+ * (blocks and plots are short numbers).
+ */
+export const questionTerms = (question: string): string[] =>
+  [...new Set(question.toLowerCase().split(/[^\p{L}\p{N}/-]+/u))]
+    .filter(term => (term.length >= 3 || /\d/.test(term)) && !STOP_WORDS.has(term));
+
+/**
+ * The records worth listing for a question: those matching most of its terms first, then the
+ * open records that have sat longest in their stage.
+ */
+export const selectContextRecords = (
+  records: RecordItem[],
+  question: string,
+  daysInStage: (record: RecordItem) => number,
+  limit = MAX_CONTEXT_RECORDS
+): RecordItem[] => {
+  const terms = questionTerms(question);
+  const scored = terms.length === 0 ? [] : records
+    .map(record => {
+      const values = SEARCHED_FIELDS.map(f => String(record[f] ?? '').toLowerCase()).filter(Boolean);
+      return { record, score: terms.filter(term => values.some(v => v.includes(term))).length };
+    })
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score || daysInStage(b.record) - daysInStage(a.record))
+    .map(s => s.record);
+
+  const picked = scored.slice(0, limit);
+  const ids = new Set(picked.map(r => r.id));
+  const oldest = records
+    .filter(r => isOpenRecord(r) && !ids.has(r.id))
+    .sort((a, b) => daysInStage(b) - daysInStage(a));
+  return [...picked, ...oldest.slice(0, limit - picked.length)];
+};
+
+const recordLine = (record: RecordItem, days: number) => [
+  record.referenceNumber,
+  record.label,
+  record.status,
+  isOpenRecord(record) ? `${days}d in stage` : 'done',
+  `zone ${record.zone || '-'}`,
+  record.governorate || '-',
+  record.jobType || '-',
+  `eng ${record.planningEngineer || '-'}`,
+  record.urgent ? 'URGENT' : ''
+].filter(Boolean).join(' | ');
+
+/**
+ * Compacts the whole portfolio for a question: counts by status, zone, engineer, governorate and
+ * job type, how long open records have sat in their stage, and up to MAX_CONTEXT_RECORDS record
+ * lines picked for the question. Stage entry times are the ones the SLA alerts use.
+ */
+export const buildPortfolioContext = (
+  records: RecordItem[],
+  stageEntryTimes: Record<string, string>,
+  question: string,
+  now = Date.now()
+): PortfolioContext => {
+  const days = new Map(records.map(r => [r.id, evaluateSla(r, [], stageEntryTimes[r.id], now).daysInStage]));
+  const daysInStage = (record: RecordItem) => days.get(record.id) || 0;
+  const open = records.filter(isOpenRecord);
+
+  const otherStatuses = records.filter(r => !STATUS_OPTIONS.some(s => sameText(s, r.status)));
+  const byStatus = STATUS_OPTIONS
+    .map(stage => `${stage} ${records.filter(r => sameText(r.status, stage)).length}`)
+    .concat(otherStatuses.length ? [`Other ${otherStatuses.length}`] : [])
+    .join(', ');
+
+  const aging = agingByStage(records, stageEntryTimes, now)
+    .map(row => `${row.stage}: ${AGING_BUCKETS.map(b => `${b.label} ${row[b.label]}`).join(', ')}`);
+
+  const summary = [
+    `Snapshot: ${new Date(now).toISOString().split('T')[0]}`,
+    `Total records: ${records.length} (open ${open.length}, passed ${records.length - open.length}, urgent open ${open.filter(r => r.urgent).length})`,
+    `By status: ${byStatus}`,
+    `By zone: ${countBy(records, 'zone')}`,
+    `Open by zone: ${countBy(open, 'zone')}`,
+    `Open by planning engineer: ${countBy(open, 'planningEngineer')}`,
+    `Open by construction engineer: ${countBy(open, 'constructionEngineer')}`,
+    `By governorate: ${countBy(records, 'governorate')}`,
+    `By job type: ${countBy(records, 'jobType')}`,
+    'Days in current stage (open records):',
+    ...aging.map(line => `  ${line}`)
+  ].join('\n');
+
+  const listed = selectContextRecords(records, question, daysInStage);
+  const lines = listed.map(r => recordLine(r, daysInStage(r)));
+  const text = [
+    'PORTFOLIO SUMMARY',
+    summary,
+    '',
+    `RECORDS (${listed.length} of ${records.length}; reference | project | status | age | zone | governorate | job type | planning engineer)`,
+    ...lines
+  ].join('\n');
+
+  return { summary, records: listed, text };
+};
+
+/**
+ * The records behind an answer's cited reference numbers, in citation order. Unknown references are dropped.
+ */
+export const citedRecords = (references: string[], records: RecordItem[]): RecordItem[] => {
+  const byRef = new Map(records.filter(r => r.referenceNumber).map(r => [r.referenceNumber.trim().toLowerCase(), r]));
+  const seen = new Set<string>();
+  return references.flatMap(ref => {
+    const record = byRef.get(ref.trim().toLowerCase());
+    if (!record || seen.has(record.id)) return [];
+    seen.add(record.id);
+    return [record];
+  });
+};
@@ -0,0 +1,50 @@
+import { LLMProvider, LLMProviderKind, getLLMProvider } from './llmProvider';
+import { createTemplateProvider } from './templateProvider';
+import { RecordQuery, QueryVocabulary, normalizeRecordQuery } from './recordQuery';
+import { STATUS_OPTIONS, FACET_KEYS, FACET_LABELS } from './recordFilters';
+
+// Known values listed per facet in the prompt; beyond this the model has to spell them itself.
+const MAX_PROMPT_VALUES = 60;
+
+export interface InterpretedQuery {
+  query: RecordQuery;
+  interpretedBy: LLMProviderKind;
+}
+
+export const recordQueryPrompt = (text: string, vocabulary: QueryVocabulary): string => `
+Translate a search over electricity connection projects into a JSON filter.
+
+Stages: ${STATUS_OPTIONS.join(', ')}.
+Facets and the values stored for them:
+${FACET_KEYS.map(facet => `- ${facet} (${FACET_LABELS[facet]}): ${(vocabulary[facet] || []).slice(0, MAX_PROMPT_VALUES).join(' | ') || 'any'}`).join('\n')}
+
+Reply with JSON only, in this shape:
+{"status": stage or null, "facets": {facet: [values]}, "olderThanDays": number or null, "newerThanDays": number or null, "text": string}
+
+- Use stored values exactly as listed; a person's first name means every listed engineer with that name.
+- "urgent" is facets.urgent ["Yes"]; paid/unpaid infra is facets.infraHook ["Paid"] or ["Unpaid"].
+- Ages are days since the project was created: "older than 30 days" is olderThanDays 30.
+- Put words that name a project, plot or reference number in "text"; leave it empty otherwise.
+
+Search: ${JSON.stringify(text)}
+`;
+
+/**
+ * Turns a free-text search into a RecordQuery with the given provider (the configured one by default).
+ * A failing provider, or a reply that isn't JSON, falls back to the offline grammar parser.
+ */
+export const interpretRecordQuery = async (
+  text: string,
+  vocabulary: QueryVocabulary,
+  provider: LLMProvider = getLLMProvider()
+): Promise<InterpretedQuery> => {
+  const request = { task: 'recordQuery' as const, prompt: recordQueryPrompt(text, vocabulary), data: { text, vocabulary }, json: true as const };
+  try {
+    const reply = await provider.generate(request);
+    return { query: normalizeRecordQuery(JSON.parse(reply), vocabulary), interpretedBy: provider.kind };
+  } catch (error) {
+    console.error('Error interpreting search:', error);
+    const reply = await createTemplateProvider().generate(request);
+    return { query: normalizeRecordQuery(JSON.parse(reply), vocabulary), interpretedBy: 'template' };
+  }
+};
@@ -0,0 +1,110 @@
+import { supabase } from './supabaseClient';
+import { mapRecordRow } from './storageService';
+import { STORAGE_BACKEND_KIND } from './storageBackend';
+import { RecordItem, InfraReferenceItem, RealtimeChange, PresencePeer, User } from '../types';
+
+// Changes arriving within this window are delivered together, so a bulk import
+// from another session patches state once per burst rather than once per row.
+const BATCH_WINDOW_MS = 300;
+
+const subscribeToTable = <T>(
+  table: string,
+  mapRow: (row: any) => T,
+  onChanges: (changes: RealtimeChange<T>[]) => void
+): (() => void) => {
+  // The local backend has a single session, so there is nobody else's change to hear about.
+  if (STORAGE_BACKEND_KIND === 'local') return () => {};
+
+  let pending: RealtimeChange<T>[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    const changes = pending;
+    pending = [];
+    if (changes.length > 0) onChanges(changes);
+  };
+
+  const channel = supabase
+    .channel(`realtime-${table}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table }, (payload: any) => {
+      pending.push({
+        event: payload.eventType,
+        row: payload.eventType === 'DELETE' ? null : mapRow(payload.new),
+        old: payload.old || {}
+      });
+      if (!timer) timer = setTimeout(flush, BATCH_WINDOW_MS);
+    })
+    .subscribe((status, err) => {
+      if (status === 'CHANNEL_ERROR') console.error(`Error subscribing to ${table} changes:`, err);
+    });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Streams inserts, updates and deletes on `records` made by any session, mapped like getRecords.
+ * Returns the unsubscribe function.
+ */
+export const subscribeToRecords = (onChanges: (changes: RealtimeChange<RecordItem>[]) => void) =>
+  subscribeToTable<RecordItem>('records', mapRecordRow, onChanges);
+
+export const subscribeToInfraReferences = (onChanges: (changes: RealtimeChange<InfraReferenceItem>[]) => void) =>
+  subscribeToTable<InfraReferenceItem>('infra_references', row => row, onChanges);
+
+/**
+ * Applies a batch of record changes to a local list: updates replace in place,
+ * inserts are prepended (newest first, as getRecords orders them) and deletes drop out.
+ */
+export const applyRecordChanges = (records: RecordItem[], changes: RealtimeChange<RecordItem>[]): RecordItem[] =>
+  changes.reduce((list, change) => {
+    const id = change.row?.id || change.old.id;
+    if (change.event === 'DELETE') return list.filter(r => r.id !== id);
+    if (!change.row) return list;
+    const index = list.findIndex(r => r.id === id);
+    if (index === -1) return change.event === 'INSERT' ? [change.row, ...list] : list;
+    const next = [...list];
+    next[index] = change.row;
+    return next;
+  }, records);
+
+type PresenceMeta = { username: string, editingRecordId: string | null };
+
+/**
+ * Joins the shared presence channel so other sessions can see which record this user has open.
+ * `onSync` receives everyone else currently online.
+ */
+export const joinPresence = (user: User, onSync: (peers: PresencePeer[]) => void) => {
+  if (STORAGE_BACKEND_KIND === 'local') return { setEditing: (_recordId: string | null) => {}, leave: () => {} };
+
+  let meta: PresenceMeta = { username: user.username, editingRecordId: null };
+  let joined = false;
+
+  const channel = supabase.channel('record-presence', { config: { presence: { key: user.id } } });
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const state = channel.presenceState<PresenceMeta>();
+      const peers = Object.entries(state)
+        .filter(([userId]) => userId !== user.id)
+        .flatMap(([userId, metas]) => metas.map(m => ({ userId, username: m.username, editingRecordId: m.editingRecordId })));
+      onSync(peers);
+    })
+    .subscribe(async status => {
+      if (status !== 'SUBSCRIBED') return;
+      joined = true;
+      await channel.track(meta);
+    });
+
+  return {
+    setEditing: (recordId: string | null) => {
+      meta = { ...meta, editingRecordId: recordId };
+      if (joined) channel.track(meta);
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+};
@@ -0,0 +1,171 @@
+import { RecordItem, FacetKey, DateFacetKey, DateRange, GridViewFilters, FacetCount } from '../types';
+import { parseDateSafe } from './importService';
+
+type InfraHookData = Record<string, { appNo: string, isPaid: boolean }>;
+
+export const ALL_STATUSES_TAB = "All Projects";
+
+// Dashboard stages in pipeline order.
+export const STATUS_OPTIONS = ["In Design", "GIS", "WL / GSN", "USP", "Passed"];
+
+export const BLANK_FACET_VALUE = '(blank)';
+
+export const FACET_LABELS: Record<FacetKey, string> = {
+  zone: 'Zone',
+  block: 'Block',
+  governorate: 'Governorate',
+  jobType: 'Job Type',
+  phase: 'Phase',
+  planningEngineer: 'Planning Engineer',
+  constructionEngineer: 'Construction Engineer',
+  contractor: 'Contractor',
+  urgent: 'Urgent',
+  infraHook: 'Infra Paid'
+};
+
+export const DATE_FACET_LABELS: Record<DateFacetKey, string> = {
+  scheduleStartDate: 'Schedule Start',
+  paymentDate: 'Payment Date',
+  createdAt: 'Created'
+};
+
+// The record_grid columns behind each facet; Contractor spans three.
+export const FACET_COLUMNS: Record<FacetKey, string[]> = {
+  zone: ['zone'],
+  block: ['block'],
+  governorate: ['governorate'],
+  jobType: ['jobType'],
+  phase: ['phase'],
+  planningEngineer: ['planningEngineer'],
+  constructionEngineer: ['constructionEngineer'],
+  contractor: ['nominatedContractor', 'mtcContractor', 'installationContractor'],
+  urgent: ['urgent'],
+  infraHook: ['infraHook']
+};
+
+export const FACET_KEYS = Object.keys(FACET_LABELS) as FacetKey[];
+export const DATE_FACET_KEYS = Object.keys(DATE_FACET_LABELS) as DateFacetKey[];
+
+export const EMPTY_FILTERS: GridViewFilters = { status: ALL_STATUSES_TAB, search: '', facets: {}, dateRanges: {} };
+
+const normalizePlot = (s: any) => String(s || '').trim().toUpperCase();
+
+/**
+ * The values a record contributes to a facet. Contractor spans the three contractor columns,
+ * so one record can count under several contractors.
+ */
+export const facetValuesOf = (record: RecordItem, facet: FacetKey, hookData: InfraHookData): string[] => {
+  if (facet === 'urgent') return [record.urgent ? 'Yes' : 'No'];
+  if (facet === 'infraHook') {
+    const hook = hookData[normalizePlot(record.plotNumber)];
+    return [hook ? (hook.isPaid ? 'Paid' : 'Unpaid') : 'No Infra Record'];
+  }
+  const raw = facet === 'contractor'
+    ? [record.nominatedContractor, record.mtcContractor, record.installationContractor]
+    : [record[facet]];
+  const values = [...new Set(raw.map(v => String(v ?? '').trim()).filter(Boolean))];
+  return values.length > 0 ? values : [BLANK_FACET_VALUE];
+};
+
+// Case-insensitive on every side; the plot number is stored upper-cased.
+export const matchesSearch = (record: RecordItem, term: string): boolean => {
+  const lowerTerm = term.trim().toLowerCase();
+  if (!lowerTerm) return true;
+  return [record.label, record.plotNumber, record.referenceNumber]
+    .some(value => String(value || '').toLowerCase().includes(lowerTerm));
+};
+
+const inRange = (value: string | undefined, range: DateRange): boolean => {
+  if (!range.from && !range.to) return true;
+  const day = parseDateSafe(value);
+  if (!day) return false;
+  return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+};
+
+const matchesStatus = (record: RecordItem, status: string) =>
+  status === ALL_STATUSES_TAB || (record.status || '').toLowerCase() === status.toLowerCase();
+
+/**
+ * Applies the filters. `skip` leaves one part out, which is how facet and tab counts stay
+ * live: each facet is counted against every other active filter but not against itself.
+ */
+export const filterRecords = (
+  records: RecordItem[],
+  filters: GridViewFilters,
+  hookData: InfraHookData,
+  skip?: FacetKey | 'status'
+): RecordItem[] => {
+  const facets = Object.entries(filters.facets || {}).filter(([key, values]) => key !== skip && values && values.length > 0) as [FacetKey, string[]][];
+  const ranges = Object.entries(filters.dateRanges || {}).filter(([, range]) => range && (range.from || range.to)) as [DateFacetKey, DateRange][];
+
+  return records.filter(record =>
+    (skip === 'status' || matchesStatus(record, filters.status)) &&
+    matchesSearch(record, filters.search) &&
+    facets.every(([facet, selected]) => facetValuesOf(record, facet, hookData).some(v => selected.includes(v))) &&
+    ranges.every(([field, range]) => inRange(record[field], range))
+  );
+};
+
+/**
+ * Orders a facet's value counts most frequent first. Selected values stay listed
+ * even when nothing matches them any more, so they can still be unticked.
+ */
+export const rankFacetCounts = (counts: Map<string, number>, selected: string[] = []): FacetCount[] => {
+  selected.forEach(v => { if (!counts.has(v)) counts.set(v, 0); });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+/**
+ * Value counts per facet, each computed with that facet's own selection lifted.
+ */
+export const countFacets = (records: RecordItem[], filters: GridViewFilters, hookData: InfraHookData) =>
+  FACET_KEYS.reduce((acc, facet) => {
+    const counts = new Map<string, number>();
+    filterRecords(records, filters, hookData, facet).forEach(record =>
+      facetValuesOf(record, facet, hookData).forEach(v => counts.set(v, (counts.get(v) || 0) + 1))
+    );
+    acc[facet] = rankFacetCounts(counts, filters.facets?.[facet]);
+    return acc;
+  }, {} as Record<FacetKey, FacetCount[]>);
+
+export const activeFilterCount = (filters: GridViewFilters): number =>
+  Object.values(filters.facets || {}).reduce((n, values) => n + (values?.length || 0), 0) +
+  Object.values(filters.dateRanges || {}).filter(r => r && (r.from || r.to)).length;
+
+/**
+ * Encodes filters as query parameters: `tab`, `q`, one repeated parameter per facet value,
+ * and `<dateField>=from..to` for ranges, e.g. `?tab=GIS&zone=A&zone=B&createdAt=2024-01-01..`.
+ */
+export const encodeFilters = (filters: GridViewFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.status && filters.status !== ALL_STATUSES_TAB) params.set('tab', filters.status);
+  if (filters.search) params.set('q', filters.search);
+  FACET_KEYS.forEach(facet => (filters.facets?.[facet] || []).forEach(v => params.append(facet, v)));
+  DATE_FACET_KEYS.forEach(field => {
+    const range = filters.dateRanges?.[field];
+    if (range && (range.from || range.to)) params.set(field, `${range.from || ''}..${range.to || ''}`);
+  });
+  return params.toString();
+};
+
+export const decodeFilters = (query: string): GridViewFilters => {
+  const params = new URLSearchParams(query);
+  const facets: Partial<Record<FacetKey, string[]>> = {};
+  FACET_KEYS.forEach(facet => {
+    const values = params.getAll(facet).filter(Boolean);
+    if (values.length > 0) facets[facet] = values;
+  });
+  const dateRanges: Partial<Record<DateFacetKey, DateRange>> = {};
+  DATE_FACET_KEYS.forEach(field => {
+    const [from, to] = (params.get(field) || '').split('..');
+    if (from || to) dateRanges[field] = { from: from || undefined, to: to || undefined };
+  });
+  return {
+    status: params.get('tab') || ALL_STATUSES_TAB,
+    search: params.get('q') || '',
+    facets,
+    dateRanges
+  };
+};
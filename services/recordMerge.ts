@@ -0,0 +1,49 @@
+import { RecordItem } from '../types';
+import { ALL_RECORD_COLUMNS, RecordColumn } from './recordSchema';
+import { diffRecordFields } from './historyService';
+
+export type MergeResolution = 'mine' | 'theirs' | 'same' | 'conflict';
+
+export interface MergeField {
+  field: RecordColumn;
+  base: any;                 // Value when the editor was opened
+  mine: any;                 // Value in the editor
+  theirs: any;               // Value stored by the other writer
+  resolution: MergeResolution;
+}
+
+const changed = (from: Partial<RecordItem>, to: Partial<RecordItem>) =>
+  new Set(diffRecordFields(from, to).map(c => c.field as RecordColumn));
+
+/**
+ * Three-way comparison of an edit against a concurrent save. Fields only one side touched resolve
+ * to that side; fields both sides set to the same value are 'same'; the rest are conflicts.
+ * Fields neither side changed are left out.
+ */
+export const mergeRecordEdits = (base: RecordItem, mine: Partial<RecordItem>, theirs: RecordItem): MergeField[] => {
+  const mineChanged = changed(base, mine);
+  const theirsChanged = changed(base, theirs);
+
+  return ALL_RECORD_COLUMNS
+    .filter(field => mineChanged.has(field) || theirsChanged.has(field))
+    .map(field => {
+      const resolution: MergeResolution = !theirsChanged.has(field) ? 'mine'
+        : !mineChanged.has(field) ? 'theirs'
+        : diffRecordFields({ [field]: theirs[field] }, { [field]: mine[field] }).length === 0 ? 'same'
+        : 'conflict';
+      return { field, base: base[field], mine: mine[field], theirs: theirs[field], resolution };
+    });
+};
+
+/**
+ * The update to write after merging: the stored record, with my value wherever the field resolved
+ * to mine or the user picked mine for a conflict.
+ */
+export const resolveMerge = (
+  theirs: RecordItem,
+  fields: MergeField[],
+  picks: Partial<Record<RecordColumn, 'mine' | 'theirs'>>
+): Partial<RecordItem> => fields.reduce((merged, f) => {
+  const takeMine = f.resolution === 'mine' || (f.resolution === 'conflict' && picks[f.field] === 'mine');
+  return takeMine ? { ...merged, [f.field]: f.mine } : merged;
+}, { ...theirs } as Partial<RecordItem>);
@@ -0,0 +1,212 @@
+import { FacetKey, GridViewFilters } from '../types';
+import { ALL_STATUSES_TAB, STATUS_OPTIONS, FACET_KEYS } from './recordFilters';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A dashboard search understood as a filter: a stage, facet values as stored, an age window on
+ * createdAt, and whatever text is left for the plain substring search.
+ */
+export interface RecordQuery {
+  status: string | null;
+  facets: Partial<Record<FacetKey, string[]>>;
+  olderThanDays: number | null;   // Created more than this many days ago
+  newerThanDays: number | null;   // Created within this many days
+  text: string;
+}
+
+// Known values per facet, used to resolve what a query names to what is actually stored.
+export type QueryVocabulary = Partial<Record<FacetKey, string[]>>;
+
+export const EMPTY_RECORD_QUERY: RecordQuery = { status: null, facets: {}, olderThanDays: null, newerThanDays: null, text: '' };
+
+// Spellings people use for each stage, longest first so "in design" wins over "design".
+const STATUS_ALIASES: [string, string][] = [
+  ['wl / gsn', 'WL / GSN'],
+  ['in design', 'In Design'],
+  ['wayleave', 'WL / GSN'],
+  ['completed', 'Passed'],
+  ['wl/gsn', 'WL / GSN'],
+  ['design', 'In Design'],
+  ['passed', 'Passed'],
+  ['done', 'Passed'],
+  ['gsn', 'WL / GSN'],
+  ['gis', 'GIS'],
+  ['usp', 'USP'],
+  ['wl', 'WL / GSN']
+];
+
+const UNIT_DAYS: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+// Words that glue a query together but carry no filter.
+const FILLER_WORDS = new Set([
+  'show', 'me', 'find', 'list', 'get', 'all', 'any', 'the', 'a', 'an', 'of', 'in', 'at', 'on', 'with', 'and', 'or',
+  'that', 'which', 'who', 'are', 'is', 'were', 'was', 'project', 'projects', 'record', 'records', 'job', 'jobs',
+  'stage', 'status', 'governorate', 'created', 'old', 'ago', 'please'
+]);
+
+// Words that end a captured name ("assigned to Ahmed in Muharraq").
+const NAME_STOP_WORDS = new Set(['in', 'at', 'on', 'with', 'and', 'or', 'older', 'newer', 'over', 'under', 'created', 'from', 'that', 'which', 'who', 'urgent', 'zone', 'block', 'phase']);
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const titleCase = (s: string) => s.replace(/\b\p{L}/gu, c => c.toUpperCase());
+
+const addValues = (query: RecordQuery, facet: FacetKey, values: string[]) => {
+  const current = query.facets[facet] || [];
+  query.facets[facet] = [...current, ...values.filter(v => !current.includes(v))];
+};
+
+/**
+ * The stored values a term refers to: an exact (case-insensitive) match, else every value that
+ * contains it as a whole word, so "Ahmed" finds "Ahmed Ali" and "Ahmed Hasan". Empty when nothing matches.
+ */
+export const resolveFacetValue = (facet: FacetKey, term: string, vocabulary: QueryVocabulary): string[] => {
+  const wanted = term.trim().toLowerCase();
+  if (!wanted) return [];
+  const known = vocabulary[facet] || [];
+  const exact = known.find(v => v.toLowerCase() === wanted);
+  if (exact) return [exact];
+  const word = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(wanted)}($|[^\\p{L}\\p{N}])`, 'iu');
+  return known.filter(v => word.test(v));
+};
+
+export const canonicalStatus = (value: string): string | null =>
+  STATUS_OPTIONS.find(s => s.toLowerCase() === value.trim().toLowerCase()) ||
+  STATUS_ALIASES.find(([alias]) => alias === value.trim().toLowerCase())?.[1] ||
+  null;
+
+/**
+ * The offline parser. Reads stages, urgency, infra payment, ages ("older than 30 days",
+ * "in the last 2 weeks"), engineers ("assigned to Ahmed"), zones, blocks and phases, and any
+ * known governorate, job type, zone or contractor named in the text. What it cannot place is left as search text.
+ */
+export const parseRecordQuery = (input: string, vocabulary: QueryVocabulary): RecordQuery => {
+  const query: RecordQuery = { ...EMPTY_RECORD_QUERY, facets: {} };
+  let rest = ` ${input.toLowerCase().replace(/\s+/g, ' ')} `;
+
+  // Replaces each match with whatever the handler hands back (a space by default), so consumed words can't match twice.
+  const consume = (pattern: RegExp, handle: (match: string[]) => string | void) => {
+    rest = rest.replace(pattern, (...args) => handle(args.slice(0, -2)) ?? ' ');
+  };
+
+  consume(/\b(?:older than|more than|over|at least)\s+(\d+)\s*(day|week|month|year)s?(?:\s+old)?\b/g, m => {
+    query.olderThanDays = Number(m[1]) * UNIT_DAYS[m[2]];
+  });
+  consume(/\b(\d+)\+?\s*(day|week|month|year)s?\s+old\b/g, m => {
+    query.olderThanDays = Number(m[1]) * UNIT_DAYS[m[2]];
+  });
+  consume(/\b(?:newer than|less than|under|within|in the last|in the past|last|past)\s+(\d+)\s*(day|week|month|year)s?(?:\s+old)?\b/g, m => {
+    query.newerThanDays = Number(m[1]) * UNIT_DAYS[m[2]];
+  });
+
+  consume(/\b(?:not urgent|non-?urgent)\b/g, () => addValues(query, 'urgent', ['No']));
+  consume(/\burgent\b/g, () => addValues(query, 'urgent', ['Yes']));
+  consume(/\bno infra(?:structure)? record\b/g, () => addValues(query, 'infraHook', ['No Infra Record']));
+  consume(/\b(?:infra(?:structure)? )?unpaid\b/g, () => addValues(query, 'infraHook', ['Unpaid']));
+  consume(/\b(?:infra(?:structure)? )?paid\b/g, () => addValues(query, 'infraHook', ['Paid']));
+
+  consume(/\b(?:assigned to|handled by|owned by|engineer|planner)\s+([\p{L}.'-]+(?:\s+[\p{L}.'-]+)?)/gu, m => {
+    const words = m[1].split(' ');
+    const stopped = words.length > 1 && NAME_STOP_WORDS.has(words[1]);
+    const name = stopped ? words[0] : m[1];
+    const planning = resolveFacetValue('planningEngineer', name, vocabulary);
+    const construction = planning.length ? [] : resolveFacetValue('constructionEngineer', name, vocabulary);
+    if (construction.length) addValues(query, 'constructionEngineer', construction);
+    else addValues(query, 'planningEngineer', planning.length ? planning : [titleCase(name)]);
+    return stopped ? ` ${words[1]} ` : ' ';
+  });
+
+  consume(/\bzone\s+([\p{L}\p{N}-]+)/gu, m => {
+    const zones = resolveFacetValue('zone', m[1], vocabulary);
+    addValues(query, 'zone', zones.length ? zones : [m[1].toUpperCase()]);
+  });
+  consume(/\bblock\s+(\d+)\b/g, m => addValues(query, 'block', [resolveFacetValue('block', m[1], vocabulary)[0] || m[1]]));
+  consume(/\bphase\s+([\p{L}\p{N}-]+)/gu, m => addValues(query, 'phase', [resolveFacetValue('phase', m[1], vocabulary)[0] || m[1]]));
+
+  for (const [alias, status] of STATUS_ALIASES) {
+    const pattern = new RegExp(`(^|\\s)${escapeRegExp(alias)}(?=\\s)`);
+    if (!query.status && pattern.test(rest)) {
+      query.status = status;
+      rest = rest.replace(pattern, ' ');
+    }
+  }
+
+  // Known values named outright, longest first so "North Muharraq" beats "Muharraq".
+  const named: [FacetKey, string][] = (['governorate', 'jobType', 'zone', 'contractor'] as FacetKey[])
+    .flatMap(facet => (vocabulary[facet] || []).filter(v => v.length >= 3).map(v => [facet, v] as [FacetKey, string]))
+    .sort((a, b) => b[1].length - a[1].length);
+  named.forEach(([facet, value]) => {
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(value.toLowerCase())}(?=$|[^\\p{L}\\p{N}])`, 'u');
+    if (pattern.test(rest)) {
+      addValues(query, facet, [value]);
+      rest = rest.replace(pattern, ' ');
+    }
+  });
+
+  // "in Muharraq" for a place only known as part of a longer value ("Muharraq Governorate").
+  consume(/\bin\s+(\p{L}[\p{L}'-]+)/gu, m => {
+    if (FILLER_WORDS.has(m[1])) return m[0];
+    const governorates = resolveFacetValue('governorate', m[1], vocabulary);
+    const zones = governorates.length ? [] : resolveFacetValue('zone', m[1], vocabulary);
+    if (governorates.length) addValues(query, 'governorate', governorates);
+    else if (zones.length) addValues(query, 'zone', zones);
+    else return m[0];
+  });
+
+  query.text = rest.split(/\s+/).filter(word => word && !FILLER_WORDS.has(word) && !/^(days?|weeks?|months?|years?)$/.test(word)).join(' ');
+  return query;
+};
+
+/**
+ * Checks a query that came back from a model: unknown stages and facets are dropped, ages must be
+ * positive whole days, and facet values are resolved to stored values where possible. Values that
+ * resolve to nothing are kept as given, so the chips can show them as unmatched.
+ */
+export const normalizeRecordQuery = (raw: any, vocabulary: QueryVocabulary): RecordQuery => {
+  const days = (value: any) => {
+    const n = Math.round(Number(value));
+    return Number.isFinite(n) && n > 0 ? n : null;
+  };
+  const facets: Partial<Record<FacetKey, string[]>> = {};
+  Object.entries(raw?.facets || {}).forEach(([facet, values]) => {
+    if (!FACET_KEYS.includes(facet as FacetKey) || !Array.isArray(values)) return;
+    const resolved = values
+      .map(v => String(v ?? '').trim())
+      .filter(Boolean)
+      .flatMap(v => {
+        const matches = resolveFacetValue(facet as FacetKey, v, vocabulary);
+        return matches.length ? matches : [v];
+      });
+    if (resolved.length) facets[facet as FacetKey] = [...new Set(resolved)];
+  });
+  return {
+    status: typeof raw?.status === 'string' ? canonicalStatus(raw.status) : null,
+    facets,
+    olderThanDays: days(raw?.olderThanDays),
+    newerThanDays: days(raw?.newerThanDays),
+    text: typeof raw?.text === 'string' ? raw.text.trim() : ''
+  };
+};
+
+export const isUnmatchedValue = (facet: FacetKey, value: string, vocabulary: QueryVocabulary): boolean =>
+  !(vocabulary[facet] || []).includes(value);
+
+const dayString = (time: number) => new Date(time).toISOString().split('T')[0];
+
+/**
+ * The dashboard filters a query stands for. Ages become a createdAt range counted back from `now`.
+ */
+export const recordQueryToFilters = (query: RecordQuery, now = Date.now()): GridViewFilters => ({
+  status: query.status || ALL_STATUSES_TAB,
+  search: query.text,
+  facets: query.facets,
+  dateRanges: query.olderThanDays || query.newerThanDays
+    ? {
+        createdAt: {
+          from: query.newerThanDays ? dayString(now - query.newerThanDays * DAY_MS) : undefined,
+          to: query.olderThanDays ? dayString(now - query.olderThanDays * DAY_MS) : undefined
+        }
+      }
+    : {}
+});
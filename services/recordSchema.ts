@@ -0,0 +1,137 @@
+import { supabase } from './supabaseClient';
+import { RecordItem } from '../types';
+
+// Columns the database maintains itself; they are read back but never written.
+export type SystemColumn = 'rowVersion' | 'updatedAt' | 'planningEngineerId' | 'supervisorId';
+export const SYSTEM_COLUMNS: SystemColumn[] = ['rowVersion', 'updatedAt', 'planningEngineerId', 'supervisorId'];
+
+export type RecordColumn = Exclude<keyof RecordItem, 'id' | SystemColumn>;
+export type ColumnKind = 'text' | 'boolean' | 'timestamp';
+
+/**
+ * Every persisted RecordItem property and the storage kind of its column.
+ * Keyed by RecordColumn so adding a field to RecordItem without mapping it here fails to compile.
+ */
+export const RECORD_COLUMNS: Record<RecordColumn, ColumnKind> = {
+  label: 'text',
+  subtype: 'text',
+  type: 'text',
+  status: 'text',
+  phase: 'text',
+  block: 'text',
+  zone: 'text',
+  scheduleStartDate: 'timestamp',
+  scheduleEndDate: 'text',
+  userConnected: 'text',
+  createdBy: 'text',
+  capitalContribution: 'text',
+  nominatedContractor: 'text',
+  urgent: 'boolean',
+  lastShutdown: 'text',
+  planningEngineer: 'text',
+  constructionEngineer: 'text',
+  supervisor: 'text',
+  wayleaveNumber: 'text',
+  plannedTotalCost: 'text',
+  plannedMaterialCost: 'text',
+  plannedServiceCost: 'text',
+  paymentDate: 'text',
+  totalPower: 'text',
+  contractorAssignDate: 'text',
+  workOrder: 'text',
+  plotNumber: 'text',
+  accountNumber: 'text',
+  customerCpr: 'text',
+  referenceNumber: 'text',
+  jobType: 'text',
+  governorate: 'text',
+  nasCode: 'text',
+  description: 'text',
+  mtcContractor: 'text',
+  workflowEntryDate: 'text',
+  contractorPaymentDate: 'text',
+  installationContractor: 'text',
+  requireUSP: 'boolean',
+  sentToUSPDate: 'timestamp',
+  justification: 'text',
+  createdAt: 'timestamp',
+  applicationNumber: 'text',
+  bpRequestNumber: 'text',
+  versionNumber: 'text',
+  constructionType: 'text',
+  ewaFeeStatus: 'text',
+  applicationStatus: 'text',
+  landOwnerId: 'text',
+  ownerNameEn: 'text',
+  ownerNameAr: 'text',
+  numberOfAddresses: 'text',
+  mouGatedCommunity: 'text',
+  buildingNumber: 'text',
+  roadNumber: 'text',
+  titleDeed: 'text',
+  buildableArea: 'text',
+  momaaLoad: 'text',
+  applicationDate: 'text',
+  nationality: 'text',
+  propertyCategory: 'text',
+  usageNature: 'text',
+  investmentZone: 'text',
+  initialPaymentDate: 'text',
+  secondPayment: 'text',
+  thirdPayment: 'text',
+  errorLog: 'text',
+  partialExemption: 'text',
+  importBatchId: 'text',
+};
+
+export const ALL_RECORD_COLUMNS = Object.keys(RECORD_COLUMNS) as RecordColumn[];
+
+/** Postgres "undefined_column" and PostgREST "column not found in schema cache". */
+const MISSING_COLUMN_CODES = ['42703', 'PGRST204'];
+
+export interface SchemaProbeResult {
+  available: Set<RecordColumn>;
+  missing: RecordColumn[];
+}
+
+let probePromise: Promise<SchemaProbeResult> | null = null;
+
+const probeColumn = async (column: RecordColumn): Promise<boolean> => {
+  const { error } = await supabase.from('records').select(column).limit(0);
+  if (!error) return true;
+  if (MISSING_COLUMN_CODES.includes(error.code)) return false;
+  // Anything else (network, auth) says nothing about the column, so keep it.
+  console.error(`Error probing records.${column}:`, error);
+  return true;
+};
+
+const runProbe = async (): Promise<SchemaProbeResult> => {
+  // Fast path: a single request succeeds when the schema is fully migrated.
+  const { error } = await supabase.from('records').select(ALL_RECORD_COLUMNS.join(',')).limit(0);
+  if (!error) {
+    return { available: new Set(ALL_RECORD_COLUMNS), missing: [] };
+  }
+
+  const checks = await Promise.all(ALL_RECORD_COLUMNS.map(async col => [col, await probeColumn(col)] as const));
+  const available = new Set(checks.filter(([, exists]) => exists).map(([col]) => col));
+  const missing = checks.filter(([, exists]) => !exists).map(([col]) => col);
+  if (missing.length > 0) {
+    console.warn(`records table is missing ${missing.length} column(s):`, missing.join(', '));
+  }
+  return { available, missing };
+};
+
+/**
+ * Discovers which RecordItem columns really exist on the `records` table.
+ * The result is cached for the session; call with `force` after running a migration.
+ */
+export const probeRecordSchema = (force = false): Promise<SchemaProbeResult> => {
+  if (!probePromise || force) {
+    probePromise = runProbe().catch(err => {
+      console.error('Schema probe failed:', err);
+      probePromise = null;
+      return { available: new Set(ALL_RECORD_COLUMNS), missing: [] };
+    });
+  }
+  return probePromise;
+};
@@ -0,0 +1,221 @@
+import * as XLSX from 'xlsx';
+import { LLMProvider, ReportSubject, getLLMProvider } from './llmProvider';
+import { createTemplateProvider, isProjectRecord } from './templateProvider';
+import { MarkdownBlock, MarkdownSpan, parseMarkdown, blocksToHtml } from './markdown';
+
+export interface GeneratedReport {
+  markdown: string;
+  providerLabel: string;     // Who wrote it: the configured provider, or the template after a failure
+  fellBack: boolean;         // The configured provider failed and the template stood in
+}
+
+/**
+ * The prompt a model is sent for a status report. Works for active records and infra reference rows alike.
+ */
+export const recordReportPrompt = (record: ReportSubject): string => {
+  const r = record as Record<string, any>;
+  return `
+      You are an intelligent AI assistant for the 'Nexus Record Manager' system.
+      The user has requested a full status report for a specific project/plot.
+
+      **Data Source**: ${isProjectRecord(record) ? 'Active Project Records' : 'Infrastructure Database (Excel)'}
+
+      **Raw Record Data**:
+      ${JSON.stringify(record, null, 2)}
+
+      Please generate a **Professional Project Status Report**.
+
+      The report should be formatted cleanly (use Markdown) and include the following sections if data exists:
+
+      1.  **Executive Summary**:
+          - Identification: Plot ${r.plotNumber || 'N/A'}, Application ${r.applicationNumber || 'N/A'}, Reference ${r.referenceNumber || 'N/A'}.
+          - Owner: ${r.ownerNameEn || r.label || 'N/A'}.
+
+      2.  **Current Status**:
+          - State: ${r.status || r.applicationStatus || 'Unknown'}.
+          - Fee Status: ${r.ewaFeeStatus || 'N/A'}.
+
+      3.  **Location Details**:
+          - Block ${r.block || r.blockNumber || '-'}, Zone ${r.zone || r.investmentZone || '-'}, Road ${r.roadNumber || '-'}, Building ${r.buildingNumber || '-'}.
+
+      4.  **Financial & Payments**:
+          - **Critical**: Check for 'Initial Payment Date', 'Second Payment', 'Third Payment'.
+          - If dates exist, list them clearly. If they are missing/null, explicitly state "No Payment History Found".
+          - 13/2006 CC Status (if derived from calculation logic context, otherwise omit).
+
+      5.  **Technical Details**:
+          - Load: ${r.momaaLoad || 'N/A'}.
+          - Wayleave: ${r.wayleaveNumber || 'N/A'}.
+          - Account: ${r.accountNumber || 'N/A'}.
+
+      6.  **Remarks**:
+          - Analyze 'Error log', 'Justification', or 'Notes' if present.
+
+      Tone: Professional, informative, and direct.
+    `;
+};
+
+/**
+ * Generates a Markdown status report with the given provider (the configured one by default).
+ * If that provider fails the offline template writes the report instead, so a report always comes back.
+ */
+export const generateRecordReport = async (
+  record: ReportSubject,
+  provider: LLMProvider = getLLMProvider()
+): Promise<GeneratedReport> => {
+  const request = { task: 'recordReport' as const, prompt: recordReportPrompt(record), data: record };
+  try {
+    return { markdown: await provider.generate(request), providerLabel: provider.label, fellBack: false };
+  } catch (error) {
+    console.error('Error generating record report:', error);
+    const template = createTemplateProvider();
+    return { markdown: await template.generate(request), providerLabel: template.label, fellBack: true };
+  }
+};
+
+/**
+ * A file-name-safe title for a report: the reference number, else the plot, else the application number.
+ */
+export const reportTitle = (record: ReportSubject): string => {
+  const r = record as Record<string, any>;
+  return `Status Report ${r.referenceNumber || r.plotNumber || r.applicationNumber || ''}`.trim();
+};
+
+const escapeHtml = (value: any) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Opens the report in a print-ready window and triggers the browser's print dialog, which doubles
+ * as "Save as PDF". Returns false when a popup blocker stopped the window.
+ */
+export const printReport = (markdown: string, title: string): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+
+  win.document.write(`<!DOCTYPE html>
+<html><head><title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; line-height: 1.55; }
+  h1 { font-size: 20px; margin: 0 0 8px; }
+  h2 { font-size: 14px; margin: 20px 0 6px; text-transform: uppercase; letter-spacing: .04em; color: #4338ca; }
+  h3, h4, h5, h6 { font-size: 12px; margin: 14px 0 4px; }
+  ul, ol { padding-left: 20px; margin: 4px 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 11px; margin: 8px 0; }
+  th { text-align: left; color: #64748b; font-weight: normal; border-bottom: 1px solid #cbd5e1; padding: 4px 6px; }
+  td { border-bottom: 1px solid #f1f5f9; padding: 4px 6px; }
+  pre, code { font-family: ui-monospace, monospace; background: #f1f5f9; border-radius: 4px; }
+  pre { padding: 8px; white-space: pre-wrap; }
+  hr { border: none; border-top: 1px solid #e2e8f0; margin: 16px 0; }
+  @media print { body { margin: 12mm; } h2 { page-break-after: avoid; } }
+</style></head><body>
+${blocksToHtml(parseMarkdown(markdown))}
+</body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+};
+
+// --- .docx ---
+
+const escapeXml = (value: string) => value
+  // Control characters are not allowed anywhere in XML 1.0.
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const MONO_FONT = '<w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/>';
+
+// A4 width less the page margins below, in twentieths of a point.
+const TEXT_WIDTH = 11906 - 2 * 1134;
+
+// Font size per heading level, in half-points.
+const HEADING_SIZES = [36, 28, 24, 22, 22, 22];
+
+const run = (span: MarkdownSpan, extra = '') => {
+  // Run properties must appear in schema order: fonts, bold, italic, then size.
+  const props = `${span.code ? MONO_FONT : ''}${span.bold ? '<w:b/>' : ''}${span.italic ? '<w:i/>' : ''}${extra}`;
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(span.text)}</w:t></w:r>`;
+};
+
+const paragraph = (runs: string, props = '') => `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+
+const tableXml = (header: MarkdownSpan[][], rows: MarkdownSpan[][][]) => {
+  const columns = Math.max(header.length, ...rows.map(r => r.length), 1);
+  const cell = (spans: MarkdownSpan[] = [], bold = false) =>
+    `<w:tc>${paragraph(spans.map(s => run(bold ? { ...s, bold: true } : s)).join(''))}</w:tc>`;
+  const row = (cells: MarkdownSpan[][], bold = false) =>
+    `<w:tr>${Array.from({ length: columns }, (_, i) => cell(cells[i], bold)).join('')}</w:tr>`;
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`;
+  return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>` +
+    `<w:tblGrid>${`<w:gridCol w:w="${Math.floor(TEXT_WIDTH / columns)}"/>`.repeat(columns)}</w:tblGrid>${row(header, true)}${rows.map(r => row(r)).join('')}</w:tbl>`;
+};
+
+const blockXml = (block: MarkdownBlock): string => {
+  switch (block.type) {
+    case 'heading': {
+      const size = `<w:sz w:val="${HEADING_SIZES[block.level - 1]}"/>`;
+      return paragraph(block.spans.map(s => run({ ...s, bold: true }, size)).join(''), '<w:keepNext/><w:spacing w:before="240" w:after="80"/>');
+    }
+    case 'paragraph':
+      return paragraph(block.spans.map(s => run(s)).join(''));
+    case 'list': {
+      const counters: number[] = [];
+      return block.items.map(item => {
+        counters[item.depth] = (counters[item.depth] || 0) + 1;
+        counters.length = item.depth + 1;
+        const marker = block.ordered ? `${counters[item.depth]}.` : '•';
+        const indent = `<w:ind w:left="${360 * (item.depth + 1)}" w:hanging="360"/>`;
+        return paragraph(`<w:r><w:t>${marker}</w:t><w:tab/></w:r>` + item.spans.map(s => run(s)).join(''), indent);
+      }).join('');
+    }
+    case 'table':
+      return tableXml(block.header, block.rows) + paragraph('');
+    case 'code':
+      return block.text.split('\n').map(line => paragraph(run({ text: line, code: true }), '<w:spacing w:after="0"/>')).join('');
+    case 'rule':
+      return paragraph('', '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CBD5E1"/></w:pBdr>');
+  }
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+/**
+ * The WordprocessingML body for a Markdown report. Formatting is applied directly to runs, so the
+ * package needs no styles or numbering parts.
+ */
+export const reportDocumentXml = (markdown: string): string =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${parseMarkdown(markdown).map(blockXml).join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+/**
+ * Packs a Markdown report into a minimal .docx, zipped with the CFB writer bundled in xlsx.
+ */
+export const buildReportDocx = (markdown: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const pkg = XLSX.CFB.utils.cfb_new();
+  XLSX.CFB.utils.cfb_add(pkg, '/[Content_Types].xml', encoder.encode(CONTENT_TYPES));
+  XLSX.CFB.utils.cfb_add(pkg, '/_rels/.rels', encoder.encode(PACKAGE_RELS));
+  XLSX.CFB.utils.cfb_add(pkg, '/word/document.xml', encoder.encode(reportDocumentXml(markdown)));
+  return new Uint8Array(XLSX.CFB.write(pkg, { fileType: 'zip', type: 'array' }) as ArrayLike<number>);
+};
+
+export const downloadReportDocx = (markdown: string, fileName: string) => {
+  // The copy is backed by a plain ArrayBuffer, which is what Blob accepts.
+  const blob = new Blob([buildReportDocx(markdown).slice()], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.docx`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
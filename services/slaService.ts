@@ -0,0 +1,143 @@
+import { supabase } from './supabaseClient';
+import { queryAllRecords } from './storageService';
+import { getStageEntryTimes } from './historyService';
+import { EMPTY_FILTERS } from './recordFilters';
+import { RecordItem, SlaRule, SlaEvaluation } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stage thresholds used until the team saves its own rules to `sla_rules`.
+ * "Passed" has no rule: finished projects are never late.
+ */
+export const DEFAULT_SLA_RULES: SlaRule[] = [
+  { status: 'In Design', warningDays: 10, breachDays: 14 },
+  { status: 'GIS', warningDays: 5, breachDays: 7 },
+  { status: 'WL / GSN', warningDays: 14, breachDays: 21 },
+  { status: 'USP', warningDays: 20, breachDays: 30 },
+];
+
+const sameText = (a?: string | null, b?: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Picks the most specific rule for a record: status + jobType + governorate beats
+ * status + jobType, which beats status + governorate, which beats the plain status rule.
+ */
+export const findSlaRule = (record: RecordItem, rules: SlaRule[]): SlaRule | null => {
+  let best: SlaRule | null = null;
+  let bestScore = -1;
+
+  rules.forEach(rule => {
+    if (!sameText(rule.status, record.status)) return;
+    if (rule.jobType && !sameText(rule.jobType, record.jobType)) return;
+    if (rule.governorate && !sameText(rule.governorate, record.governorate)) return;
+
+    const score = (rule.jobType ? 2 : 0) + (rule.governorate ? 1 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+/**
+ * Measures how long a record has been in its current stage and grades it against its rule.
+ * `stageEnteredAt` falls back to createdAt for records without logged status history.
+ */
+export const evaluateSla = (
+  record: RecordItem,
+  rules: SlaRule[],
+  stageEnteredAt?: string,
+  now: number = Date.now()
+): SlaEvaluation => {
+  const enteredAt = stageEnteredAt || record.createdAt;
+  const enteredMs = new Date(enteredAt).getTime();
+  const daysInStage = isNaN(enteredMs) ? 0 : Math.max(0, Math.floor((now - enteredMs) / DAY_MS));
+  const rule = findSlaRule(record, rules);
+
+  let severity: SlaEvaluation['severity'] = 'ok';
+  if (rule && daysInStage > rule.breachDays) severity = 'breached';
+  else if (rule && daysInStage > rule.warningDays) severity = 'warning';
+
+  return { daysInStage, stageEnteredAt: enteredAt, severity, rule };
+};
+
+/**
+ * The records that can be at warning or worse under `rules`, with their stage entry times. A record
+ * cannot have been in its stage for longer than it has existed, so each ruled status is read only
+ * for records created at least its shortest warning threshold ago. Null if a read fails.
+ */
+export const getSlaCandidates = async (
+  rules: SlaRule[],
+  now: number = Date.now()
+): Promise<{ records: RecordItem[], stageEntryTimes: Record<string, string> } | null> => {
+  const warningDays = new Map<string, { status: string, days: number }>();
+  rules.forEach(rule => {
+    const key = rule.status.trim().toLowerCase();
+    const known = warningDays.get(key);
+    if (!known || rule.warningDays < known.days) warningDays.set(key, { status: rule.status.trim(), days: rule.warningDays });
+  });
+
+  const records: RecordItem[] = [];
+  for (const { status, days } of warningDays.values()) {
+    const to = new Date(now - days * DAY_MS).toISOString().split('T')[0];
+    const page = await queryAllRecords({ ...EMPTY_FILTERS, status, dateRanges: { createdAt: { to } } }, null);
+    if (!page) return null;
+    records.push(...page.records);
+  }
+  const stageEntryTimes = await getStageEntryTimes(records.map(r => r.id));
+  return stageEntryTimes ? { records, stageEntryTimes } : null;
+};
+
+export const getSlaRules = async (): Promise<SlaRule[]> => {
+  const { data, error } = await supabase
+    .from('sla_rules')
+    .select('*');
+
+  if (error) {
+    console.error('Error fetching SLA rules:', error);
+    return DEFAULT_SLA_RULES;
+  }
+  return data && data.length > 0 ? data : DEFAULT_SLA_RULES;
+};
+
+/**
+ * Replaces the stored rule set with `rules` and resolves with them as stored (new rules get ids),
+ * or null on failure. Rules are upserted before the removed ones are deleted, so a failed save
+ * never leaves the table empty.
+ */
+export const saveSlaRules = async (rules: SlaRule[]): Promise<SlaRule[] | null> => {
+  const rows = rules.map(rule => ({
+    ...rule,
+    id: rule.id || crypto.randomUUID(),
+    jobType: rule.jobType || null,
+    governorate: rule.governorate || null
+  }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('sla_rules')
+      .upsert(rows, { onConflict: 'id' });
+
+    if (error) {
+      console.error('Error saving SLA rules:', error);
+      return null;
+    }
+  }
+
+  let removed = supabase
+    .from('sla_rules')
+    .delete()
+    .not('id', 'is', null);
+  if (rows.length > 0) removed = removed.not('id', 'in', `(${rows.map(r => r.id).join(',')})`);
+  const { error: deleteError } = await removed;
+
+  if (deleteError) {
+    console.error('Error removing SLA rules:', deleteError);
+    return null;
+  }
+  return rows;
+};
@@ -0,0 +1,127 @@
+import { readEnv, isSupabaseConfigured } from './supabaseClient';
+import { RecordColumn } from './recordSchema';
+import { InfraReferenceItem, GridViewFilters, SortConfig, FacetKey, ImportBatch, ImportBatchItem, ImportBatchTable } from '../types';
+import { createSupabaseBackend } from './supabaseBackend';
+import { createLocalBackend } from './localBackend';
+
+export type StorageBackendKind = 'supabase' | 'local';
+
+/**
+ * What every backend call resolves with: the Supabase client's own shape, so storageService can
+ * tell a rejected request from an unreachable server the same way for either backend.
+ */
+export interface BackendResult<T> {
+  data: T;
+  error: { message: string, code?: string } | null;
+}
+
+/**
+ * Raw access to records, infra references, the Infra Hook status derived from them and the import
+ * batches that write both. Rows come back as stored; mapping, history, caching and the offline
+ * outbox stay in storageService, batch bookkeeping in importBatchService.
+ */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  /** Record columns that exist in the store and can be written. */
+  writableColumns(): Promise<Set<RecordColumn>>;
+  /** Every record, newest first. */
+  listRecords(): Promise<BackendResult<any[]>>;
+  getRecord(id: string): Promise<BackendResult<any | null>>;
+  getRecordsById(ids: string[]): Promise<BackendResult<any[]>>;
+  /** Records whose reference number, trimmed and ignoring case, is one of `keys` (given trimmed and upper-cased). */
+  getRecordsByReference(keys: string[]): Promise<BackendResult<any[]>>;
+  /** Resolves with the stored row, including its generated id, rowVersion and timestamps. */
+  insertRecord(payload: Record<string, any>): Promise<BackendResult<any>>;
+  /**
+   * Resolves with the rows written. With `expectedVersion` nothing is written unless the stored
+   * rowVersion still matches, which leaves the list empty.
+   */
+  updateRecord(id: string, payload: Record<string, any>, expectedVersion?: number): Promise<BackendResult<any[]>>;
+  deleteRecord(id: string): Promise<BackendResult<null>>;
+  /** Cheapest possible round trip, used to notice the store is reachable again. */
+  ping(): Promise<BackendResult<null>>;
+  /** Infra rows for exact (normalised) plot numbers. */
+  getInfraReferences(plots: string[]): Promise<BackendResult<InfraReferenceItem[]>>;
+  searchInfraReferences(term: string, limit: number): Promise<BackendResult<InfraReferenceItem[]>>;
+  /** Every infra row, oldest first. */
+  listInfraReferences(): Promise<BackendResult<InfraReferenceItem[]>>;
+  /** Resolves with the rows written; an empty list means nothing matched or the write was refused. */
+  updateInfraReference(id: string, payload: Record<string, any>): Promise<BackendResult<InfraReferenceItem[]>>;
+  deleteInfraReference(id: string): Promise<BackendResult<null>>;
+  getInfraReferencesById(ids: string[]): Promise<BackendResult<InfraReferenceItem[]>>;
+  /** Resolves with the stored rows, in insert order. */
+  insertInfraReferences(rows: Record<string, any>[]): Promise<BackendResult<InfraReferenceItem[]>>;
+  /** Rows of `table` stamped with `batchId` by an import. */
+  listImportedRows(table: ImportBatchTable, batchId: string): Promise<BackendResult<any[]>>;
+  deleteImportedRows(table: ImportBatchTable, ids: string[]): Promise<BackendResult<null>>;
+  /** Import batches, newest first; only those in `statuses` when given. */
+  listImportBatches(statuses?: ImportBatch['status'][]): Promise<BackendResult<ImportBatch[]>>;
+  insertImportBatch(payload: Record<string, any>): Promise<BackendResult<ImportBatch>>;
+  /** Resolves with the updated batch, or null when there is none with that id. */
+  updateImportBatch(id: string, payload: Partial<ImportBatch>): Promise<BackendResult<ImportBatch | null>>;
+  deleteImportBatch(id: string): Promise<BackendResult<null>>;
+  insertImportBatchItems(items: Record<string, any>[]): Promise<BackendResult<null>>;
+  /**
+   * A range of a batch's items in the order they are applied: projects first, then by source row.
+   * Rows from different sheets can share a source row number, so id breaks
+   * ties and pages never overlap or skip items.
+   */
+  listImportBatchItems(
+    batchId: string,
+    status: ImportBatchItem['status'] | undefined,
+    offset: number,
+    limit: number
+  ): Promise<BackendResult<ImportBatchItem[]>>;
+  /** Sets the same fields on every listed item. */
+  updateImportBatchItems(ids: string[], fields: Partial<ImportBatchItem>): Promise<BackendResult<null>>;
+  /** Writes whole items back, each with its own values. */
+  saveImportBatchItems(items: ImportBatchItem[]): Promise<BackendResult<null>>;
+  /**
+   * A page of record_grid rows: records plus infraHook, infraHookRank and infraApplicationNumber.
+   * `count` is the total number of matches when `withCount` is set.
+   */
+  queryGrid(
+    filters: GridViewFilters,
+    sort: SortConfig | null,
+    offset: number,
+    limit: number,
+    withCount: boolean
+  ): Promise<BackendResult<any[]> & { count: number | null }>;
+  /** Matching record_grid rows grouped by `columns`, one `{ ...columns, count }` row per group. */
+  countGrid(columns: string[], filters: GridViewFilters, skip?: FacetKey | 'status'): Promise<BackendResult<any[]>>;
+}
+
+const configuredKind = readEnv(() => process.env.STORAGE_BACKEND).trim().toLowerCase();
+
+/**
+ * STORAGE_BACKEND=local picks the local backend; unset or `supabase`, it is Supabase.
+ */
+export const STORAGE_BACKEND_KIND: StorageBackendKind = configuredKind === 'local' ? 'local' : 'supabase';
+
+/**
+ * Why the configured backend cannot be used, or null. Missing Supabase settings never fall back to
+ * the local backend: that would serve an empty store and sign everyone in as its administrator.
+ */
+export const STORAGE_CONFIG_ERROR: string | null =
+  configuredKind && configuredKind !== 'local' && configuredKind !== 'supabase'
+    ? `STORAGE_BACKEND is "${configuredKind}"; set it to "supabase" or "local".`
+    : STORAGE_BACKEND_KIND === 'supabase' && !isSupabaseConfigured
+      ? 'SUPABASE_URL and SUPABASE_ANON_KEY are not set. Configure a Supabase project, or set STORAGE_BACKEND=local to run without one.'
+      : null;
+
+let backend: StorageBackend | null = null;
+
+export const getStorageBackend = (): StorageBackend => {
+  if (!backend) {
+    if (STORAGE_CONFIG_ERROR) throw new Error(STORAGE_CONFIG_ERROR);
+    backend = STORAGE_BACKEND_KIND === 'local' ? createLocalBackend() : createSupabaseBackend();
+  }
+  return backend;
+};
+
+/**
+ * Swaps the backend in use, e.g. for a seeded local backend in tests.
+ */
+export const setStorageBackend = (next: StorageBackend) => {
+  backend = next;
+};
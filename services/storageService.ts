@@ -1,6 +1,17 @@
 
-import { supabase } from './supabaseClient';
-import { RecordItem, InfraReferenceItem } from '../types';
+import { getStorageBackend } from './storageBackend';
+import { RECORD_COLUMNS, RecordColumn, SYSTEM_COLUMNS, SystemColumn } from './recordSchema';
+import { logRecordChanges, logRecordCreated } from './historyService';
+import { RecordItem, InfraReferenceItem, SaveResult, AddResult, GridViewFilters, SortConfig, FacetKey, FacetCount, RecordPage, QueuedWrite } from '../types';
+import { ALL_STATUSES_TAB, EMPTY_FILTERS, FACET_KEYS, FACET_COLUMNS, facetValuesOf, rankFacetCounts, filterRecords, countFacets, activeFilterCount } from './recordFilters';
+import { NO_INFRA_RECORD, hookDataFromInfraRows } from './infraHook';
+import { sortRecords } from './gridViewService';
+import {
+  cacheRecords, putCachedRecords, getCachedRecords, getCachedRecord, putCachedRecord, removeCachedRecord,
+  cacheInfraReferences, removeCachedInfraReference, searchCachedInfraReferences, cacheHookData, getCachedHookData,
+  clearCachedReads, enqueueWrite, getQueuedWrites, replaceQueuedWrite, removeQueuedWrite
+} from './localCache';
+import { isNetworkError, isOffline, noteConnectivity, updateSyncStatus, addSyncConflict } from './syncService';
 
 // Helper to normalize plot numbers for consistent matching
 const normalizePlot = (p: string | number | null | undefined): string => {
@@ -8,152 +19,404 @@ const normalizePlot = (p: string | number | null | undefined): string => {
   return String(p).trim().toUpperCase();
 };
 
+const isEmptyValue = (val: any) => val === undefined || val === null || val === '';
+
 /**
- * List of columns guaranteed to exist in the standard database schema.
+ * Maps a RecordItem (or partial) onto the columns that exist in the database.
+ * On insert empty values are omitted; on update they are written as null so fields can be cleared.
+ * Fields that carry a value but have no column are returned in `droppedFields` instead of vanishing.
  */
-const SAFE_COLUMNS = [
-  'label', 'status', 'block', 'zone', 'scheduleStartDate', 
-  'wayleaveNumber', 'accountNumber', 'referenceNumber', 
-  'requireUSP', 'sentToUSPDate', 'justification', 'createdAt',
-  'plotNumber', 'applicationNumber', 'momaaLoad', 'subtype'
-];
+const prunePayload = async (obj: any, mode: 'insert' | 'update') => {
+  const available = await getStorageBackend().writableColumns();
+  const payload: any = {};
+  const droppedFields: string[] = [];
 
-const prunePayload = (obj: any) => {
-  const pruned: any = {};
   Object.keys(obj).forEach(key => {
+    if (key === 'id' || SYSTEM_COLUMNS.includes(key as SystemColumn)) return;
     const val = obj[key];
-    if (SAFE_COLUMNS.includes(key) && val !== undefined && val !== null && val !== '') {
-      pruned[key] = val;
+    const kind = RECORD_COLUMNS[key as RecordColumn];
+
+    if (!kind || !available.has(key as RecordColumn)) {
+      if (!isEmptyValue(val)) droppedFields.push(key);
+      return;
     }
+    if (isEmptyValue(val)) {
+      if (mode === 'update') payload[key] = kind === 'boolean' ? false : null;
+      return;
+    }
+    payload[key] = kind === 'text' && typeof val !== 'string' ? String(val) : val;
   });
-  return pruned;
+
+  if (payload.plotNumber) payload.plotNumber = normalizePlot(payload.plotNumber);
+  return { payload, droppedFields };
 };
 
+/**
+ * Normalises a raw `records` row (including legacy snake_case columns) into a RecordItem.
+ */
+export const mapRecordRow = (item: any): RecordItem => ({
+  ...item,
+  id: item.id,
+  label: item.label || 'Untitled',
+  status: item.status || 'Unknown',
+  block: item.block || '',
+  zone: item.zone || '',
+  scheduleStartDate: item.scheduleStartDate || item.schedule_start_date || item.createdAt,
+  wayleaveNumber: item.wayleaveNumber || item.wayleave_number || '',
+  accountNumber: item.accountNumber || item.account_number || '',
+  referenceNumber: item.referenceNumber || item.reference_number || '',
+  plotNumber: normalizePlot(item.plotNumber),
+  requireUSP: item.requireUSP ?? item.require_usp ?? false,
+  createdAt: item.createdAt || item.created_at,
+});
+
 export const getRecords = async (): Promise<RecordItem[]> => {
-  const { data, error } = await supabase
-    .from('records')
-    .select('*')
-    .order('createdAt', { ascending: false });
+  const { data, error } = await getStorageBackend().listRecords();
+  noteConnectivity(error);
   
   if (error) {
     console.error('Error fetching records:', error);
-    return [];
+    // Unreachable: serve the last copy we saw, which already carries any offline edits.
+    return isNetworkError(error) ? sortRecords(await getCachedRecords(), NEWEST_FIRST, {}) : [];
   }
   
-  return (data || []).map((item: any) => ({
-    ...item,
-    id: item.id,
-    label: item.label || 'Untitled',
-    status: item.status || 'Unknown',
-    block: item.block || '',
-    zone: item.zone || '',
-    scheduleStartDate: item.scheduleStartDate || item.schedule_start_date || item.createdAt,
-    wayleaveNumber: item.wayleaveNumber || item.wayleave_number || '',
-    accountNumber: item.accountNumber || item.account_number || '',
-    referenceNumber: item.referenceNumber || item.reference_number || '',
-    plotNumber: normalizePlot(item.plotNumber),
-    requireUSP: item.requireUSP ?? item.require_usp ?? false,
-    createdAt: item.createdAt || item.created_at,
-  }));
-};
-
-export const addRecord = async (record: RecordItem): Promise<RecordItem | null> => {
-  const payload = prunePayload({ ...record });
-  delete payload.id;
-  if (payload.plotNumber) payload.plotNumber = normalizePlot(payload.plotNumber);
+  const records = overlayQueuedWrites(data.map(mapRecordRow), await getOwnQueuedWrites());
+  await cacheRecords(records);
+  return records;
+};
 
-  const { data, error } = await supabase
-    .from('records')
-    .insert([payload])
-    .select()
-    .single();
+/**
+ * Records by id, in no particular order; ids that are gone are simply missing. Null if the read
+ * fails, so callers can tell a deleted record from one they could not look up.
+ */
+export const getRecordsById = async (ids: string[]): Promise<RecordItem[] | null> => {
+  if (ids.length === 0) return [];
+  const { data, error } = await getStorageBackend().getRecordsById([...new Set(ids)]);
+  noteConnectivity(error);
 
   if (error) {
-    console.error('Error adding record:', error);
+    console.error('Error fetching records by id:', error);
     return null;
   }
-  return data;
+  return data.map(mapRecordRow);
 };
 
-export const updateRecord = async (id: string, updates: Partial<RecordItem>): Promise<boolean> => {
-  const payload = prunePayload({ ...updates });
-  if (payload.plotNumber) payload.plotNumber = normalizePlot(payload.plotNumber);
+/**
+ * Loads the stored records with the given reference numbers so an import can be matched against
+ * them; references compare trimmed and ignoring case. Null if the read fails, since staging
+ * against part of the matches would create duplicates.
+ */
+export const getExistingRecords = async (references: string[]): Promise<RecordItem[] | null> => {
+  const keys = [...new Set(references.map(ref => String(ref || '').trim().toUpperCase()).filter(Boolean))];
+  if (keys.length === 0) return [];
 
-  const { error } = await supabase
-    .from('records')
-    .update(payload)
-    .eq('id', id);
+  const { data, error } = await getStorageBackend().getRecordsByReference(keys);
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error loading existing records:', error);
+    return null;
+  }
+  return data.map(mapRecordRow);
+};
+
+// --- Record writes ---
+// The *Remote functions talk to the storage backend only and resolve null when it cannot be reached;
+// addRecord, updateRecord and deleteRecord then queue the write in the offline outbox instead.
+// Bulk writers such as import batches and data quality fixes call the *Remote ones directly: a queued
+// write has no real id yet and may still be refused on replay, so they must stop rather than count it as done.
+
+// record_history lives in Supabase beside the records it describes, so only that backend logs it.
+const keepsHistory = () => getStorageBackend().kind === 'supabase';
+
+export const insertRecordRemote = async (record: RecordItem): Promise<AddResult | null> => {
+  const { payload, droppedFields } = await prunePayload({ ...record }, 'insert');
+
+  const { data, error } = await getStorageBackend().insertRecord(payload);
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error adding record:', error);
+    return isNetworkError(error) ? null : { success: false, record: null, droppedFields };
+  }
+  if (droppedFields.length > 0) {
+    console.warn(`Record ${record.referenceNumber || ''} saved without fields:`, droppedFields.join(', '));
+  }
+  if (keepsHistory()) await logRecordCreated(data);
+  await putCachedRecord(mapRecordRow(data));
+  return { success: true, record: data, droppedFields };
+};
+
+export const getRecordById = async (id: string): Promise<RecordItem | null> => {
+  const { data, error } = await getStorageBackend().getRecord(id);
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error fetching record:', error);
+    return isNetworkError(error) ? getCachedRecord(id) : null;
+  }
+  return data ? mapRecordRow(data) : null;
+};
+
+export const updateRecordRemote = async (id: string, updates: Partial<RecordItem>, expectedVersion?: number): Promise<SaveResult | null> => {
+  const { payload, droppedFields } = await prunePayload({ ...updates }, 'update');
+  const columns = Object.keys(payload);
+  if (columns.length === 0) return { success: true, droppedFields };
+
+  // Snapshot the record first so the change can be written to record_history.
+  const backend = getStorageBackend();
+  const { data: before, error: fetchError } = await backend.getRecord(id);
+  noteConnectivity(fetchError);
+
+  if (fetchError) {
+    console.error('Error reading record before update:', fetchError);
+    if (isNetworkError(fetchError)) return null;
+  }
+
+  const { data: written, error } = await backend.updateRecord(id, payload, expectedVersion);
+  noteConnectivity(error);
 
   if (error) {
     console.error('Error updating record:', error);
-    return false;
+    return isNetworkError(error) ? null : { success: false, droppedFields };
   }
-  return true;
+  if (expectedVersion !== undefined && written.length === 0) {
+    const stored = await getRecordById(id);
+    // Same version but nothing written means the row policy refused the update, not a conflict.
+    if (stored && stored.rowVersion === expectedVersion) return { success: false, droppedFields };
+    return { success: false, droppedFields, conflict: stored };
+  }
+  if (written[0]) await putCachedRecord(mapRecordRow(written[0]));
+  if (before && keepsHistory()) {
+    await logRecordChanges(id, before as Record<string, any>, payload);
+  }
+  if (droppedFields.length > 0) {
+    console.warn(`Record ${id} updated without fields:`, droppedFields.join(', '));
+  }
+  return { success: true, droppedFields };
 };
 
-export const deleteRecord = async (id: string): Promise<boolean> => {
-  const { error } = await supabase
-    .from('records')
-    .delete()
-    .eq('id', id);
+export const deleteRecordRemote = async (id: string): Promise<boolean | null> => {
+  const { error } = await getStorageBackend().deleteRecord(id);
+  noteConnectivity(error);
 
   if (error) {
     console.error('Error deleting record:', error);
-    return false;
+    return isNetworkError(error) ? null : false;
   }
+  await removeCachedRecord(id);
   return true;
 };
 
+export const addRecord = async (record: RecordItem): Promise<AddResult> => {
+  const result = isOffline() ? null : await insertRecordRemote(record);
+  return result || queueRecordAdd(record);
+};
+
 /**
- * Enhanced strict validation for payment markers.
- * Specifically handles empty placeholders and garbage characters.
+ * Writes a partial update. With `expectedVersion` the write only lands while the stored rowVersion
+ * still matches; otherwise nothing is written and `conflict` carries the stored copy to merge against.
  */
-const isValidPaymentMarker = (val: any): boolean => {
-  if (val === null || val === undefined) return false;
-  const s = String(val).trim().toLowerCase();
-  const emptyPlaceholders = [
-    '', 'null', 'undefined', '-', '0', '0.0', 'n/a', 'none', 'no', 'false', '.', '..', '...', '00', '00.00'
-  ];
-  if (emptyPlaceholders.includes(s)) return false;
-  // If it's a date or a string longer than 2 characters and not a placeholder, we count it.
-  return s.length > 1;
+export const updateRecord = async (id: string, updates: Partial<RecordItem>, expectedVersion?: number): Promise<SaveResult> => {
+  const result = isOffline() || isLocalId(id) ? null : await updateRecordRemote(id, updates, expectedVersion);
+  return result || queueRecordUpdate(id, updates);
 };
 
-export const getInfraHookData = async (plotNumbers: string[]): Promise<Record<string, { appNo: string, isPaid: boolean }>> => {
-  const validPlots = [...new Set(plotNumbers.map(p => normalizePlot(p)).filter(p => p !== ''))];
-  if (validPlots.length === 0) return {};
+export const deleteRecord = async (id: string): Promise<boolean> => {
+  const result = isOffline() || isLocalId(id) ? null : await deleteRecordRemote(id);
+  return result ?? queueRecordDelete(id);
+};
 
-  const hookData: Record<string, { appNo: string, isPaid: boolean }> = {};
-  const chunkSize = 200;
+// --- Offline outbox ---
 
-  for (let i = 0; i < validPlots.length; i += chunkSize) {
-    const chunk = validPlots.slice(i, i + chunkSize);
-    
-    const { data, error } = await supabase
-      .from('infra_references')
-      .select('plotNumber, applicationNumber, initialPaymentDate, secondPayment, thirdPayment')
-      .in('plotNumber', chunk);
+const NEWEST_FIRST: SortConfig = { key: 'createdAt', direction: 'desc' };
+const LOCAL_ID_PREFIX = 'local-';
 
-    if (error) {
-      console.error('Error checking infra plots:', error);
-      continue;
+// Records created offline keep a local id until their queued insert has been replayed.
+const isLocalId = (id: string) => id.startsWith(LOCAL_ID_PREFIX);
+
+// Id of the signed-in user. Writes are queued under it, and only their own are replayed or shown.
+let outboxOwner: string | undefined;
+
+/**
+ * Writes queued by the signed-in user, oldest first. Another user's writes on the same browser stay
+ * in the outbox until that user signs in again.
+ */
+const getOwnQueuedWrites = async () => {
+  const queue = await getQueuedWrites();
+  return outboxOwner === undefined ? [] : queue.filter(w => w.author === outboxOwner);
+};
+
+const refreshPendingCount = async () => updateSyncStatus({ pending: (await getOwnQueuedWrites()).length });
+
+/**
+ * Starts an offline session for the signed-in user. Call before replaying the outbox.
+ */
+export const setOutboxOwner = async (userId: string | undefined) => {
+  outboxOwner = userId;
+  await refreshPendingCount();
+};
+
+/**
+ * Ends the offline session on sign-out: the next user neither replays nor sees this user's queued
+ * writes, and starts from an empty cache.
+ */
+export const clearOfflineSession = async () => {
+  outboxOwner = undefined;
+  await clearCachedReads();
+  updateSyncStatus({ pending: 0, conflicts: [], lastError: null });
+};
+
+/**
+ * Applies queued writes to a list read from the server, so a refresh before the outbox has been
+ * replayed doesn't make offline edits disappear.
+ */
+const overlayQueuedWrites = (records: RecordItem[], queue: QueuedWrite[]): RecordItem[] =>
+  queue.reduce((list, write) => {
+    if (write.kind === 'add') return [write.record, ...list];
+    if (write.kind === 'delete') return list.filter(r => r.id !== write.id);
+    return list.map(r => r.id === write.id ? { ...r, ...write.updates } : r);
+  }, records);
+
+const queueRecordAdd = async (record: RecordItem): Promise<AddResult> => {
+  const local: RecordItem = { ...record, id: `${LOCAL_ID_PREFIX}${crypto.randomUUID()}`, createdAt: record.createdAt || new Date().toISOString() };
+  await enqueueWrite({ kind: 'add', record: local, author: outboxOwner, queuedAt: new Date().toISOString() });
+  await putCachedRecord(local);
+  await refreshPendingCount();
+  return { success: true, record: local, droppedFields: [], queued: true };
+};
+
+/**
+ * Queues an update, folding it into a queued add or update of the same record so each record
+ * replays at most one write, checked against the version it was first edited from.
+ */
+const queueRecordUpdate = async (id: string, updates: Partial<RecordItem>): Promise<SaveResult> => {
+  const cached = await getCachedRecord(id);
+  const queued = (await getOwnQueuedWrites()).find(w => (w.kind === 'add' ? w.record.id : w.id) === id);
+
+  if (queued?.kind === 'add') {
+    await replaceQueuedWrite({ ...queued, record: { ...queued.record, ...updates, id } });
+  } else if (queued?.kind === 'update') {
+    await replaceQueuedWrite({ ...queued, updates: { ...queued.updates, ...updates } });
+  } else {
+    await enqueueWrite({ kind: 'update', id, updates, base: cached, author: outboxOwner, queuedAt: new Date().toISOString() });
+  }
+  if (cached) await putCachedRecord({ ...cached, ...updates, id });
+  await refreshPendingCount();
+  return { success: true, droppedFields: [], queued: true };
+};
+
+const queueRecordDelete = async (id: string): Promise<boolean> => {
+  const cached = await getCachedRecord(id);
+  const queued = (await getOwnQueuedWrites()).find(w => (w.kind === 'add' ? w.record.id : w.id) === id);
+
+  if (queued?.kind === 'add') {
+    // Never reached the server, so there is nothing to delete there.
+    await removeQueuedWrite(queued.seq!);
+  } else if (queued?.kind === 'update') {
+    await replaceQueuedWrite({ kind: 'delete', seq: queued.seq, id, base: queued.base, author: queued.author, queuedAt: queued.queuedAt });
+  } else {
+    await enqueueWrite({ kind: 'delete', id, base: cached, author: outboxOwner, queuedAt: new Date().toISOString() });
+  }
+  await removeCachedRecord(id);
+  await refreshPendingCount();
+  return true;
+};
+
+type ReplayOutcome = 'done' | 'offline';
+
+const replayWrite = async (write: QueuedWrite): Promise<ReplayOutcome> => {
+  if (write.kind === 'add') {
+    const { id: localId, ...record } = write.record;
+    const result = await insertRecordRemote(record as RecordItem);
+    if (!result) return 'offline';
+    await removeCachedRecord(localId);
+    if (!result.success) updateSyncStatus({ lastError: `Could not save ${record.referenceNumber || 'a new record'}` });
+    return 'done';
+  }
+
+  const expectedVersion = write.base?.rowVersion;
+  if (write.kind === 'update') {
+    const result = await updateRecordRemote(write.id, write.updates, expectedVersion);
+    if (!result) return 'offline';
+    if (result.conflict !== undefined) addSyncConflict({ write, theirs: result.conflict });
+    else if (!result.success) updateSyncStatus({ lastError: `Could not save ${write.base?.referenceNumber || 'a record'}` });
+    return 'done';
+  }
+
+  // A delete only replays over the version it was made against; anything newer goes to the user.
+  if (expectedVersion !== undefined) {
+    const { data, error } = await getStorageBackend().getRecord(write.id);
+    noteConnectivity(error);
+    if (error) return isNetworkError(error) ? 'offline' : 'done';
+    if (!data) return 'done';
+    if (data.rowVersion !== expectedVersion) {
+      addSyncConflict({ write, theirs: mapRecordRow(data) });
+      return 'done';
     }
+  }
+  return (await deleteRecordRemote(write.id)) === null ? 'offline' : 'done';
+};
 
-    if (data) {
-      data.forEach((row: any) => {
-        const hasPaymentData = 
-          isValidPaymentMarker(row.initialPaymentDate) || 
-          isValidPaymentMarker(row.secondPayment) || 
-          isValidPaymentMarker(row.thirdPayment);
-
-        hookData[normalizePlot(row.plotNumber)] = {
-          appNo: row.applicationNumber || 'REF MISSING',
-          isPaid: !!hasPaymentData
-        };
-      });
+let replaying = false;
+
+/**
+ * Sends queued offline writes in the order they were made. Stops, keeping the rest queued, as soon
+ * as the backend is unreachable again. Conflicting writes are handed to the UI via the sync status.
+ */
+export const replayQueuedWrites = async (): Promise<void> => {
+  if (replaying) return;
+  const queue = await getOwnQueuedWrites();
+  if (queue.length === 0) {
+    updateSyncStatus({ pending: 0 });
+    return;
+  }
+
+  replaying = true;
+  updateSyncStatus({ state: 'syncing', pending: queue.length, lastError: null });
+  for (const write of queue) {
+    if (await replayWrite(write) === 'offline') {
+      replaying = false;
+      updateSyncStatus({ state: 'offline' });
+      await refreshPendingCount();
+      return;
     }
+    await removeQueuedWrite(write.seq!);
+    await refreshPendingCount();
   }
+  replaying = false;
+  updateSyncStatus({ state: 'online', lastSyncedAt: new Date().toISOString() });
+};
+
+/**
+ * Cheap round trip used to notice that the storage backend is reachable again.
+ */
+export const checkConnection = async (): Promise<boolean> => {
+  const { error } = await getStorageBackend().ping();
+  noteConnectivity(error);
+  return !isNetworkError(error);
+};
+
+/**
+ * Infra Hook status for a set of plots. The dashboard gets the same answer per row from the
+ * record_grid view; this stays for callers that only hold plot numbers.
+ */
+export const getInfraHookData = async (plotNumbers: string[]): Promise<Record<string, { appNo: string, isPaid: boolean }>> => {
+  const validPlots = [...new Set(plotNumbers.map(p => normalizePlot(p)).filter(p => p !== ''))];
+  if (validPlots.length === 0) return {};
 
+  const { data, error } = await getStorageBackend().getInfraReferences(validPlots);
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error checking infra plots:', error);
+    // Whatever was read before the failure still beats the cached copy, but only a full read is cached.
+    const partial = hookDataFromInfraRows(data);
+    return isNetworkError(error) ? { ...(await getCachedHookData(validPlots)), ...partial } : partial;
+  }
+
+  const hookData = hookDataFromInfraRows(data);
+  await cacheHookData(hookData);
   return hookData;
 };
 
@@ -161,52 +424,234 @@ export const searchInfraReferences = async (plotNumber: string): Promise<InfraRe
   if (!plotNumber) return [];
   const term = normalizePlot(plotNumber);
 
-  const { data, error } = await supabase
-    .from('infra_references')
-    .select('*')
-    .ilike('plotNumber', `%${term}%`)
-    .limit(20);
+  const { data, error } = await getStorageBackend().searchInfraReferences(term, 20);
+  noteConnectivity(error);
 
   if (error) {
     console.error('Error searching infra references:', error);
-    return [];
+    return isNetworkError(error) ? searchCachedInfraReferences(term) : [];
   }
-  return data || [];
+  await cacheInfraReferences(data);
+  return data;
 };
 
 /**
- * Checks for existing infra plots to avoid duplicates.
+ * Loads the stored infra rows for the given plots so an import can be matched against them; null
+ * if the read fails, like getExistingRecords.
  */
-export const getExistingInfraPlots = async (plots: string[]): Promise<Set<string>> => {
-  if (plots.length === 0) return new Set();
-  const existing = new Set<string>();
-  const CHUNK = 200;
-  for (let i = 0; i < plots.length; i += CHUNK) {
-    const chunk = plots.slice(i, i + CHUNK);
-    const { data } = await supabase
-      .from('infra_references')
-      .select('plotNumber')
-      .in('plotNumber', chunk);
-    data?.forEach(row => existing.add(normalizePlot(row.plotNumber)));
+export const getExistingInfraReferences = async (plots: string[]): Promise<InfraReferenceItem[] | null> => {
+  const validPlots = [...new Set(plots.map(p => normalizePlot(p)).filter(Boolean))];
+  if (validPlots.length === 0) return [];
+
+  const { data, error } = await getStorageBackend().getInfraReferences(validPlots);
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error loading existing infra references:', error);
+    return null;
   }
-  return existing;
+  return data;
 };
 
-export const saveInfraReferences = async (items: Partial<InfraReferenceItem>[]): Promise<boolean> => {
-  if (items.length === 0) return true;
-  const CHUNK_SIZE = 500;
-  let hasError = false;
-  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
-    const chunk = items.slice(i, i + CHUNK_SIZE);
-    const { error } = await supabase
-      .from('infra_references')
-      .insert(chunk);
+/**
+ * Every stored infra row, for whole-table checks; null if any page fails, since a check run over
+ * part of the table would miss issues. Unlike record writes, infra changes are not queued offline:
+ * they fail and the caller says so.
+ */
+export const getAllInfraReferences = async (): Promise<InfraReferenceItem[] | null> => {
+  const { data, error } = await getStorageBackend().listInfraReferences();
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error loading infra references:', error);
+    return null;
+  }
+  return data;
+};
+
+export const updateInfraReference = async (id: string, updates: Partial<InfraReferenceItem>): Promise<boolean> => {
+  const { id: _id, createdAt, _searchablePlot, ...payload } = updates;
+  if (payload.plotNumber) payload.plotNumber = normalizePlot(payload.plotNumber);
+
+  const { data, error } = await getStorageBackend().updateInfraReference(id, payload);
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error updating infra reference:', error);
+    return false;
+  }
+  // No row back means the row is gone or the write was refused (infra rows are admin-only).
+  if (data.length === 0) return false;
+  await cacheInfraReferences(data);
+  return true;
+};
+
+export const deleteInfraReference = async (id: string): Promise<boolean> => {
+  const { error } = await getStorageBackend().deleteInfraReference(id);
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error deleting infra reference:', error);
+    return false;
+  }
+  await removeCachedInfraReference(id);
+  return true;
+};
+
+// --- Dashboard queries ---
+// Rows come shaped like the record_grid view (supabase_schema.sql, section 6): each record plus
+// its Infra Hook status, so filtering, sorting and counting all happen in the backend.
+
+const EXPORT_PAGE_SIZE = 1000;
+
+export const RECORD_PAGE_SIZE = 100;
+
+const toRecordPage = (rows: any[], total: number | null): RecordPage => {
+  const hookData: RecordPage['hookData'] = {};
+  const records = rows.map(({ infraHook, infraHookRank, infraApplicationNumber, ...item }) => {
+    const record = mapRecordRow(item);
+    if (record.plotNumber && infraHook !== NO_INFRA_RECORD) {
+      hookData[record.plotNumber] = { appNo: infraApplicationNumber, isPaid: infraHook === 'Paid' };
+    }
+    return record;
+  });
+  return { records, hookData, total };
+};
+
+/**
+ * Keeps what was just read available offline, with any queued writes applied. A read of the whole
+ * portfolio replaces the cached records, so ones deleted elsewhere drop out; a page or a filtered
+ * read only adds to them.
+ */
+const cacheRecordRead = async (records: RecordItem[], whole: boolean) => {
+  const current = overlayQueuedWrites(records, await getOwnQueuedWrites());
+  await (whole ? cacheRecords(current) : putCachedRecords(current));
+};
+
+/**
+ * One page of the dashboard grid. The total is only counted for the first page.
+ */
+export const queryRecords = async (
+  filters: GridViewFilters,
+  sort: SortConfig | null,
+  offset = 0,
+  limit = RECORD_PAGE_SIZE
+): Promise<RecordPage> => {
+  const { data, error, count } = await getStorageBackend().queryGrid(filters, sort, offset, limit, offset === 0);
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error querying records:', error);
+    if (isNetworkError(error)) {
+      const { records, hookData } = await queryCachedRecords(filters, sort);
+      return { records: records.slice(offset, offset + limit), hookData, total: records.length };
+    }
+    return { records: [], hookData: {}, total: null };
+  }
+  const page = toRecordPage(data, count);
+  await cacheHookData(page.hookData);
+  await cacheRecordRead(page.records, false);
+  return page;
+};
+
+/**
+ * Every matching record, fetched page by page past the server's row cap. Null if a page fails,
+ * so callers never mistake part of the list for all of it.
+ */
+export const queryAllRecords = async (filters: GridViewFilters, sort: SortConfig | null): Promise<RecordPage | null> => {
+  const all: RecordPage = { records: [], hookData: {}, total: 0 };
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    const { data, error } = await getStorageBackend().queryGrid(filters, sort, offset, EXPORT_PAGE_SIZE, false);
+    noteConnectivity(error);
 
     if (error) {
-      console.error(`Error saving infra chunk:`, error);
-      hasError = true;
-      break; 
+      console.error('Error querying records:', error);
+      return isNetworkError(error) ? queryCachedRecords(filters, sort) : null;
     }
+    const page = toRecordPage(data, null);
+    all.records.push(...page.records);
+    Object.assign(all.hookData, page.hookData);
+    if (data.length < EXPORT_PAGE_SIZE) break;
+  }
+  all.total = all.records.length;
+  await cacheHookData(all.hookData);
+  await cacheRecordRead(all.records, filters.status === ALL_STATUSES_TAB && !filters.search && activeFilterCount(filters) === 0);
+  return all;
+};
+
+/**
+ * The dashboard query answered from the offline cache, with the same filter and sort rules.
+ */
+const queryCachedRecords = async (filters: GridViewFilters, sort: SortConfig | null): Promise<RecordPage> => {
+  const [cached, hookData] = await Promise.all([getCachedRecords(), getCachedHookData()]);
+  const records = sortRecords(filterRecords(cached, filters, hookData), sort || NEWEST_FIRST, hookData);
+  return { records, hookData, total: records.length };
+};
+
+// Resolves null when the backend is unreachable so callers can count the cache instead.
+const countRecordsBy = async (columns: string[], filters: GridViewFilters, skip?: FacetKey | 'status'): Promise<any[] | null> => {
+  const { data, error } = await getStorageBackend().countGrid(columns, filters, skip);
+  noteConnectivity(error);
+
+  if (error) {
+    console.error('Error counting records:', error);
+    return isNetworkError(error) ? null : [];
+  }
+  return data;
+};
+
+const getCachedCountSource = async () => {
+  const [records, hookData] = await Promise.all([getCachedRecords(), getCachedHookData()]);
+  return { records, hookData };
+};
+
+/**
+ * Matching records per status (lower-cased), ignoring the status tab itself.
+ */
+export const getStatusCounts = async (filters: GridViewFilters): Promise<Record<string, number>> => {
+  let rows = await countRecordsBy(['status'], filters, 'status');
+  if (!rows) {
+    const { records, hookData } = await getCachedCountSource();
+    rows = filterRecords(records, filters, hookData, 'status').map(r => ({ status: r.status, count: 1 }));
+  }
+  return rows.reduce((acc, row) => {
+    const key = String(row.status || '').toLowerCase();
+    acc[key] = (acc[key] || 0) + row.count;
+    return acc;
+  }, {} as Record<string, number>);
+};
+
+/**
+ * Value counts per facet, each with that facet's own selection lifted; see countFacets.
+ */
+export const getFacetCounts = async (filters: GridViewFilters): Promise<Record<FacetKey, FacetCount[]>> => {
+  const rowsPerFacet = isOffline() ? null : await Promise.all(FACET_KEYS.map(facet => countRecordsBy(FACET_COLUMNS[facet], filters, facet)));
+  if (!rowsPerFacet || rowsPerFacet.some(rows => !rows)) {
+    const { records, hookData } = await getCachedCountSource();
+    return countFacets(records, filters, hookData);
+  }
+  const entries = FACET_KEYS.map((facet, i) => {
+    const counts = new Map<string, number>();
+    rowsPerFacet[i]!.forEach(row => {
+      const values = facet === 'infraHook' ? [row.infraHook] : facetValuesOf(row, facet, {});
+      values.forEach(v => counts.set(v, (counts.get(v) || 0) + row.count));
+    });
+    return [facet, rankFacetCounts(counts, filters.facets?.[facet])] as const;
+  });
+  return Object.fromEntries(entries) as Record<FacetKey, FacetCount[]>;
+};
+
+/**
+ * Whole-portfolio totals for the dashboard stat cards.
+ */
+export const getPortfolioCounts = async (): Promise<{ total: number, paid: number }> => {
+  const rows = await countRecordsBy(['infraHook'], EMPTY_FILTERS);
+  if (!rows) {
+    const { records, hookData } = await getCachedCountSource();
+    return { total: records.length, paid: records.filter(r => hookData[normalizePlot(r.plotNumber)]?.isPaid).length };
   }
-  return !hasError;
+  return {
+    total: rows.reduce((n, row) => n + row.count, 0),
+    paid: rows.find(row => row.infraHook === 'Paid')?.count || 0
+  };
 };
@@ -0,0 +1,359 @@
+import { supabase } from './supabaseClient';
+import { probeRecordSchema } from './recordSchema';
+import { StorageBackend } from './storageBackend';
+import { GridViewFilters, SortConfig, FacetKey, InfraReferenceItem } from '../types';
+import { ALL_STATUSES_TAB, BLANK_FACET_VALUE, FACET_COLUMNS } from './recordFilters';
+
+// The dashboard reads the record_grid view (supabase_schema.sql, section 6), which carries each
+// record's Infra Hook status so filtering, sorting and counting all happen in the database.
+const GRID_SOURCE = 'record_grid';
+
+// Plot and id lists go into the URL as in.(...), so they are sent in chunks.
+const IN_LIST_CHUNK_SIZE = 200;
+
+// Each reference becomes its own ilike term inside or(), which is longer than an in.(...) entry.
+const REFERENCE_CHUNK_SIZE = 50;
+
+// PostgREST caps every response, so whole-table reads go page by page.
+const LIST_PAGE_SIZE = 1000;
+
+const SEARCH_COLUMNS = ['label', 'plotNumber', 'referenceNumber'];
+
+// Values are double-quoted inside or() so commas and brackets in the data can't break the expression.
+const quoteValue = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+const escapeLike = (term: string) => term.replace(/[\\%_]/g, c => `\\${c}`);
+
+const nextDay = (day: string) => {
+  const time = Date.parse(`${day}T00:00:00Z`);
+  return isNaN(time) ? day : new Date(time + 86400000).toISOString().split('T')[0];
+};
+
+/**
+ * One facet as a PostgREST or() body. Any selected value may match; Contractor matches on any of
+ * its three columns, and its blank value only when all three are empty.
+ */
+const facetCondition = (facet: FacetKey, values: string[]): string => {
+  if (facet === 'urgent') {
+    return values.map(v => v === 'Yes' ? 'urgent.is.true' : 'urgent.is.false,urgent.is.null').join(',');
+  }
+  const columns = FACET_COLUMNS[facet];
+  const named = values.filter(v => v !== BLANK_FACET_VALUE);
+  const parts = named.length > 0 ? columns.map(c => `${c}.in.(${named.map(quoteValue).join(',')})`) : [];
+  if (values.includes(BLANK_FACET_VALUE)) {
+    const blanks = columns.map(c => `or(${c}.is.null,${c}.eq."")`);
+    parts.push(blanks.length === 1 ? blanks[0] : `and(${blanks.join(',')})`);
+  }
+  return parts.join(',');
+};
+
+/**
+ * Server-side twin of filterRecords in recordFilters.ts, including its `skip` for live counts.
+ */
+const applyRecordFilters = (query: any, filters: GridViewFilters, skip?: FacetKey | 'status') => {
+  if (skip !== 'status' && filters.status && filters.status !== ALL_STATUSES_TAB) {
+    query = query.ilike('status', escapeLike(filters.status));
+  }
+  const term = filters.search.trim();
+  if (term) {
+    query = query.or(SEARCH_COLUMNS.map(c => `${c}.ilike.${quoteValue(`%${escapeLike(term)}%`)}`).join(','));
+  }
+  Object.entries(filters.facets || {}).forEach(([facet, values]) => {
+    if (facet !== skip && values && values.length > 0) query = query.or(facetCondition(facet as FacetKey, values));
+  });
+  Object.entries(filters.dateRanges || {}).forEach(([field, range]) => {
+    if (range?.from) query = query.gte(field, range.from);
+    if (range?.to) query = query.lt(field, nextDay(range.to));
+  });
+  return query;
+};
+
+// Newest first by default; id breaks ties so range pages never overlap or skip rows.
+const applyRecordSort = (query: any, sort: SortConfig | null) => query
+  .order(!sort ? 'createdAt' : sort.key === 'infraHook' ? 'infraHookRank' : sort.key, {
+    ascending: sort?.direction === 'asc',
+    nullsFirst: false
+  })
+  .order('id', { ascending: true });
+
+/**
+ * The hosted store: tables and views from supabase_schema.sql, behind its row-level security.
+ */
+export const createSupabaseBackend = (): StorageBackend => ({
+  kind: 'supabase',
+
+  writableColumns: async () => (await probeRecordSchema()).available,
+
+  listRecords: async () => {
+    const { data, error } = await supabase
+      .from('records')
+      .select('*')
+      .order('createdAt', { ascending: false });
+    return { data: data || [], error };
+  },
+
+  getRecord: async id => {
+    const { data, error } = await supabase
+      .from('records')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    return { data, error };
+  },
+
+  getRecordsById: async ids => {
+    const rows: any[] = [];
+    for (let i = 0; i < ids.length; i += IN_LIST_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('records')
+        .select('*')
+        .in('id', ids.slice(i, i + IN_LIST_CHUNK_SIZE));
+      if (error) return { data: rows, error };
+      rows.push(...(data || []));
+    }
+    return { data: rows, error: null };
+  },
+
+  // ilike on the trigram-indexed column ignores case; the contains match also catches stored values
+  // with stray spaces, and the exact comparison below drops what only contains the key.
+  getRecordsByReference: async keys => {
+    const wanted = new Set(keys);
+    const rows: any[] = [];
+    for (let i = 0; i < keys.length; i += REFERENCE_CHUNK_SIZE) {
+      const terms = keys.slice(i, i + REFERENCE_CHUNK_SIZE).map(key => `referenceNumber.ilike.${quoteValue(`%${escapeLike(key)}%`)}`);
+      const { data, error } = await supabase
+        .from('records')
+        .select('*')
+        .or(terms.join(','));
+      if (error) return { data: rows, error };
+      rows.push(...(data || []).filter((row: any) => wanted.has(String(row.referenceNumber || '').trim().toUpperCase())));
+    }
+    return { data: rows, error: null };
+  },
+
+  insertRecord: async payload => {
+    const { data, error } = await supabase
+      .from('records')
+      .insert([payload])
+      .select()
+      .single();
+    return { data, error };
+  },
+
+  updateRecord: async (id, payload, expectedVersion) => {
+    let query = supabase
+      .from('records')
+      .update(payload)
+      .eq('id', id);
+    if (expectedVersion !== undefined) query = query.eq('rowVersion', expectedVersion);
+
+    const { data, error } = await query.select('*');
+    return { data: data || [], error };
+  },
+
+  deleteRecord: async id => {
+    const { error } = await supabase
+      .from('records')
+      .delete()
+      .eq('id', id);
+    return { data: null, error };
+  },
+
+  ping: async () => {
+    const { error } = await supabase.from('records').select('id').limit(1);
+    return { data: null, error };
+  },
+
+  getInfraReferences: async plots => {
+    const rows: InfraReferenceItem[] = [];
+    for (let i = 0; i < plots.length; i += IN_LIST_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('infra_references')
+        .select('*')
+        .in('plotNumber', plots.slice(i, i + IN_LIST_CHUNK_SIZE));
+      if (error) return { data: rows, error };
+      rows.push(...(data || []));
+    }
+    return { data: rows, error: null };
+  },
+
+  searchInfraReferences: async (term, limit) => {
+    const { data, error } = await supabase
+      .from('infra_references')
+      .select('*')
+      .ilike('plotNumber', `%${term}%`)
+      .limit(limit);
+    return { data: data || [], error };
+  },
+
+  listInfraReferences: async () => {
+    const rows: InfraReferenceItem[] = [];
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('infra_references')
+        .select('*')
+        .order('createdAt', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + LIST_PAGE_SIZE - 1);
+      if (error) return { data: rows, error };
+      rows.push(...(data || []));
+      if (!data || data.length < LIST_PAGE_SIZE) return { data: rows, error: null };
+    }
+  },
+
+  updateInfraReference: async (id, payload) => {
+    const { data, error } = await supabase
+      .from('infra_references')
+      .update(payload)
+      .eq('id', id)
+      .select('*');
+    return { data: data || [], error };
+  },
+
+  deleteInfraReference: async id => {
+    const { error } = await supabase
+      .from('infra_references')
+      .delete()
+      .eq('id', id);
+    return { data: null, error };
+  },
+
+  getInfraReferencesById: async ids => {
+    const rows: InfraReferenceItem[] = [];
+    for (let i = 0; i < ids.length; i += IN_LIST_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('infra_references')
+        .select('*')
+        .in('id', ids.slice(i, i + IN_LIST_CHUNK_SIZE));
+      if (error) return { data: rows, error };
+      rows.push(...(data || []));
+    }
+    return { data: rows, error: null };
+  },
+
+  insertInfraReferences: async rows => {
+    const { data, error } = await supabase
+      .from('infra_references')
+      .insert(rows)
+      .select('*');
+    return { data: data || [], error };
+  },
+
+  listImportedRows: async (table, batchId) => {
+    const rows: any[] = [];
+    for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select(table === 'records' ? 'id, referenceNumber' : 'id, plotNumber, applicationNumber')
+        .eq('importBatchId', batchId)
+        .order('id', { ascending: true })
+        .range(offset, offset + LIST_PAGE_SIZE - 1);
+      if (error) return { data: rows, error };
+      rows.push(...(data || []));
+      if (!data || data.length < LIST_PAGE_SIZE) return { data: rows, error: null };
+    }
+  },
+
+  deleteImportedRows: async (table, ids) => {
+    for (let i = 0; i < ids.length; i += IN_LIST_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .in('id', ids.slice(i, i + IN_LIST_CHUNK_SIZE));
+      if (error) return { data: null, error };
+    }
+    return { data: null, error: null };
+  },
+
+  listImportBatches: async statuses => {
+    let query = supabase.from('import_batches').select('*');
+    if (statuses) query = query.in('status', statuses);
+
+    const { data, error } = await query.order('createdAt', { ascending: false });
+    return { data: data || [], error };
+  },
+
+  insertImportBatch: async payload => {
+    const { data, error } = await supabase
+      .from('import_batches')
+      .insert([payload])
+      .select()
+      .single();
+    return { data, error };
+  },
+
+  updateImportBatch: async (id, payload) => {
+    const { data, error } = await supabase
+      .from('import_batches')
+      .update(payload)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+    return { data, error };
+  },
+
+  deleteImportBatch: async id => {
+    const { error } = await supabase
+      .from('import_batches')
+      .delete()
+      .eq('id', id);
+    return { data: null, error };
+  },
+
+  insertImportBatchItems: async items => {
+    const { error } = await supabase
+      .from('import_batch_items')
+      .insert(items);
+    return { data: null, error };
+  },
+
+  listImportBatchItems: async (batchId, status, offset, limit) => {
+    let query = supabase
+      .from('import_batch_items')
+      .select('*')
+      .eq('batchId', batchId);
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query
+      .order('targetTable', { ascending: false })
+      .order('sourceRow', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + limit - 1);
+    return { data: data || [], error };
+  },
+
+  updateImportBatchItems: async (ids, fields) => {
+    for (let i = 0; i < ids.length; i += IN_LIST_CHUNK_SIZE) {
+      const { error } = await supabase
+        .from('import_batch_items')
+        .update(fields)
+        .in('id', ids.slice(i, i + IN_LIST_CHUNK_SIZE));
+      if (error) return { data: null, error };
+    }
+    return { data: null, error: null };
+  },
+
+  // Items share the same columns, so one upsert can carry a different targetId / previous for each.
+  saveImportBatchItems: async items => {
+    const { error } = await supabase
+      .from('import_batch_items')
+      .upsert(items, { onConflict: 'id' });
+    return { data: null, error };
+  },
+
+  queryGrid: async (filters, sort, offset, limit, withCount) => {
+    const select = supabase.from(GRID_SOURCE).select('*', withCount ? { count: 'exact' } : undefined);
+    const { data, error, count } = await applyRecordSort(applyRecordFilters(select, filters), sort)
+      .range(offset, offset + limit - 1);
+    return { data: data || [], error, count: count ?? null };
+  },
+
+  // Grouped counts use PostgREST aggregates, enabled in supabase_schema.sql.
+  countGrid: async (columns, filters, skip) => {
+    const { data, error } = await applyRecordFilters(
+      supabase.from(GRID_SOURCE).select(`${columns.join(', ')}, count()`),
+      filters,
+      skip
+    );
+    return { data: data || [], error };
+  }
+});
@@ -0,0 +1,56 @@
+import { SyncStatus, SyncConflict } from '../types';
+
+let status: SyncStatus = {
+  state: typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'online',
+  pending: 0,
+  conflicts: [],
+  lastSyncedAt: null,
+  lastError: null
+};
+
+const listeners = new Set<(status: SyncStatus) => void>();
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const updateSyncStatus = (patch: Partial<SyncStatus>) => {
+  status = { ...status, ...patch };
+  listeners.forEach(listener => listener(status));
+};
+
+/**
+ * Calls `callback` with every status change. Returns the unsubscribe function.
+ */
+export const onSyncStatusChange = (callback: (status: SyncStatus) => void) => {
+  listeners.add(callback);
+  return () => { listeners.delete(callback); };
+};
+
+/**
+ * True for failures that mean "Supabase could not be reached" rather than a rejected request.
+ * supabase-js reports those without a Postgres/PostgREST code and with the fetch error as message.
+ */
+export const isNetworkError = (error: any): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (!error || error.code) return false;
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(String(error.message || error));
+};
+
+/**
+ * Records the outcome of a Supabase call: a network failure flips the app offline, any answer
+ * from the server flips it back.
+ */
+export const noteConnectivity = (error: any) => {
+  if (isNetworkError(error)) {
+    if (status.state !== 'offline') updateSyncStatus({ state: 'offline' });
+  } else if (status.state === 'offline') {
+    updateSyncStatus({ state: 'online' });
+  }
+};
+
+export const isOffline = () => status.state === 'offline';
+
+export const addSyncConflict = (conflict: SyncConflict) =>
+  updateSyncStatus({ conflicts: [...status.conflicts, conflict] });
+
+export const dismissSyncConflict = (conflict: SyncConflict) =>
+  updateSyncStatus({ conflicts: status.conflicts.filter(c => c !== conflict) });
@@ -0,0 +1,141 @@
+import { RecordItem, InfraReferenceItem } from '../types';
+import { LLMProvider, LLMRequest, ReportSubject } from './llmProvider';
+import { isValidPaymentMarker } from './infraHook';
+import { parseRecordQuery } from './recordQuery';
+
+// Project records always carry a reference number; infra reference rows never do.
+export const isProjectRecord = (subject: ReportSubject): subject is RecordItem => 'referenceNumber' in subject;
+
+const present = (value: any) => value !== undefined && value !== null && String(value).trim() !== '';
+
+// "- **Label**: value" lines for the values that are filled in.
+const bullets = (pairs: [string, any][]) =>
+  pairs.filter(([, value]) => present(value)).map(([label, value]) => `- **${label}**: ${String(value).trim()}`);
+
+const section = (title: string, lines: string[], empty: string) =>
+  [`## ${title}`, '', ...(lines.length ? lines : [empty]), ''];
+
+const formatDate = (value?: string) => {
+  if (!present(value)) return undefined;
+  const time = Date.parse(value!);
+  return isNaN(time) ? value : new Date(time).toISOString().split('T')[0];
+};
+
+const projectReport = (record: RecordItem): string[] => [
+  `# Project Status Report: ${record.label || record.referenceNumber}`,
+  '',
+  `Reference **${record.referenceNumber || 'N/A'}** • Plot **${record.plotNumber || 'N/A'}** • Source: Active Project Records`,
+  '',
+  ...section('Executive Summary', bullets([
+    ['Project', record.label],
+    ['Type', [record.type, record.subtype, record.jobType].filter(present).join(' / ')],
+    ['Stage', record.status],
+    ['Urgent', record.urgent ? 'Yes' : undefined],
+    ['Created', formatDate(record.createdAt)]
+  ]), 'No summary fields recorded.'),
+  ...section('Current Status', bullets([
+    ['Stage', record.status],
+    ['Phase', record.phase],
+    ['Schedule', [formatDate(record.scheduleStartDate), formatDate(record.scheduleEndDate)].filter(present).join(' to ')],
+    ['Workflow entry', formatDate(record.workflowEntryDate)],
+    ['Requires USP', record.requireUSP ? 'Yes' : 'No'],
+    ['Sent to USP', formatDate(record.sentToUSPDate)]
+  ]), 'No status details recorded.'),
+  ...section('Location Details', bullets([
+    ['Governorate', record.governorate],
+    ['Zone', record.zone],
+    ['Block', record.block],
+    ['Plot', record.plotNumber]
+  ]), 'No location recorded.'),
+  ...section('Financial & Payments', bullets([
+    ['Payment date', formatDate(record.paymentDate)],
+    ['Capital contribution', record.capitalContribution],
+    ['Planned total cost', record.plannedTotalCost],
+    ['Planned material cost', record.plannedMaterialCost],
+    ['Planned service cost', record.plannedServiceCost],
+    ['Contractor payment date', formatDate(record.contractorPaymentDate)]
+  ]), 'No Payment History Found.'),
+  ...section('Technical Details', bullets([
+    ['Total power', record.totalPower],
+    ['Wayleave', record.wayleaveNumber],
+    ['Account', record.accountNumber],
+    ['Work order', record.workOrder],
+    ['NAS code', record.nasCode],
+    ['Planning engineer', record.planningEngineer],
+    ['Construction engineer', record.constructionEngineer],
+    ['Supervisor', record.supervisor],
+    ['Contractors', [record.nominatedContractor, record.mtcContractor, record.installationContractor].filter(present).join(', ')]
+  ]), 'No technical details recorded.'),
+  ...section('Remarks', bullets([
+    ['Description', record.description],
+    ['Justification', record.justification]
+  ]), 'No remarks recorded.')
+];
+
+const infraReport = (row: InfraReferenceItem): string[] => {
+  const payments: [string, any][] = [
+    ['Initial payment', row.initialPaymentDate],
+    ['Second payment', row.secondPayment],
+    ['Third payment', row.thirdPayment]
+  ];
+  const paid = payments.filter(([, value]) => isValidPaymentMarker(value));
+
+  return [
+    `# Plot Status Report: ${row.plotNumber || row.applicationNumber || 'Unknown plot'}`,
+    '',
+    `Plot **${row.plotNumber || 'N/A'}** • Application **${row.applicationNumber || 'N/A'}** • Source: Infrastructure Database (Excel)`,
+    '',
+    ...section('Executive Summary', bullets([
+      ['Owner', row.ownerNameEn || row.ownerNameAr],
+      ['Application', row.applicationNumber],
+      ['BP request', row.bpRequestNumber],
+      ['Construction type', row.constructionType],
+      ['Usage', [row.propCategory, row.usageNature].filter(present).join(' / ')]
+    ]), 'No summary fields recorded.'),
+    ...section('Current Status', bullets([
+      ['Application status', row.applicationStatus],
+      ['Fee status', row.ewaFeeStatus],
+      ['Infra fees', paid.length ? 'Paid' : 'Unpaid']
+    ]), 'No status recorded.'),
+    ...section('Location Details', bullets([
+      ['Block', row.blockNumber],
+      ['Road', row.roadNumber],
+      ['Building', row.buildingNumber],
+      ['Investment zone', row.investmentZone],
+      ['Gated community', row.mouGatedCommunity]
+    ]), 'No location recorded.'),
+    ...section('Financial & Payments', [
+      ...bullets(paid),
+      ...bullets([['Partial exemption', row.partialExemption]])
+    ], 'No Payment History Found.'),
+    ...section('Technical Details', bullets([
+      ['Load', row.momaaLoad],
+      ['Buildable area', row.buildableArea],
+      ['Addresses', row.numberOfAddresses],
+      ['Account', row.accountNumber],
+      ['Title deed', row.titleDeed]
+    ]), 'No technical details recorded.'),
+    ...section('Remarks', bullets([['Error log', row.errorLog]]), 'No remarks recorded.')
+  ];
+};
+
+/**
+ * LLMProvider that fills fixed Markdown templates from the request's data and ignores the prompt;
+ * search queries go through the grammar parser instead. Output depends only on that data, so it
+ * works offline and is stable enough to assert on in tests.
+ */
+export const createTemplateProvider = (): LLMProvider => ({
+  kind: 'template',
+  label: 'Offline template',
+
+  async generate(request: LLMRequest) {
+    switch (request.task) {
+      case 'recordReport': {
+        const lines = isProjectRecord(request.data) ? projectReport(request.data) : infraReport(request.data);
+        return [...lines, '---', '', '*Compiled from the stored fields by the offline template.*'].join('\n');
+      }
+      case 'recordQuery':
+        return JSON.stringify(parseRecordQuery(request.data.text, request.data.vocabulary));
+    }
+  }
+});
@@ -17,6 +17,47 @@ CREATE TABLE IF NOT EXISTS public.records (
     "createdAt" TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- 1b. Create import_batches table (one row per Excel sync) and its planned writes
+CREATE TABLE IF NOT EXISTS public.import_batches (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    "fileName" TEXT NOT NULL,
+    "profileName" TEXT,
+    "mode" TEXT NOT NULL DEFAULT 'merge',
+    "status" TEXT NOT NULL DEFAULT 'running' CHECK ("status" IN ('running', 'completed', 'failed', 'rolled_back')),
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "appliedRows" INTEGER NOT NULL DEFAULT 0,
+    "projectsCreated" INTEGER NOT NULL DEFAULT 0,
+    "projectsUpdated" INTEGER NOT NULL DEFAULT 0,
+    "infraCreated" INTEGER NOT NULL DEFAULT 0,
+    "infraUpdated" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMPTZ DEFAULT NOW(),
+    "finishedAt" TIMESTAMPTZ,
+    "rolledBackBy" TEXT,
+    "rolledBackAt" TIMESTAMPTZ
+);
+
+ALTER TABLE public.import_batches ADD COLUMN IF NOT EXISTS "skippedRows" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.import_batches ADD COLUMN IF NOT EXISTS "invalidRows" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.import_batches ADD COLUMN IF NOT EXISTS "sheetNames" JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.import_batches ADD COLUMN IF NOT EXISTS "statusBreakdown" JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE TABLE IF NOT EXISTS public.import_batch_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    "batchId" UUID NOT NULL REFERENCES public.import_batches(id) ON DELETE CASCADE,
+    "targetTable" TEXT NOT NULL CHECK ("targetTable" IN ('records', 'infra_references')),
+    "action" TEXT NOT NULL CHECK ("action" IN ('create', 'update')),
+    "targetId" UUID,
+    "payload" JSONB NOT NULL DEFAULT '{}'::jsonb,
+    "previous" JSONB,
+    "status" TEXT NOT NULL DEFAULT 'pending' CHECK ("status" IN ('pending', 'applied', 'rolled_back')),
+    "sourceSheet" TEXT,
+    "sourceRow" INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_items_batch ON public.import_batch_items ("batchId", "status");
+
 -- 2. Add columns if table exists (Safe migration for existing users)
 DO $$
 BEGIN
@@ -130,9 +171,114 @@ BEGIN
     IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'installationContractor') THEN
         ALTER TABLE public.records ADD COLUMN "installationContractor" TEXT;
     END IF;
+
+    -- Batch 3: Remaining RecordItem fields (see services/recordSchema.ts)
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'bpRequestNumber') THEN
+        ALTER TABLE public.records ADD COLUMN "bpRequestNumber" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'versionNumber') THEN
+        ALTER TABLE public.records ADD COLUMN "versionNumber" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'constructionType') THEN
+        ALTER TABLE public.records ADD COLUMN "constructionType" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'ewaFeeStatus') THEN
+        ALTER TABLE public.records ADD COLUMN "ewaFeeStatus" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'applicationStatus') THEN
+        ALTER TABLE public.records ADD COLUMN "applicationStatus" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'landOwnerId') THEN
+        ALTER TABLE public.records ADD COLUMN "landOwnerId" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'ownerNameEn') THEN
+        ALTER TABLE public.records ADD COLUMN "ownerNameEn" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'ownerNameAr') THEN
+        ALTER TABLE public.records ADD COLUMN "ownerNameAr" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'numberOfAddresses') THEN
+        ALTER TABLE public.records ADD COLUMN "numberOfAddresses" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'mouGatedCommunity') THEN
+        ALTER TABLE public.records ADD COLUMN "mouGatedCommunity" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'buildingNumber') THEN
+        ALTER TABLE public.records ADD COLUMN "buildingNumber" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'roadNumber') THEN
+        ALTER TABLE public.records ADD COLUMN "roadNumber" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'titleDeed') THEN
+        ALTER TABLE public.records ADD COLUMN "titleDeed" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'buildableArea') THEN
+        ALTER TABLE public.records ADD COLUMN "buildableArea" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'applicationDate') THEN
+        ALTER TABLE public.records ADD COLUMN "applicationDate" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'nationality') THEN
+        ALTER TABLE public.records ADD COLUMN "nationality" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'propertyCategory') THEN
+        ALTER TABLE public.records ADD COLUMN "propertyCategory" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'usageNature') THEN
+        ALTER TABLE public.records ADD COLUMN "usageNature" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'investmentZone') THEN
+        ALTER TABLE public.records ADD COLUMN "investmentZone" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'initialPaymentDate') THEN
+        ALTER TABLE public.records ADD COLUMN "initialPaymentDate" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'secondPayment') THEN
+        ALTER TABLE public.records ADD COLUMN "secondPayment" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'thirdPayment') THEN
+        ALTER TABLE public.records ADD COLUMN "thirdPayment" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'errorLog') THEN
+        ALTER TABLE public.records ADD COLUMN "errorLog" TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'partialExemption') THEN
+        ALTER TABLE public.records ADD COLUMN "partialExemption" TEXT;
+    END IF;
+
+    -- Batch 4: Import batch stamp
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'importBatchId') THEN
+        ALTER TABLE public.records ADD COLUMN "importBatchId" UUID REFERENCES public.import_batches(id) ON DELETE SET NULL;
+    END IF;
+
+    -- Batch 5: Optimistic concurrency
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'rowVersion') THEN
+        ALTER TABLE public.records ADD COLUMN "rowVersion" INTEGER NOT NULL DEFAULT 1;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'updatedAt') THEN
+        ALTER TABLE public.records ADD COLUMN "updatedAt" TIMESTAMPTZ DEFAULT NOW();
+    END IF;
 END $$;
 
+CREATE INDEX IF NOT EXISTS idx_records_import_batch ON public.records ("importBatchId");
+
+-- Every update bumps rowVersion, whoever writes it; updateRecord only writes while the version it read is current.
+CREATE OR REPLACE FUNCTION public.bump_record_version()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+    NEW."rowVersion" := OLD."rowVersion" + 1;
+    NEW."updatedAt" := NOW();
+    RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS records_bump_version ON public.records;
+CREATE TRIGGER records_bump_version
+    BEFORE UPDATE ON public.records
+    FOR EACH ROW EXECUTE FUNCTION public.bump_record_version();
+
 -- 3. Create infra_references table for Infra Calculator
+-- record_grid (section 6) reads this table, so drop it first; it is recreated below.
+DROP VIEW IF EXISTS public.record_grid;
 DROP TABLE IF EXISTS public.infra_references;
 CREATE TABLE public.infra_references (
     id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -165,28 +311,346 @@ CREATE TABLE public.infra_references (
     "thirdPayment" TEXT,
     "errorLog" TEXT,
     "partialExemption" TEXT,
-    "createdAt" TIMESTAMPTZ DEFAULT NOW()
+    "createdAt" TIMESTAMPTZ DEFAULT NOW(),
+    "importBatchId" UUID REFERENCES public.import_batches(id) ON DELETE SET NULL
 );
 
 -- Index for faster search on plot number
 CREATE INDEX IF NOT EXISTS idx_infra_plot ON public.infra_references ("plotNumber");
+CREATE INDEX IF NOT EXISTS idx_infra_import_batch ON public.infra_references ("importBatchId");
+CREATE INDEX IF NOT EXISTS idx_infra_plot_normalized ON public.infra_references (upper(trim("plotNumber")));
+
+-- 3b. Create record_history table for the status/field audit trail
+CREATE TABLE IF NOT EXISTS public.record_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    "recordId" UUID REFERENCES public.records(id) ON DELETE CASCADE,
+    "field" TEXT NOT NULL,
+    "oldValue" TEXT,
+    "newValue" TEXT,
+    "changedAt" TIMESTAMPTZ DEFAULT NOW(),
+    "actor" TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_history_record ON public.record_history ("recordId", "changedAt");
+
+-- 3c. Create sla_rules table for per-stage service levels
+CREATE TABLE IF NOT EXISTS public.sla_rules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    "status" TEXT NOT NULL,
+    "jobType" TEXT,
+    "governorate" TEXT,
+    "warningDays" INTEGER NOT NULL,
+    "breachDays" INTEGER NOT NULL
+);
+
+-- 3d. Create import_profiles table (shared Excel column mappings)
+CREATE TABLE IF NOT EXISTS public.import_profiles (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "projectMapping" JSONB NOT NULL DEFAULT '{}'::jsonb,
+    "infraMapping" JSONB NOT NULL DEFAULT '{}'::jsonb,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 3e. Create grid_views table (saved dashboard columns, sort and filters)
+CREATE TABLE IF NOT EXISTS public.grid_views (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "shared" BOOLEAN NOT NULL DEFAULT false,
+    "columns" JSONB NOT NULL DEFAULT '[]'::jsonb,
+    "sort" JSONB,
+    "filters" JSONB NOT NULL DEFAULT '{}'::jsonb,
+    "createdAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 3f. Create profiles table (one row per Supabase auth user)
+CREATE TABLE IF NOT EXISTS public.profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    "username" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'user' CHECK ("role" IN ('admin', 'user')),
+    "avatar" TEXT
+);
+
+-- The username decides which records a user may edit, so no two profiles may share one (ignoring
+-- case and spaces). Rename duplicates before running this on an existing project.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_username ON public.profiles (lower(trim("username")));
+
+-- New sign-ups get a regular 'user' profile named after their e-mail address, never after sign-up
+-- metadata, which the client chooses. An admin gives them their engineer name and promotes admins:
+--   UPDATE public.profiles SET username = '<name>' WHERE username = '<e-mail>';
+--   UPDATE public.profiles SET role = 'admin' WHERE username = '<name>';
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    INSERT INTO public.profiles (id, "username")
+    VALUES (NEW.id, COALESCE(NEW.email, NEW.id::text))
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND "role" = 'admin');
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_username()
+RETURNS TEXT LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT "username" FROM public.profiles WHERE id = auth.uid();
+$$;
+
+-- 3g. Record assignees by account. The edit policy compares these ids with auth.uid(); they are
+-- resolved here from the planningEngineer and supervisor names and never written by the app.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'planningEngineerId') THEN
+        ALTER TABLE public.records ADD COLUMN "planningEngineerId" UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'records' AND column_name = 'supervisorId') THEN
+        ALTER TABLE public.records ADD COLUMN "supervisorId" UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+    END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.profile_id_for(name TEXT)
+RETURNS UUID LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+    SELECT id FROM public.profiles WHERE lower(trim("username")) = lower(trim(name)) AND trim(name) <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION public.resolve_record_assignees()
+RETURNS TRIGGER LANGUAGE plpgsql AS $$
+BEGIN
+    NEW."planningEngineerId" := public.profile_id_for(NEW."planningEngineer");
+    NEW."supervisorId" := public.profile_id_for(NEW."supervisor");
+    RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS records_resolve_assignees ON public.records;
+CREATE TRIGGER records_resolve_assignees
+    BEFORE INSERT OR UPDATE ON public.records
+    FOR EACH ROW EXECUTE FUNCTION public.resolve_record_assignees();
+
+-- A renamed profile takes over the records under its new name and gives up those under the old one.
+-- Touching the rows is enough: records_resolve_assignees resolves both ids again.
+CREATE OR REPLACE FUNCTION public.reassign_renamed_profile()
+RETURNS TRIGGER LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    UPDATE public.records
+    SET "planningEngineerId" = NULL
+    WHERE lower(trim("planningEngineer")) IN (lower(trim(OLD."username")), lower(trim(NEW."username")))
+        OR lower(trim("supervisor")) IN (lower(trim(OLD."username")), lower(trim(NEW."username")));
+    RETURN NEW;
+END $$;
+
+DROP TRIGGER IF EXISTS profiles_reassign_records ON public.profiles;
+CREATE TRIGGER profiles_reassign_records
+    AFTER UPDATE OF "username" ON public.profiles
+    FOR EACH ROW WHEN (OLD."username" IS DISTINCT FROM NEW."username")
+    EXECUTE FUNCTION public.reassign_renamed_profile();
+
+-- Resolve records stored before the id columns existed, the same way.
+UPDATE public.records SET "planningEngineerId" = NULL
+WHERE "planningEngineerId" IS NULL AND "supervisorId" IS NULL AND ("planningEngineer" IS NOT NULL OR "supervisor" IS NOT NULL);
 
 -- 4. Enable Row Level Security (Recommended for production)
 ALTER TABLE public.records ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.infra_references ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.record_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sla_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_batch_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.grid_views ENABLE ROW LEVEL SECURITY;
 
--- 5. Create Access Policies (Allow Public/Anon Access for this version)
+-- 5. Create Access Policies (signed-in users read; admins write; users edit records assigned to them)
+-- Mirrors the checks in services/authService.ts.
 DROP POLICY IF EXISTS "Allow full access to authenticated users" ON public.records;
 DROP POLICY IF EXISTS "Allow full access to infra_references for authenticated users" ON public.infra_references;
 DROP POLICY IF EXISTS "Allow full access to public users" ON public.records;
 DROP POLICY IF EXISTS "Allow full access to infra_references for public users" ON public.infra_references;
+DROP POLICY IF EXISTS "Allow full access to record_history for public users" ON public.record_history;
+DROP POLICY IF EXISTS "Allow full access to sla_rules for public users" ON public.sla_rules;
+
+DROP POLICY IF EXISTS "Records readable by signed-in users" ON public.records;
+DROP POLICY IF EXISTS "Records insertable by admins" ON public.records;
+DROP POLICY IF EXISTS "Records editable by admins and assignees" ON public.records;
+DROP POLICY IF EXISTS "Records deletable by admins" ON public.records;
+DROP POLICY IF EXISTS "Infra readable by signed-in users" ON public.infra_references;
+DROP POLICY IF EXISTS "Infra writable by admins" ON public.infra_references;
+DROP POLICY IF EXISTS "History readable by signed-in users" ON public.record_history;
+DROP POLICY IF EXISTS "History appendable by signed-in users" ON public.record_history;
+DROP POLICY IF EXISTS "SLA rules readable by signed-in users" ON public.sla_rules;
+DROP POLICY IF EXISTS "SLA rules writable by admins" ON public.sla_rules;
+DROP POLICY IF EXISTS "Import profiles readable by signed-in users" ON public.import_profiles;
+DROP POLICY IF EXISTS "Import profiles writable by admins" ON public.import_profiles;
+DROP POLICY IF EXISTS "Import batches readable by signed-in users" ON public.import_batches;
+DROP POLICY IF EXISTS "Import batches writable by admins" ON public.import_batches;
+DROP POLICY IF EXISTS "Import batch items readable by signed-in users" ON public.import_batch_items;
+DROP POLICY IF EXISTS "Import batch items writable by admins" ON public.import_batch_items;
+DROP POLICY IF EXISTS "Grid views readable by owner or when shared" ON public.grid_views;
+DROP POLICY IF EXISTS "Grid views insertable by their owner" ON public.grid_views;
+DROP POLICY IF EXISTS "Grid views editable by owner and admins" ON public.grid_views;
+DROP POLICY IF EXISTS "Grid views deletable by owner and admins" ON public.grid_views;
+DROP POLICY IF EXISTS "Profiles readable by owner and admins" ON public.profiles;
+DROP POLICY IF EXISTS "Profiles writable by admins" ON public.profiles;
+
+CREATE POLICY "Records readable by signed-in users" ON public.records
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Records insertable by admins" ON public.records
+    FOR INSERT TO authenticated
+    WITH CHECK (public.is_admin());
+
+CREATE POLICY "Records editable by admins and assignees" ON public.records
+    FOR UPDATE TO authenticated
+    USING (public.is_admin() OR "planningEngineerId" = auth.uid() OR "supervisorId" = auth.uid())
+    WITH CHECK (public.is_admin() OR "planningEngineerId" = auth.uid() OR "supervisorId" = auth.uid());
 
-CREATE POLICY "Allow full access to public users" ON public.records
-    FOR ALL
-    USING (true)
-    WITH CHECK (true);
+CREATE POLICY "Records deletable by admins" ON public.records
+    FOR DELETE TO authenticated
+    USING (public.is_admin());
 
-CREATE POLICY "Allow full access to infra_references for public users" ON public.infra_references
-    FOR ALL
-    USING (true)
-    WITH CHECK (true);
+CREATE POLICY "Infra readable by signed-in users" ON public.infra_references
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Infra writable by admins" ON public.infra_references
+    FOR ALL TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+CREATE POLICY "History readable by signed-in users" ON public.record_history
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "History appendable by signed-in users" ON public.record_history
+    FOR INSERT TO authenticated
+    WITH CHECK ("actor" = public.current_username() OR public.is_admin());
+
+CREATE POLICY "SLA rules readable by signed-in users" ON public.sla_rules
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "SLA rules writable by admins" ON public.sla_rules
+    FOR ALL TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+CREATE POLICY "Import profiles readable by signed-in users" ON public.import_profiles
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Import profiles writable by admins" ON public.import_profiles
+    FOR ALL TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+CREATE POLICY "Import batches readable by signed-in users" ON public.import_batches
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Import batches writable by admins" ON public.import_batches
+    FOR ALL TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+CREATE POLICY "Import batch items readable by signed-in users" ON public.import_batch_items
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Import batch items writable by admins" ON public.import_batch_items
+    FOR ALL TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+CREATE POLICY "Grid views readable by owner or when shared" ON public.grid_views
+    FOR SELECT TO authenticated
+    USING ("shared" OR "owner" = public.current_username());
+
+CREATE POLICY "Grid views insertable by their owner" ON public.grid_views
+    FOR INSERT TO authenticated
+    WITH CHECK ("owner" = public.current_username());
+
+CREATE POLICY "Grid views editable by owner and admins" ON public.grid_views
+    FOR UPDATE TO authenticated
+    USING ("owner" = public.current_username() OR public.is_admin())
+    WITH CHECK ("owner" = public.current_username() OR public.is_admin());
+
+CREATE POLICY "Grid views deletable by owner and admins" ON public.grid_views
+    FOR DELETE TO authenticated
+    USING ("owner" = public.current_username() OR public.is_admin());
+
+CREATE POLICY "Profiles readable by owner and admins" ON public.profiles
+    FOR SELECT TO authenticated
+    USING (id = auth.uid() OR public.is_admin());
+
+CREATE POLICY "Profiles writable by admins" ON public.profiles
+    FOR UPDATE TO authenticated
+    USING (public.is_admin())
+    WITH CHECK (public.is_admin());
+
+-- 6. Dashboard query layer (services/storageService.ts, queryRecords and friends)
+-- Indexes for the default sort, the status tabs and the case-insensitive search.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE INDEX IF NOT EXISTS idx_records_created_at ON public.records ("createdAt" DESC, id);
+CREATE INDEX IF NOT EXISTS idx_records_status_lower ON public.records (lower("status"));
+CREATE INDEX IF NOT EXISTS idx_records_label_trgm ON public.records USING gin ("label" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_records_plot_trgm ON public.records USING gin ("plotNumber" gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_records_reference_trgm ON public.records USING gin ("referenceNumber" gin_trgm_ops);
+
+-- Same rules as isValidPaymentMarker in storageService.ts.
+CREATE OR REPLACE FUNCTION public.is_payment_marker(val TEXT)
+RETURNS BOOLEAN LANGUAGE sql IMMUTABLE AS $$
+    SELECT val IS NOT NULL
+        AND lower(trim(val)) NOT IN ('', 'null', 'undefined', '-', '0', '0.0', 'n/a', 'none', 'no', 'false', '.', '..', '...', '00', '00.00')
+        AND length(trim(val)) > 1;
+$$;
+
+-- Records plus their Infra Hook status, taken from the newest infra row for the plot.
+-- security_invoker keeps the records and infra_references policies in force.
+DROP VIEW IF EXISTS public.record_grid;
+CREATE VIEW public.record_grid WITH (security_invoker = true) AS
+SELECT r.*,
+    CASE WHEN i."plotNumber" IS NULL THEN 'No Infra Record' WHEN i."isPaid" THEN 'Paid' ELSE 'Unpaid' END AS "infraHook",
+    CASE WHEN i."plotNumber" IS NULL THEN 0 WHEN i."isPaid" THEN 2 ELSE 1 END AS "infraHookRank",
+    i."applicationNumber" AS "infraApplicationNumber"
+FROM public.records r
+LEFT JOIN LATERAL (
+    SELECT ir."plotNumber",
+        COALESCE(NULLIF(ir."applicationNumber", ''), 'REF MISSING') AS "applicationNumber",
+        (public.is_payment_marker(ir."initialPaymentDate")
+            OR public.is_payment_marker(ir."secondPayment")
+            OR public.is_payment_marker(ir."thirdPayment")) AS "isPaid"
+    FROM public.infra_references ir
+    WHERE upper(trim(ir."plotNumber")) = r."plotNumber" AND r."plotNumber" <> ''
+    ORDER BY ir."createdAt" DESC
+    LIMIT 1
+) i ON true;
+
+GRANT SELECT ON public.record_grid TO authenticated;
+
+-- Tab and facet counts group with count(), which PostgREST only allows once aggregates are on.
+ALTER ROLE authenticator SET pgrst.db_aggregates_enabled = 'true';
+NOTIFY pgrst, 'reload config';
+
+-- 7. Realtime (services/realtimeService.ts)
+-- Full replica identity so updates and deletes carry the previous row, e.g. the old status or plot.
+ALTER TABLE public.records REPLICA IDENTITY FULL;
+ALTER TABLE public.infra_references REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'records') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.records;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'infra_references') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.infra_references;
+    END IF;
+END $$;
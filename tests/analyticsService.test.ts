@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { stageFunnel, agingByStage, passedEntryTimes, weeklyCounts, weeklyCountsWindow, openWorkload, paymentCoverageByMonth } from '../services/analyticsService';
+import { RecordItem } from '../types';
+
+const record = (id: string, fields: Partial<RecordItem>): RecordItem =>
+  ({ id, label: id, status: 'In Design', createdAt: '2024-01-01T00:00:00Z', ...fields } as RecordItem);
+
+const NOW = Date.parse('2024-03-01T00:00:00Z');
+
+describe('stageFunnel', () => {
+  it('counts each stage and everything at or past it', () => {
+    const funnel = stageFunnel([
+      record('a', { status: 'In Design' }),
+      record('b', { status: 'gis' }),
+      record('c', { status: 'Passed' }),
+      record('d', { status: 'Unknown' })
+    ]);
+    expect(funnel.map(f => [f.stage, f.count, f.reached])).toEqual([
+      ['In Design', 1, 3],
+      ['GIS', 1, 2],
+      ['WL / GSN', 0, 1],
+      ['USP', 0, 1],
+      ['Passed', 1, 1]
+    ]);
+  });
+});
+
+describe('agingByStage', () => {
+  it('buckets open records by days in their current stage', () => {
+    const aging = agingByStage([
+      record('a', { status: 'GIS' }),
+      record('b', { status: 'GIS' }),
+      record('c', { status: 'Passed' })
+    ], { a: '2024-02-25T00:00:00Z' }, NOW);
+    expect(aging.map(row => row.stage)).toEqual(['In Design', 'GIS', 'WL / GSN', 'USP']);
+    expect(aging[1]).toMatchObject({ '0-7d': 1, '60d+': 0, '31-60d': 1 });
+  });
+});
+
+describe('throughput', () => {
+  it('uses logged moves into Passed, falling back to the stage entry time', () => {
+    const records = [record('a', { status: 'GIS' }), record('b', { status: 'Passed', createdAt: '2024-02-07T00:00:00Z' })];
+    const times = passedEntryTimes(records, [
+      { recordId: 'a', changedAt: '2024-02-05T10:00:00Z' },
+      { recordId: 'gone', changedAt: '2024-02-05T10:00:00Z' }
+    ], {});
+    expect(times).toEqual(['2024-02-05T10:00:00Z', '2024-02-07T00:00:00Z']);
+  });
+
+  it('counts per Monday-based week and keeps empty weeks', () => {
+    expect(weeklyCounts(['2024-02-05T10:00:00Z', '2024-02-11T23:00:00Z', '2024-02-20T00:00:00Z', '2023-12-01T00:00:00Z'], '2024-02-07', '2024-02-20')).toEqual([
+      { week: '2024-02-05', count: 2 },
+      { week: '2024-02-12', count: 0 },
+      { week: '2024-02-19', count: 1 }
+    ]);
+  });
+
+  it('reads history from the first Monday to the end of the last day', () => {
+    expect(weeklyCountsWindow('2024-02-07', '2024-02-20')).toEqual({
+      since: '2024-02-05T00:00:00.000Z',
+      until: '2024-02-21T00:00:00.000Z'
+    });
+  });
+});
+
+describe('openWorkload', () => {
+  it('counts open records per engineer and folds the tail into Other', () => {
+    const records = [
+      record('a', { planningEngineer: 'Ali' }),
+      record('b', { planningEngineer: 'Ali' }),
+      record('c', { planningEngineer: 'Sara' }),
+      record('d', { planningEngineer: 'Omar' }),
+      record('e', {}),
+      record('f', { planningEngineer: 'Ali', status: 'Passed' })
+    ];
+    expect(openWorkload(records, 'planningEngineer', 3)).toEqual([
+      { name: 'Ali', count: 2 },
+      { name: 'Sara', count: 1 },
+      { name: 'Other', count: 2 }
+    ]);
+  });
+});
+
+describe('paymentCoverageByMonth', () => {
+  it('reports infra and paid shares per creation month', () => {
+    const coverage = paymentCoverageByMonth([
+      record('a', { plotNumber: 'P1', createdAt: '2024-01-10T00:00:00Z' }),
+      record('b', { plotNumber: 'p2', createdAt: '2024-01-20T00:00:00Z' }),
+      record('c', { plotNumber: 'P3', createdAt: '2024-01-25T00:00:00Z' }),
+      record('d', { plotNumber: 'P1', createdAt: '2024-02-01T00:00:00Z' })
+    ], { P1: { appNo: 'A', isPaid: true }, P2: { appNo: 'B', isPaid: false } });
+    expect(coverage).toEqual([
+      { month: '2024-01', total: 3, infraPct: 67, paidPct: 33 },
+      { month: '2024-02', total: 1, infraPct: 100, paidPct: 100 }
+    ]);
+  });
+});
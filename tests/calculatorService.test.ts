@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCapitalContribution, PAYMENT_TYPES } from '../services/calculatorService';
+
+describe('calculateCapitalContribution', () => {
+  it('lists the payment types in display order', () => {
+    expect(PAYMENT_TYPES).toEqual(['10', '12', '6.5']);
+  });
+
+  it.each([
+    ['10', 400],
+    ['12', 375],
+    ['6.5', 692.3]
+  ] as const)('takes the %s BD share of the fees', (paymentType, share) => {
+    const result = calculateCapitalContribution('1000', '5000', paymentType);
+    expect(result.eddShare).toBeCloseTo(share, 6);
+    expect(result.adjustedCC).toBeCloseTo(5000 - share, 6);
+  });
+
+  it('never adjusts the capital contribution below zero', () => {
+    expect(calculateCapitalContribution(1000, 100, '10').adjustedCC).toBe(0);
+  });
+
+  it('reads blank and unreadable amounts as zero', () => {
+    expect(calculateCapitalContribution('', 'abc', '12')).toEqual({ fees: 0, originalCC: 0, eddShare: 0, adjustedCC: 0 });
+    expect(calculateCapitalContribution('250.5', '', '10')).toMatchObject({ fees: 250.5, eddShare: 100.2, adjustedCC: 0 });
+  });
+});
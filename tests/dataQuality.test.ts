@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RecordItem, InfraReferenceItem } from '../types';
+import { canonicalPlot, scanDataQuality, planRecordMerge, applyDataQualityFixes } from '../services/dataQuality';
+import { getRecords, getAllInfraReferences } from '../services/storageService';
+import { setStorageBackend, getStorageBackend } from '../services/storageBackend';
+import { noteConnectivity } from '../services/syncService';
+import { createLocalBackend } from '../services/localBackend';
+
+const record = (fields: Partial<RecordItem>): RecordItem => ({
+  id: 'r', label: 'Project', status: 'In Design', block: '', zone: '', scheduleStartDate: '', wayleaveNumber: '',
+  accountNumber: '', referenceNumber: '', requireUSP: false, createdAt: '2024-01-01T00:00:00.000Z', rowVersion: 1,
+  ...fields
+});
+
+const infraRow = (fields: Partial<InfraReferenceItem>): InfraReferenceItem => ({
+  id: 'i', createdAt: '2024-01-01T00:00:00.000Z', ...fields
+});
+
+describe('canonicalPlot', () => {
+  it('ignores separators, case and leading zeros', () => {
+    expect(canonicalPlot('0101-1234')).toBe('1011234');
+    expect(canonicalPlot(' 101 1234 ')).toBe('1011234');
+    expect(canonicalPlot('p-100')).toBe('P100');
+    expect(canonicalPlot('000')).toBe('0');
+    expect(canonicalPlot(undefined)).toBe('');
+  });
+});
+
+describe('scanDataQuality', () => {
+  it('finds duplicate references and plots under several references', () => {
+    const records = [
+      record({ id: 'a', referenceNumber: 'REF-1', plotNumber: '100' }),
+      record({ id: 'b', referenceNumber: 'ref-1 ', plotNumber: '200' }),
+      record({ id: 'c', referenceNumber: 'REF-2', plotNumber: '0100' }),
+      record({ id: 'd', referenceNumber: 'REF-3', plotNumber: '300' })
+    ];
+    const issues = scanDataQuality(records, [], ['duplicateReference', 'duplicatePlot']);
+    expect(issues.map(i => [i.check, i.records.map(r => r.id)])).toEqual([
+      ['duplicateReference', ['a', 'b']],
+      ['duplicatePlot', ['a', 'c']]
+    ]);
+  });
+
+  it('rewrites stray plot spellings to the one the infra rows use', () => {
+    const issues = scanDataQuality(
+      [record({ id: 'a', plotNumber: '0101-1234' }), record({ id: 'b', plotNumber: '0101-1234' }), record({ id: 'c', plotNumber: '1011234' })],
+      [infraRow({ id: 'i1', plotNumber: '101-1234' })],
+      ['plotFormat']
+    );
+    expect(issues).toHaveLength(1);
+    expect(issues[0].fix!.label).toBe('Rewrite as 101-1234');
+    expect(issues[0].fix!.recordUpdates.map(u => [u.record.id, u.changes.plotNumber])).toEqual([
+      ['a', '101-1234'], ['b', '101-1234'], ['c', '101-1234']
+    ]);
+    expect(issues[0].fix!.infraUpdates).toEqual([]);
+  });
+
+  it('dates USP records from their stage entry, or leaves them for a manual edit', () => {
+    const issues = scanDataQuality([
+      record({ id: 'a', status: 'USP', workflowEntryDate: '2024-03-02' }),
+      record({ id: 'b', status: 'usp' }),
+      record({ id: 'c', status: 'USP' }),
+      record({ id: 'd', status: 'USP', sentToUSPDate: '2024-03-01' })
+    ], [], ['uspMissingDate'], { b: '2024-04-05T08:00:00.000Z' });
+    expect(issues.map(i => [i.records[0].id, i.fix?.recordUpdates[0].changes])).toEqual([
+      ['a', { sentToUSPDate: '2024-03-02' }],
+      ['b', { sentToUSPDate: '2024-04-05' }],
+      ['c', undefined]
+    ]);
+  });
+
+  it('clears payment placeholders but leaves real payments and blanks alone', () => {
+    const issues = scanDataQuality([], [
+      infraRow({ id: 'i1', plotNumber: '100', initialPaymentDate: 'n/a', secondPayment: '2024-01-05', thirdPayment: 'x' }),
+      infraRow({ id: 'i2', plotNumber: '200', initialPaymentDate: '2024-02-01', secondPayment: '' })
+    ], ['paymentPlaceholder']);
+    expect(issues).toHaveLength(1);
+    expect(issues[0].fix!.infraUpdates[0].changes).toEqual({ initialPaymentDate: null, thirdPayment: null });
+  });
+
+  it('keeps the newest of duplicate infra rows', () => {
+    const [issue] = scanDataQuality([], [
+      infraRow({ id: 'old', plotNumber: '100', applicationNumber: 'APP-1', ownerNameEn: 'Ali', createdAt: '2024-01-01' }),
+      infraRow({ id: 'new', plotNumber: '0100', applicationNumber: 'app-1', createdAt: '2024-02-01' })
+    ], ['duplicateInfra']);
+    expect(issue.fix!.infraDeletes.map(r => r.id)).toEqual(['old']);
+    expect(issue.fix!.infraUpdates).toEqual([{ row: expect.objectContaining({ id: 'new' }), changes: { ownerNameEn: 'Ali' } }]);
+  });
+
+  it('runs only the enabled checks', () => {
+    const records = [record({ id: 'a', referenceNumber: 'REF-1', status: 'USP' }), record({ id: 'b', referenceNumber: 'REF-1' })];
+    expect(scanDataQuality(records, [], []).length).toBe(0);
+    expect(scanDataQuality(records, []).map(i => i.check)).toEqual(['duplicateReference', 'uspMissingDate']);
+  });
+});
+
+describe('planRecordMerge', () => {
+  it('keeps the most complete record and fills its blanks from the rest', () => {
+    const fix = planRecordMerge([
+      record({ id: 'a', referenceNumber: 'REF-1', zone: 'Z1', urgent: true, createdAt: '2024-01-01' }),
+      record({ id: 'b', referenceNumber: 'REF-1', zone: 'Z2', block: '101', governorate: 'Capital', createdAt: '2024-02-01' })
+    ]);
+    expect(fix.recordUpdates).toEqual([{ record: expect.objectContaining({ id: 'b' }), changes: { urgent: true } }]);
+    expect(fix.recordDeletes.map(r => r.id)).toEqual(['a']);
+    expect(fix.conflicts).toEqual(['zone']);
+  });
+});
+
+describe('applying fixes against the local backend', () => {
+  beforeEach(() => {
+    setStorageBackend(createLocalBackend({
+      seed: {
+        records: [
+          { id: 'a', referenceNumber: 'REF-1', label: 'Villa', status: 'USP', plotNumber: '100', createdAt: '2024-01-01T00:00:00.000Z', rowVersion: 1 },
+          { id: 'b', referenceNumber: 'REF-1', label: 'Villa', status: 'USP', plotNumber: '100', workflowEntryDate: '2024-03-02', zone: 'Z1', createdAt: '2024-02-01T00:00:00.000Z', rowVersion: 1 }
+        ],
+        infra_references: [
+          { id: 'i1', plotNumber: '100', initialPaymentDate: '-', createdAt: '2024-01-01T00:00:00.000Z' }
+        ]
+      }
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('merges duplicates, clears placeholders and skips fixes that overlap an earlier one', async () => {
+    const issues = scanDataQuality(await getRecords(), (await getAllInfraReferences())!);
+    expect(issues.map(i => i.check)).toEqual(['duplicateReference', 'uspMissingDate', 'uspMissingDate', 'paymentPlaceholder']);
+
+    const result = await applyDataQualityFixes(issues.flatMap(i => i.fix ? [i.fix] : []));
+    expect(result).toEqual({ applied: 2, failed: 0, skipped: 1 });
+
+    const records = await getRecords();
+    expect(records.map(r => [r.id, r.zone, r.sentToUSPDate])).toEqual([['b', 'Z1', undefined]]);
+    expect((await getAllInfraReferences())![0].initialPaymentDate).toBeNull();
+
+    // What the overlap skipped shows up on the next scan.
+    expect(scanDataQuality(records, (await getAllInfraReferences())!).map(i => i.check)).toEqual(['uspMissingDate']);
+  });
+
+  it('counts a fix as failed instead of queueing it when the store cannot be reached', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const [issue] = scanDataQuality(await getRecords(), [], ['duplicateReference']);
+
+    const local = getStorageBackend();
+    setStorageBackend({ ...local, deleteRecord: async () => ({ data: null, error: { message: 'Failed to fetch' } }) });
+    expect(await applyDataQualityFixes([issue.fix!])).toEqual({ applied: 0, failed: 1, skipped: 0 });
+
+    // Nothing was queued to replay once the connection is back.
+    setStorageBackend(local);
+    noteConnectivity(null);
+    expect((await getRecords()).map(r => r.id).sort()).toEqual(['a', 'b']);
+  });
+});
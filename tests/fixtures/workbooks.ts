@@ -0,0 +1,59 @@
+import * as XLSX from 'xlsx';
+
+// Workbooks shaped like the EDD exports the importer is fed, built cell by cell and written out as
+// real .xlsx bytes so every test goes through the same parsing as an upload. Dates are Excel day
+// serials, as they are in the source files: 45292 is 2024-01-01.
+
+export const PROJECT_HEADERS = ['Reference Number', 'Label', 'Status', 'Plot Number', 'Zone', 'Block', 'Schedule Start', 'Creation Date', 'Urgent'];
+
+export const PROJECT_ROWS: any[][] = [
+  ['REF-001', 'Villa Substation', 'Design', 'p-100', 'Z1', '101', 45292, 45292, 'Yes'],
+  ['ref-002', 'Road 12 Feeder', 'GIS digitalization', '200', 'Z2', '102', '2024-02-15', 45300, ''],
+  ['REF-003', 'Tower Cable', 'Wayleave', '300', 'Z1', '103', 45350, 45310, 'No'],
+  ['REF-004', 'Unknown Stage', 'Awaiting Funds', '400', 'Z3', '104', 45292, 45292, ''],
+  ['REF-005', 'Bad Date', 'Work Design', '500', 'Z2', '105', 'not a date', 45292, '']
+];
+
+export const INFRA_HEADERS = ['Plot Number', 'Application Number', 'First Installment', 'Second Installment', 'Final Settlement'];
+
+export const INFRA_ROWS: any[][] = [
+  [' p-100 ', 'APP-1', '2024-01-20', '', ''],
+  ['200', 'APP-2', '-', 'N/A', '0'],
+  ['300', '', '', '', '12/03/2024']
+];
+
+const toXlsx = (sheets: Record<string, any[][]>): ArrayBuffer => {
+  const wb = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([name, rows]) => XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(rows), name));
+  return XLSX.write(wb, { type: 'array', bookType: 'xlsx' });
+};
+
+/**
+ * A projects sheet and an infra sheet, the usual two-tab export.
+ */
+export const twoSheetWorkbook = () => toXlsx({
+  Projects: [PROJECT_HEADERS, ...PROJECT_ROWS],
+  Infra: [INFRA_HEADERS, ...INFRA_ROWS]
+});
+
+/**
+ * The older single-tab export, where project and infra columns share one sheet.
+ */
+export const mixedSheetWorkbook = () => toXlsx({
+  Export: [
+    [...PROJECT_HEADERS, 'Application Number', 'First Installment'],
+    [...PROJECT_ROWS[0], 'APP-1', '2024-01-20'],
+    ['', '', '', '900', '', '', '', '', '', 'APP-9', ''],
+    [...PROJECT_ROWS[3], '', '']
+  ]
+});
+
+/**
+ * The projects tab exported without its Label column.
+ */
+export const unlabelledWorkbook = () => {
+  const label = PROJECT_HEADERS.indexOf('Label');
+  return toXlsx({
+    Projects: [PROJECT_HEADERS, ...PROJECT_ROWS].map(row => row.filter((_, i) => i !== label))
+  });
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createImportBatch, runImportBatch, rollbackImportBatch, getImportBatchItems } from '../services/importBatchService';
+import { stageAgainstExisting, pendingImportRows, infraMatchKey } from '../services/importService';
+import { getAllInfraReferences, getRecords } from '../services/storageService';
+import { setStorageBackend, getStorageBackend } from '../services/storageBackend';
+import { noteConnectivity } from '../services/syncService';
+import { createLocalBackend } from '../services/localBackend';
+import { InfraReferenceItem, RecordItem, StagedImportRow, StagedSourceRow } from '../types';
+
+const SEED: InfraReferenceItem[] = [
+  { id: 'i-1', plotNumber: 'P-100', applicationNumber: 'APP-1', initialPaymentDate: '2024-01-20', ownerNameEn: 'Ali', createdAt: '2024-01-21T00:00:00.000Z' },
+  { id: 'i-2', plotNumber: '200', applicationNumber: 'APP-2', initialPaymentDate: '2024-02-01', ownerNameEn: 'Sara', createdAt: '2024-02-02T00:00:00.000Z' }
+];
+
+const sheetRows: StagedSourceRow<InfraReferenceItem>[] = [
+  { sourceRow: 2, data: { plotNumber: 'P-100', applicationNumber: 'APP-1', secondPayment: '2024-03-01' } },
+  { sourceRow: 3, data: { plotNumber: '200', applicationNumber: 'APP-2', ownerNameEn: 'Sara Yusuf' } },
+  { sourceRow: 4, data: { plotNumber: '300', applicationNumber: 'APP-3' } }
+];
+
+const byId = (rows: InfraReferenceItem[]) => Object.fromEntries(rows.map(row => [row.id, row]));
+
+describe('import batches against the local backend', () => {
+  beforeEach(() => {
+    setStorageBackend(createLocalBackend({ seed: { infra_references: SEED } }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('updates infra rows with different changed columns without touching the others, and rolls them back', async () => {
+    const staged = stageAgainstExisting(sheetRows, (await getAllInfraReferences())!, infraMatchKey, 'merge');
+    const batch = await createImportBatch({
+      fileName: 'infra.xlsx', mode: 'merge', sheetNames: ['Infra'],
+      projects: [], infra: pendingImportRows(staged), skippedRows: 0, invalidRows: 0
+    });
+    expect(batch).not.toBeNull();
+
+    const run = await runImportBatch(batch!, () => {});
+    expect(run.success).toBe(true);
+    expect(run.batch).toMatchObject({ status: 'completed', appliedRows: 3 });
+
+    const written = byId((await getAllInfraReferences())!);
+    expect(Object.keys(written)).toHaveLength(3);
+    expect(written['i-1']).toMatchObject({ ownerNameEn: 'Ali', initialPaymentDate: '2024-01-20', secondPayment: '2024-03-01' });
+    expect(written['i-2']).toMatchObject({ ownerNameEn: 'Sara Yusuf', initialPaymentDate: '2024-02-01' });
+    expect(written['i-2'].secondPayment).toBeUndefined();
+
+    const rolledBack = await rollbackImportBatch(run.batch!, 'admin');
+    expect(rolledBack).toMatchObject({ status: 'rolled_back', rolledBackBy: 'admin' });
+
+    const restored = byId((await getAllInfraReferences())!);
+    expect(Object.keys(restored).sort()).toEqual(['i-1', 'i-2']);
+    expect(restored['i-1']).toMatchObject({ ...SEED[0], secondPayment: null });
+    expect(restored['i-2']).toMatchObject(SEED[1]);
+    expect((await getImportBatchItems(batch!.id))!.map(item => item.status)).toEqual(['rolled_back', 'rolled_back', 'rolled_back']);
+  });
+
+  it('fails instead of queueing when the store cannot be reached, and resumes from there', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const project: StagedImportRow<RecordItem> = {
+      sourceRow: 2, data: { referenceNumber: 'REF-9', label: 'Feeder', status: 'In Design' }, action: 'create', changes: [], included: true
+    };
+    const batch = await createImportBatch({
+      fileName: 'projects.xlsx', mode: 'merge', sheetNames: ['Projects'],
+      projects: [project], infra: [], skippedRows: 0, invalidRows: 0
+    });
+
+    const local = getStorageBackend();
+    setStorageBackend({ ...local, insertRecord: async () => ({ data: null, error: { message: 'Failed to fetch' } }) });
+    const failed = await runImportBatch(batch!, () => {});
+    expect(failed).toMatchObject({ success: false, batch: { status: 'failed', appliedRows: 0 } });
+    expect((await getImportBatchItems(batch!.id, 'pending'))!).toHaveLength(1);
+
+    setStorageBackend(local);
+    noteConnectivity(null);
+    const resumed = await runImportBatch(failed.batch!, () => {});
+    expect(resumed).toMatchObject({ success: true, batch: { status: 'completed', appliedRows: 1 } });
+    expect((await getRecords()).map(r => r.referenceNumber)).toEqual(['REF-9']);
+  });
+
+  it('stops a resume instead of inserting again when the rows it already wrote cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const batch = await createImportBatch({
+      fileName: 'projects.xlsx', mode: 'merge', sheetNames: ['Projects'],
+      projects: [{ sourceRow: 2, data: { referenceNumber: 'REF-9', label: 'Feeder', status: 'In Design' }, action: 'create', changes: [], included: true }],
+      infra: [], skippedRows: 0, invalidRows: 0
+    });
+
+    const local = getStorageBackend();
+    setStorageBackend({ ...local, listImportedRows: async () => ({ data: [], error: { message: 'permission denied' } }) });
+    const run = await runImportBatch(batch!, () => {});
+    expect(run).toMatchObject({ success: false, batch: { status: 'failed', appliedRows: 0 } });
+    expect(await getRecords()).toEqual([]);
+  });
+});
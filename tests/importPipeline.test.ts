@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readWorkbook, extractSourceRows, stageWorkbook } from '../services/importPipeline';
+import { guessImportProfile, pendingImportRows, hasBlockingIssues } from '../services/importService';
+import { validateProjectRows } from '../services/importValidation';
+import { getRecords, getExistingRecords, queryRecords, getInfraHookData } from '../services/storageService';
+import { createImportBatch, runImportBatch, rollbackImportBatch } from '../services/importBatchService';
+import { setStorageBackend } from '../services/storageBackend';
+import { createLocalBackend } from '../services/localBackend';
+import { EMPTY_FILTERS } from '../services/recordFilters';
+import { WorkbookSheet } from '../types';
+import { twoSheetWorkbook, mixedSheetWorkbook, unlabelledWorkbook } from './fixtures/workbooks';
+
+const NOW = '2024-06-01T00:00:00.000Z';
+
+const profileFor = (sheets: WorkbookSheet[]) =>
+  guessImportProfile([...new Set(sheets.flatMap(s => s.headers))], 'Fixture');
+
+describe('readWorkbook', () => {
+  it('reads each sheet with its headers and a suggested route', () => {
+    const sheets = readWorkbook(twoSheetWorkbook(), 'array');
+    expect(sheets.map(s => [s.name, s.rows.length, s.suggestedRoute])).toEqual([
+      ['Projects', 5, 'projects'],
+      ['Infra', 3, 'infra']
+    ]);
+    expect(sheets[0].headers).toContain('Creation Date');
+  });
+});
+
+describe('extractSourceRows', () => {
+  it('maps statuses, plots, flags and Excel dates onto records', () => {
+    const sheets = readWorkbook(twoSheetWorkbook(), 'array');
+    const { projectRows } = extractSourceRows(sheets, profileFor(sheets), NOW);
+    const [first, second] = projectRows;
+
+    expect(first).toMatchObject({ sourceSheet: 'Projects', sourceRow: 2, sourceStatus: 'Design' });
+    expect(first.data).toMatchObject({
+      referenceNumber: 'REF-001',
+      status: 'In Design',
+      plotNumber: 'P-100',
+      scheduleStartDate: '2024-01-01',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      urgent: true
+    });
+    expect(second.data).toMatchObject({ referenceNumber: 'REF-002', status: 'GIS', scheduleStartDate: '2024-02-15' });
+    expect(second.data.urgent).toBeUndefined();
+  });
+
+  it('leaves unreadable dates out instead of storing the raw text', () => {
+    const sheets = readWorkbook(twoSheetWorkbook(), 'array');
+    const { projectRows } = extractSourceRows(sheets, profileFor(sheets), NOW);
+    expect(projectRows[4].data.scheduleStartDate).toBe('');
+  });
+
+  it('splits a mixed sheet on whether the row carries a status', () => {
+    const sheets = readWorkbook(mixedSheetWorkbook(), 'array').map(s => ({ ...s, route: 'mixed' as const }));
+    const { projectRows, infraRows } = extractSourceRows(sheets, profileFor(sheets), NOW);
+    expect(projectRows.map(r => r.data.referenceNumber)).toEqual(['REF-001', 'REF-004']);
+    expect(validateProjectRows(projectRows, profileFor(sheets).projectMapping)[1].issues?.map(i => i.rule)).toContain('unknown-status');
+    expect(infraRows.map(r => [r.data.plotNumber, r.data.applicationNumber, r.data.createdAt])).toEqual([['900', 'APP-9', NOW]]);
+  });
+});
+
+describe('import pipeline against the local backend', () => {
+  beforeEach(() => {
+    setStorageBackend(createLocalBackend({
+      seed: {
+        records: [
+          { id: 'r-1', referenceNumber: 'REF-001', label: 'Villa Substation', status: 'In Design', plotNumber: 'P-100', zone: 'Z1', block: '101', createdAt: '2024-01-01T00:00:00.000Z', rowVersion: 1 },
+          { id: 'r-3', referenceNumber: 'REF-003', label: 'Tower Cable', status: 'In Design', plotNumber: '300', zone: 'Z9', block: '103', createdAt: '2024-02-25T00:00:00.000Z', rowVersion: 1 }
+        ],
+        infra_references: [
+          { id: 'i-1', plotNumber: 'P-100', applicationNumber: 'APP-1', initialPaymentDate: '2024-01-20', createdAt: '2024-01-21T00:00:00.000Z' }
+        ]
+      }
+    }));
+  });
+
+  it('stages new, changed and invalid rows against the stored records and infra references', async () => {
+    const sheets = readWorkbook(twoSheetWorkbook(), 'array');
+    const { stagedProjects, stagedInfra } = (await stageWorkbook(sheets, profileFor(sheets), 'merge'))!;
+
+    expect(stagedProjects.map(r => [r.data.referenceNumber, r.action, hasBlockingIssues(r)])).toEqual([
+      ['REF-001', 'update', false],
+      ['REF-002', 'create', false],
+      ['REF-003', 'update', false],
+      ['REF-004', 'create', true],
+      ['REF-005', 'create', true]
+    ]);
+    expect(stagedProjects[2].existingId).toBe('r-3');
+    expect(stagedProjects[2].changes.map(c => c.field)).toEqual(expect.arrayContaining(['status', 'zone']));
+    expect(stagedProjects[3].issues?.map(i => i.rule)).toContain('unknown-status');
+
+    expect(stagedInfra.map(r => [r.data.plotNumber, r.action])).toEqual([
+      ['P-100', 'unchanged'],
+      ['200', 'create'],
+      ['300', 'create']
+    ]);
+  });
+
+  it('looks up stored records by reference, trimmed and ignoring case', async () => {
+    expect((await getExistingRecords([' ref-001', 'REF-404']))!.map(r => r.id)).toEqual(['r-1']);
+  });
+
+  it('keeps stored labels when the sheet has no label column', async () => {
+    const sheets = readWorkbook(unlabelledWorkbook(), 'array');
+    const { stagedProjects } = (await stageWorkbook(sheets, profileFor(sheets), 'merge'))!;
+
+    expect(stagedProjects.flatMap(r => r.changes.map(c => c.field))).not.toContain('label');
+    expect(stagedProjects.find(r => r.data.referenceNumber === 'REF-002')?.data.label).toBe('Untitled');
+  });
+
+  it('leaves matched rows alone in skip mode', async () => {
+    const sheets = readWorkbook(twoSheetWorkbook(), 'array');
+    const { stagedProjects } = (await stageWorkbook(sheets, profileFor(sheets), 'skip'))!;
+    expect(pendingImportRows(stagedProjects).map(r => r.data.referenceNumber)).toEqual(['REF-002']);
+  });
+
+  it('syncs the pending rows as a batch, reads them back through the dashboard query and rolls them back', async () => {
+    const sheets = readWorkbook(twoSheetWorkbook(), 'array');
+    const { stagedProjects, stagedInfra } = (await stageWorkbook(sheets, profileFor(sheets), 'merge'))!;
+
+    const batch = await createImportBatch({
+      fileName: 'fixture.xlsx', mode: 'merge', sheetNames: sheets.map(s => s.name),
+      projects: pendingImportRows(stagedProjects), infra: pendingImportRows(stagedInfra), skippedRows: 0, invalidRows: 2
+    });
+    const run = await runImportBatch(batch!, () => {});
+    expect(run).toMatchObject({ success: true, batch: { status: 'completed', appliedRows: 5 } });
+
+    const page = await queryRecords({ ...EMPTY_FILTERS, status: 'In Design' }, { key: 'referenceNumber', direction: 'asc' });
+    expect(page.records.map(r => r.referenceNumber)).toEqual(['REF-001']);
+    expect(page.hookData).toEqual({ 'P-100': { appNo: 'APP-1', isPaid: true } });
+
+    const all = await getRecords();
+    expect(all.map(r => r.referenceNumber).sort()).toEqual(['REF-001', 'REF-002', 'REF-003']);
+    expect(all.find(r => r.referenceNumber === 'REF-003')).toMatchObject({ status: 'WL / GSN', zone: 'Z1', rowVersion: 2 });
+    expect(await getInfraHookData(['p-100', '200'])).toEqual({
+      'P-100': { appNo: 'APP-1', isPaid: true },
+      '200': { appNo: 'APP-2', isPaid: false }
+    });
+
+    await rollbackImportBatch(run.batch!, 'admin');
+    const restored = await getRecords();
+    expect(restored.map(r => r.referenceNumber).sort()).toEqual(['REF-001', 'REF-003']);
+    expect(restored.find(r => r.referenceNumber === 'REF-003')).toMatchObject({ status: 'In Design', zone: 'Z9' });
+    expect(await getInfraHookData(['200'])).toEqual({});
+  });
+});
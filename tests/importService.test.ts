@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { mapSourceToUIStatus, parseDateSafe, getValueByFuzzyKey } from '../services/importService';
+
+describe('mapSourceToUIStatus', () => {
+  it.each([
+    ['Assign planning', 'In Design'],
+    ['Site Visit', 'In Design'],
+    ['Design approval', 'In Design'],
+    ['1Redesign', 'In Design'],
+    ['GIS digitalization', 'GIS'],
+    ['Wayleave', 'WL / GSN'],
+    ['Suspended by EDD', 'USP'],
+    ['Cost estimation', 'USP'],
+    ['Attach Utilities Drawing', 'USP'],
+    ['Work Design', 'Passed']
+  ])('maps %s to %s', (source, expected) => {
+    expect(mapSourceToUIStatus(source)).toBe(expected);
+  });
+
+  it('ignores case and surrounding spaces', () => {
+    expect(mapSourceToUIStatus('  gis DIGITALIZATION ')).toBe('GIS');
+  });
+
+  it('falls back to In Design for unknown statuses', () => {
+    expect(mapSourceToUIStatus('Awaiting Funds')).toBe('In Design');
+    expect(mapSourceToUIStatus('')).toBe('In Design');
+  });
+});
+
+describe('parseDateSafe', () => {
+  it('converts Excel day serials, as numbers or as text', () => {
+    expect(parseDateSafe(45292)).toBe('2024-01-01');
+    expect(parseDateSafe('45292')).toBe('2024-01-01');
+    expect(parseDateSafe(61)).toBe('1900-03-01');
+  });
+
+  it('drops the time of day from fractional serials', () => {
+    expect(parseDateSafe(45292.75)).toBe('2024-01-01');
+  });
+
+  it('rejects numbers outside the workbook date window', () => {
+    expect(parseDateSafe(60)).toBe('');
+    expect(parseDateSafe(100000)).toBe('');
+    expect(parseDateSafe('123456789')).toBe('');
+  });
+
+  it('reads ISO and written-out dates', () => {
+    expect(parseDateSafe('2024-02-15')).toBe('2024-02-15');
+    expect(parseDateSafe('2024-02-15T10:30:00Z')).toBe('2024-02-15');
+  });
+
+  it('returns an empty string for blanks and garbage', () => {
+    expect(parseDateSafe(undefined)).toBe('');
+    expect(parseDateSafe(null)).toBe('');
+    expect(parseDateSafe('')).toBe('');
+    expect(parseDateSafe('not a date')).toBe('');
+  });
+});
+
+describe('getValueByFuzzyKey', () => {
+  const row = { 'Plot Number ': ' 100 ', 'REFERENCE_NUMBER': 'REF-1', 'Zone': null, 'Amount': 12.5 };
+
+  it('matches headers regardless of case, spaces and punctuation', () => {
+    expect(getValueByFuzzyKey(row, 'plot number')).toBe('100');
+    expect(getValueByFuzzyKey(row, 'Reference Number')).toBe('REF-1');
+  });
+
+  it('takes the first candidate that is present', () => {
+    expect(getValueByFuzzyKey(row, 'Ref', 'Reference Number', 'Plot Number')).toBe('REF-1');
+  });
+
+  it('skips null cells and missing headers', () => {
+    expect(getValueByFuzzyKey(row, 'Zone')).toBe('');
+    expect(getValueByFuzzyKey(row, 'Zone', 'Plot')).toBe('');
+    expect(getValueByFuzzyKey(row, 'Zone', 'Plot Number')).toBe('100');
+  });
+
+  it('stringifies numeric cells', () => {
+    expect(getValueByFuzzyKey(row, 'amount')).toBe('12.5');
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { isValidPaymentMarker, hookDataFromInfraRows } from '../services/infraHook';
+
+describe('isValidPaymentMarker', () => {
+  it.each(['', '  ', 'null', 'undefined', '-', '0', '0.0', 'N/A', 'none', 'No', 'FALSE', '.', '..', '...', '00', '00.00'])(
+    'treats placeholder %j as unpaid',
+    value => expect(isValidPaymentMarker(value)).toBe(false)
+  );
+
+  it('treats missing values and single characters as unpaid', () => {
+    expect(isValidPaymentMarker(null)).toBe(false);
+    expect(isValidPaymentMarker(undefined)).toBe(false);
+    expect(isValidPaymentMarker('x')).toBe(false);
+    expect(isValidPaymentMarker(7)).toBe(false);
+  });
+
+  it('accepts dates, amounts and references', () => {
+    expect(isValidPaymentMarker('2024-01-20')).toBe(true);
+    expect(isValidPaymentMarker(' 12/03/2024 ')).toBe(true);
+    expect(isValidPaymentMarker(45292)).toBe(true);
+    expect(isValidPaymentMarker('RCPT-1')).toBe(true);
+  });
+});
+
+describe('hookDataFromInfraRows', () => {
+  it('keys status by normalised plot and reports missing application numbers', () => {
+    expect(hookDataFromInfraRows([
+      { plotNumber: ' p-1 ', applicationNumber: 'APP-1', secondPayment: '2024-01-01' },
+      { plotNumber: '2', thirdPayment: '-' },
+      { plotNumber: '' }
+    ])).toEqual({
+      'P-1': { appNo: 'APP-1', isPaid: true },
+      '2': { appNo: 'REF MISSING', isPaid: false }
+    });
+  });
+
+  it('uses the newest row for a plot', () => {
+    const hookData = hookDataFromInfraRows([
+      { plotNumber: '1', applicationNumber: 'NEW', createdAt: '2024-05-01T00:00:00Z' },
+      { plotNumber: '1', applicationNumber: 'OLD', initialPaymentDate: '2023-01-01', createdAt: '2023-01-01T00:00:00Z' }
+    ]);
+    expect(hookData['1']).toEqual({ appNo: 'NEW', isPaid: false });
+  });
+});
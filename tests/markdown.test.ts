@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown, parseInline, blocksToHtml } from '../services/markdown';
+
+describe('parseInline', () => {
+  it('splits bold, italic and code spans', () => {
+    expect(parseInline('Plot **123** is *pending* on `GIS`')).toEqual([
+      { text: 'Plot ' },
+      { text: '123', bold: true },
+      { text: ' is ' },
+      { text: 'pending', italic: true },
+      { text: ' on ' },
+      { text: 'GIS', code: true }
+    ]);
+  });
+
+  it('leaves lone asterisks alone', () => {
+    expect(parseInline('5 * 3 = 15')).toEqual([{ text: '5 * 3 = 15' }]);
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('reads headings, paragraphs, nested lists, tables and rules', () => {
+    const blocks = parseMarkdown([
+      '# Report',
+      'First line',
+      'continues here.',
+      '',
+      '1. **Executive Summary**:',
+      '   - Plot 123',
+      '     still plot',
+      '2. Status',
+      '## Payments',
+      '| Payment | Date |',
+      '|---|---|',
+      '| Initial | 2024-01-01 |',
+      '---'
+    ].join('\n'));
+
+    expect(blocks.map(b => b.type)).toEqual(['heading', 'paragraph', 'list', 'heading', 'table', 'rule']);
+    expect(blocks[1]).toEqual({ type: 'paragraph', spans: [{ text: 'First line continues here.' }] });
+    expect(blocks[2]).toMatchObject({
+      ordered: true,
+      items: [
+        { depth: 0, spans: [{ text: 'Executive Summary', bold: true }, { text: ':' }] },
+        { depth: 1, spans: [{ text: 'Plot 123 still plot' }] },
+        { depth: 0, spans: [{ text: 'Status' }] }
+      ]
+    });
+    expect(blocks[4]).toEqual({
+      type: 'table',
+      header: [[{ text: 'Payment' }], [{ text: 'Date' }]],
+      rows: [[[{ text: 'Initial' }], [{ text: '2024-01-01' }]]]
+    });
+  });
+
+  it('keeps fenced code verbatim', () => {
+    expect(parseMarkdown('```\n# not a heading\n```')).toEqual([{ type: 'code', text: '# not a heading' }]);
+  });
+});
+
+describe('blocksToHtml', () => {
+  it('escapes model output', () => {
+    expect(blocksToHtml(parseMarkdown('<script>alert(1)</script> **&**'))).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt; <strong>&amp;</strong></p>');
+  });
+});
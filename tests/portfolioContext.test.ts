@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildPortfolioContext, selectContextRecords, questionTerms, citedRecords, MAX_CONTEXT_RECORDS } from '../services/portfolioContext';
+import { RecordItem } from '../types';
+
+const record = (id: string, fields: Partial<RecordItem>): RecordItem =>
+  ({ id, label: id, referenceNumber: `REF-${id}`, status: 'In Design', zone: 'A', createdAt: '2024-01-01T00:00:00Z', ...fields } as RecordItem);
+
+const NOW = Date.parse('2024-03-01T00:00:00Z');
+
+describe('questionTerms', () => {
+  it('keeps meaningful words and short numbers, dropping stop words', () => {
+    expect(questionTerms('How many GIS projects are in block 12 for Ahmed?')).toEqual(['gis', 'block', '12', 'ahmed']);
+  });
+});
+
+describe('buildPortfolioContext', () => {
+  const records = [
+    record('a', { status: 'GIS', zone: 'North', planningEngineer: 'Ahmed' }),
+    record('b', { status: 'GIS', zone: 'North', planningEngineer: 'Sara', urgent: true }),
+    record('c', { status: 'Passed', zone: 'South', planningEngineer: 'Ahmed' }),
+    record('d', { status: 'In Design', zone: 'South' })
+  ];
+
+  it('summarises every record rather than a slice', () => {
+    const { summary } = buildPortfolioContext(records, { a: '2024-02-25T00:00:00Z' }, '', NOW);
+    expect(summary).toContain('Total records: 4 (open 3, passed 1, urgent open 1)');
+    expect(summary).toContain('By status: In Design 1, GIS 2, WL / GSN 0, USP 0, Passed 1');
+    expect(summary).toContain('By zone: North 2, South 2');
+    expect(summary).toContain('Open by planning engineer: Ahmed 1, Sara 1, Unassigned 1');
+    expect(summary).toContain('GIS: 0-7d 1, 8-14d 0, 15-30d 0, 31-60d 1, 60d+ 0');
+  });
+
+  it('lists the records matching the question first', () => {
+    const context = buildPortfolioContext(records, {}, 'What is Sara working on?', NOW);
+    expect(context.records[0].id).toBe('b');
+    expect(context.text).toContain('REF-b | b | GIS | 60d in stage | zone North');
+    expect(context.text).toContain('URGENT');
+  });
+});
+
+describe('selectContextRecords', () => {
+  it('fills up with the oldest open records and respects the limit', () => {
+    const many = Array.from({ length: MAX_CONTEXT_RECORDS + 10 }, (_, i) => record(`r${i}`, {}));
+    const days = (r: RecordItem) => Number(r.id.slice(1));
+    const picked = selectContextRecords(many, 'nothing matches this', days);
+    expect(picked).toHaveLength(MAX_CONTEXT_RECORDS);
+    expect(picked[0].id).toBe(`r${MAX_CONTEXT_RECORDS + 9}`);
+  });
+});
+
+describe('citedRecords', () => {
+  it('maps references back to records, ignoring unknown and repeated ones', () => {
+    const records = [record('a', {}), record('b', {})];
+    expect(citedRecords([' ref-b', 'REF-X', 'REF-a', 'REF-b'], records).map(r => r.id)).toEqual(['b', 'a']);
+  });
+});
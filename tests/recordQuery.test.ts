@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { parseRecordQuery, normalizeRecordQuery, recordQueryToFilters, resolveFacetValue, QueryVocabulary, EMPTY_RECORD_QUERY } from '../services/recordQuery';
+import { interpretRecordQuery } from '../services/queryInterpreter';
+import { LLMProvider } from '../services/llmProvider';
+
+const vocabulary: QueryVocabulary = {
+  governorate: ['Muharraq', 'Capital', 'Northern'],
+  planningEngineer: ['Ahmed Ali', 'Ahmed Hasan', 'Sara Yusuf'],
+  constructionEngineer: ['Khalid Omar'],
+  zone: ['A', 'B', 'Hidd Industrial'],
+  jobType: ['New Connection', 'Load Upgrade'],
+  urgent: ['Yes', 'No'],
+  infraHook: ['Paid', 'Unpaid', 'No Infra Record']
+};
+
+const NOW = Date.parse('2024-03-31T12:00:00Z');
+
+describe('parseRecordQuery', () => {
+  it('reads the full example query', () => {
+    expect(parseRecordQuery('urgent GIS projects in Muharraq older than 30 days assigned to Ahmed', vocabulary)).toEqual({
+      status: 'GIS',
+      facets: { urgent: ['Yes'], planningEngineer: ['Ahmed Ali', 'Ahmed Hasan'], governorate: ['Muharraq'] },
+      olderThanDays: 30,
+      newerThanDays: null,
+      text: ''
+    });
+  });
+
+  it('stops a name at the next condition', () => {
+    const query = parseRecordQuery('assigned to sara in muharraq', vocabulary);
+    expect(query.facets).toEqual({ planningEngineer: ['Sara Yusuf'], governorate: ['Muharraq'] });
+  });
+
+  it('falls back to construction engineers and keeps unknown names as typed', () => {
+    expect(parseRecordQuery('handled by khalid', vocabulary).facets).toEqual({ constructionEngineer: ['Khalid Omar'] });
+    expect(parseRecordQuery('assigned to zainab', vocabulary).facets).toEqual({ planningEngineer: ['Zainab'] });
+  });
+
+  it('reads stage aliases, zones, blocks, payment and recent windows', () => {
+    expect(parseRecordQuery('unpaid wayleave jobs in zone b block 305 from the last 2 weeks', vocabulary)).toEqual({
+      ...EMPTY_RECORD_QUERY,
+      status: 'WL / GSN',
+      facets: { infraHook: ['Unpaid'], zone: ['B'], block: ['305'] },
+      newerThanDays: 14,
+      text: 'from'
+    });
+  });
+
+  it('matches multi-word values named outright and leaves the rest as text', () => {
+    expect(parseRecordQuery('load upgrade villa 12', vocabulary)).toMatchObject({
+      facets: { jobType: ['Load Upgrade'] },
+      text: 'villa 12'
+    });
+  });
+});
+
+describe('resolveFacetValue', () => {
+  it('prefers an exact match and otherwise matches whole words only', () => {
+    expect(resolveFacetValue('governorate', 'capital', vocabulary)).toEqual(['Capital']);
+    expect(resolveFacetValue('planningEngineer', 'ahmed', vocabulary)).toEqual(['Ahmed Ali', 'Ahmed Hasan']);
+    expect(resolveFacetValue('planningEngineer', 'ahm', vocabulary)).toEqual([]);
+  });
+});
+
+describe('normalizeRecordQuery', () => {
+  it('drops what a model made up and resolves what it named', () => {
+    expect(normalizeRecordQuery({
+      status: 'gis',
+      facets: { governorate: ['muharraq'], colour: ['red'], planningEngineer: ['Nobody'] },
+      olderThanDays: '30',
+      newerThanDays: -4,
+      text: 42
+    }, vocabulary)).toEqual({
+      status: 'GIS',
+      facets: { governorate: ['Muharraq'], planningEngineer: ['Nobody'] },
+      olderThanDays: 30,
+      newerThanDays: null,
+      text: ''
+    });
+  });
+});
+
+describe('recordQueryToFilters', () => {
+  it('turns ages into a createdAt range', () => {
+    expect(recordQueryToFilters({ ...EMPTY_RECORD_QUERY, status: 'GIS', olderThanDays: 30, newerThanDays: 90, text: 'villa' }, NOW)).toEqual({
+      status: 'GIS',
+      search: 'villa',
+      facets: {},
+      dateRanges: { createdAt: { from: '2024-01-01', to: '2024-03-01' } }
+    });
+    expect(recordQueryToFilters(EMPTY_RECORD_QUERY, NOW)).toMatchObject({ status: 'All Projects', dateRanges: {} });
+  });
+});
+
+describe('interpretRecordQuery', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the model reply when it is valid JSON', async () => {
+    const provider: LLMProvider = { kind: 'gemini', label: 'Stub', generate: async () => '{"status":"USP","facets":{"urgent":["Yes"]}}' };
+    const result = await interpretRecordQuery('urgent usp', vocabulary, provider);
+    expect(result.interpretedBy).toBe('gemini');
+    expect(result.query).toMatchObject({ status: 'USP', facets: { urgent: ['Yes'] } });
+  });
+
+  it('falls back to the grammar parser when the model fails or rambles', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const provider: LLMProvider = { kind: 'gemini', label: 'Stub', generate: async () => 'Sure! Here is your filter.' };
+    const result = await interpretRecordQuery('passed projects in capital', vocabulary, provider);
+    expect(result.interpretedBy).toBe('template');
+    expect(result.query).toMatchObject({ status: 'Passed', facets: { governorate: ['Capital'] } });
+  });
+});
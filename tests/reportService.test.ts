@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as XLSX from 'xlsx';
+import { generateRecordReport, buildReportDocx, reportDocumentXml, recordReportPrompt } from '../services/reportService';
+import { createTemplateProvider } from '../services/templateProvider';
+import { LLMProvider } from '../services/llmProvider';
+import { InfraReferenceItem, RecordItem } from '../types';
+
+const project = {
+  id: 'r1',
+  label: 'Villa Connection',
+  referenceNumber: 'REF-1',
+  status: 'GIS',
+  block: '305',
+  zone: 'A',
+  plotNumber: '12-34',
+  wayleaveNumber: 'WL-9',
+  accountNumber: '',
+  requireUSP: false,
+  urgent: true,
+  scheduleStartDate: '2024-02-01',
+  createdAt: '2024-01-15T08:00:00Z'
+} as RecordItem;
+
+const infraRow: InfraReferenceItem = {
+  id: 'i1',
+  plotNumber: '12-34',
+  applicationNumber: 'APP-7',
+  ownerNameEn: 'A. Owner',
+  initialPaymentDate: '2024-03-01',
+  secondPayment: 'n/a',
+  thirdPayment: '',
+  createdAt: '2024-01-01T00:00:00Z'
+};
+
+describe('template provider', () => {
+  const template = createTemplateProvider();
+
+  it('writes a project report from the stored fields only', async () => {
+    const markdown = await template.generate({ task: 'recordReport', prompt: 'ignored', data: project });
+    expect(markdown).toContain('# Project Status Report: Villa Connection');
+    expect(markdown).toContain('- **Urgent**: Yes');
+    expect(markdown).toContain('- **Wayleave**: WL-9');
+    expect(markdown).not.toContain('**Account**');
+    expect(markdown).toContain('## Financial & Payments\n\nNo Payment History Found.');
+  });
+
+  it('lists only real payment markers for infra rows', async () => {
+    const markdown = await template.generate({ task: 'recordReport', prompt: '', data: infraRow });
+    expect(markdown).toContain('Source: Infrastructure Database (Excel)');
+    expect(markdown).toContain('- **Initial payment**: 2024-03-01');
+    expect(markdown).not.toContain('Second payment');
+    expect(markdown).toContain('- **Infra fees**: Paid');
+  });
+
+  it('is deterministic', async () => {
+    const request = { task: 'recordReport' as const, prompt: '', data: project };
+    expect(await template.generate(request)).toBe(await template.generate(request));
+  });
+});
+
+describe('generateRecordReport', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the given provider with the report prompt', async () => {
+    const provider: LLMProvider = { kind: 'gemini', label: 'Stub', generate: vi.fn(async () => '# From the model') };
+    const report = await generateRecordReport(project, provider);
+    expect(report).toEqual({ markdown: '# From the model', providerLabel: 'Stub', fellBack: false });
+    expect(provider.generate).toHaveBeenCalledWith({ task: 'recordReport', prompt: recordReportPrompt(project), data: project });
+  });
+
+  it('falls back to the template when the provider fails', async () => {
+    const provider: LLMProvider = { kind: 'gemini', label: 'Stub', generate: async () => { throw new Error('offline'); } };
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const report = await generateRecordReport(project, provider);
+    expect(report.fellBack).toBe(true);
+    expect(report.providerLabel).toBe('Offline template');
+    expect(report.markdown).toContain('# Project Status Report: Villa Connection');
+  });
+});
+
+describe('docx export', () => {
+  it('packs the document parts into a zip Word can open', async () => {
+    const markdown = await createTemplateProvider().generate({ task: 'recordReport', prompt: '', data: project });
+    const pkg = XLSX.CFB.read(buildReportDocx(markdown), { type: 'array' });
+    const paths = pkg.FullPaths.map((p: string) => p.replace(/^Root Entry\//, ''));
+    expect(paths).toEqual(expect.arrayContaining(['[Content_Types].xml', '_rels/.rels', 'word/document.xml']));
+
+    const documentXml = new TextDecoder().decode(XLSX.CFB.find(pkg, '/word/document.xml')!.content as Uint8Array);
+    expect(documentXml).toBe(reportDocumentXml(markdown));
+    expect(documentXml).toContain('<w:t xml:space="preserve">Project Status Report: Villa Connection</w:t>');
+  });
+
+  it('escapes text for XML', () => {
+    expect(reportDocumentXml('A & B <c>')).toContain('A &amp; B &lt;c&gt;');
+  });
+});
@@ -72,6 +72,13 @@ export interface RecordItem {
   thirdPayment?: string;
   errorLog?: string;
   partialExemption?: string;
+  importBatchId?: string;    // Import batch that created the record
+
+  // Maintained by the database on every update
+  rowVersion?: number;       // Optimistic concurrency token checked by updateRecord
+  updatedAt?: string;        // Time of the last update
+  planningEngineerId?: string; // Profile id resolved from planningEngineer; the edit policy checks it
+  supervisorId?: string;     // Profile id resolved from supervisor
 }
 
 export interface InfraReferenceItem {
@@ -106,11 +113,141 @@ export interface InfraReferenceItem {
   errorLog?: string;
   partialExemption?: string;
   createdAt: string;
+  importBatchId?: string;
   
   // Frontend helper
   _searchablePlot?: string;
 }
 
+export interface RecordHistoryEntry {
+  id: string;
+  recordId: string;
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+  actor: string;
+}
+
+export interface SlaRule {
+  id?: string;
+  status: string;
+  jobType?: string | null;     // Optional override scope
+  governorate?: string | null; // Optional override scope
+  warningDays: number;
+  breachDays: number;
+}
+
+export type SlaSeverity = 'ok' | 'warning' | 'breached';
+
+export interface SlaEvaluation {
+  daysInStage: number;
+  stageEnteredAt: string;
+  severity: SlaSeverity;
+  rule: SlaRule | null;
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged';
+
+export interface FieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type RowValidity = ValidationSeverity | 'ok';
+
+export interface ValidationIssue {
+  rule: string;           // Id of the rule that raised it, e.g. 'required', 'date-format'
+  field?: string;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export interface StagedSourceRow<T> {
+  data: Partial<T>;       // Mapped values from the workbook
+  raw?: Record<string, any>; // The sheet_to_json row as read, kept for the error report
+  sourceSheet?: string;   // Worksheet the row came from
+  sourceRow: number;      // 1-based Excel row number
+  sourceStatus?: string;  // Status text exactly as it appears in the workbook
+  issues?: ValidationIssue[]; // Validation results; any error blocks the row from syncing
+}
+
+export interface StagedImportRow<T> extends StagedSourceRow<T> {
+  action: ImportAction;
+  existingId?: string;    // Matched database row for update/unchanged
+  changes: FieldChange[]; // Per-field diff against the matched row
+  included: boolean;      // Unticked rows are left out of the sync
+}
+
+export type FieldMapping = Record<string, string>; // Target field -> source workbook header
+
+export type SheetRoute = 'projects' | 'infra' | 'mixed' | 'ignore';
+
+export interface WorkbookSheet {
+  name: string;
+  headers: string[];
+  rows: any[];               // sheet_to_json output
+  route: SheetRoute;
+  suggestedRoute: SheetRoute;
+}
+
+export interface ImportProfile {
+  id?: string;
+  name: string;
+  projectMapping: FieldMapping;
+  infraMapping: FieldMapping;
+  createdBy?: string;
+  createdAt?: string;
+}
+
+export type ImportBatchStatus = 'running' | 'completed' | 'failed' | 'rolled_back';
+
+export interface ImportBatch {
+  id: string;
+  fileName: string;
+  profileName?: string;
+  mode: 'merge' | 'skip';
+  status: ImportBatchStatus;
+  totalRows: number;
+  appliedRows: number;
+  projectsCreated: number;
+  projectsUpdated: number;
+  infraCreated: number;
+  infraUpdated: number;
+  skippedRows: number;
+  invalidRows: number;
+  sheetNames?: string[];
+  statusBreakdown?: Record<string, number>; // Projects written per dashboard stage
+  errorMessage?: string | null;
+  createdBy?: string;
+  createdAt: string;
+  finishedAt?: string | null;
+  rolledBackBy?: string | null;
+  rolledBackAt?: string | null;
+}
+
+export type ImportBatchTable = 'records' | 'infra_references';
+
+/**
+ * One planned write of a batch. Items are stored before any row is touched so an
+ * interrupted sync can pick up the pending ones and a rollback knows what to undo.
+ */
+export interface ImportBatchItem {
+  id: string;
+  batchId: string;
+  targetTable: ImportBatchTable;
+  action: 'create' | 'update';
+  targetId?: string | null;           // Row written (create) or matched (update)
+  payload: Record<string, any>;       // Full row for a create, changed fields for an update
+  previous?: Record<string, any> | null; // Values the update replaced, restored on rollback
+  status: 'pending' | 'applied' | 'rolled_back';
+  sourceSheet?: string | null;
+  sourceRow?: number | null;
+}
+
 export interface User {
   id: string;
   username: string;
@@ -138,7 +275,109 @@ export interface Notification {
   read: boolean;
 }
 
+export interface SaveResult {
+  success: boolean;
+  droppedFields: string[]; // Fields with a value but no matching database column
+  conflict?: RecordItem | null; // Set when the record changed since it was read: the stored copy, or null once deleted
+  queued?: boolean;          // Saved to the offline outbox; replayed on reconnect
+}
+
+export interface AddResult extends SaveResult {
+  record: RecordItem | null;
+}
+
+// Record fields plus the derived Infra Hook column
+export type GridColumnKey = keyof RecordItem | 'infraHook';
+
 export interface SortConfig {
-  key: keyof RecordItem;
+  key: GridColumnKey;
   direction: 'asc' | 'desc';
-}
\ No newline at end of file
+}
+
+export interface GridColumn {
+  key: GridColumnKey;
+  width?: number;            // px; unset columns size to their content
+}
+
+export type FacetKey =
+  | 'zone' | 'block' | 'governorate' | 'jobType' | 'phase'
+  | 'planningEngineer' | 'constructionEngineer' | 'contractor' | 'urgent' | 'infraHook';
+
+export type DateFacetKey = 'scheduleStartDate' | 'paymentDate' | 'createdAt';
+
+export interface DateRange {
+  from?: string;             // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+export interface GridViewFilters {
+  status: string;            // Dashboard tab, "All Projects" for none
+  search: string;
+  facets?: Partial<Record<FacetKey, string[]>>;   // Selected values; any match within a facet, all facets must match
+  dateRanges?: Partial<Record<DateFacetKey, DateRange>>;
+}
+
+export interface GridView {
+  id?: string;
+  name: string;
+  owner: string;             // Username of the author
+  shared: boolean;           // Shared views are visible to the whole team
+  columns: GridColumn[];
+  sort: SortConfig | null;
+  filters: GridViewFilters;
+  createdAt?: string;
+}
+export interface RecordPage {
+  records: RecordItem[];
+  hookData: Record<string, { appNo: string, isPaid: boolean }>;  // Infra Hook per plot, for the rows in this page
+  total: number | null;      // Matching rows across all pages; only counted on the first page
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RealtimeChange<T> {
+  event: RealtimeEvent;
+  row: T | null;             // Row after the change; null for deletes
+  old: Partial<T>;           // Row before the change; only the key for tables without REPLICA IDENTITY FULL
+}
+
+export interface PresencePeer {
+  userId: string;
+  username: string;
+  editingRecordId: string | null;
+}
+
+// A mutation made while offline, replayed in order on reconnect
+// `author` is the id of the user who queued the write; only their session replays it.
+export type QueuedWrite =
+  | { seq?: number, kind: 'add', record: RecordItem, author?: string, queuedAt: string }
+  | { seq?: number, kind: 'update', id: string, updates: Partial<RecordItem>, base: RecordItem | null, author?: string, queuedAt: string }
+  | { seq?: number, kind: 'delete', id: string, base: RecordItem | null, author?: string, queuedAt: string };
+
+export interface SyncConflict {
+  write: QueuedWrite;        // The queued update or delete that no longer applies cleanly
+  theirs: RecordItem | null; // What is stored now; null once deleted
+}
+
+export type SyncState = 'online' | 'offline' | 'syncing';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;           // Queued writes not yet replayed
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  lastError: string | null;
+}
+
+export interface PortfolioMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  references?: string[];     // Reference numbers the answer was based on
+  failed?: boolean;          // The model call failed; kept visible but not sent back as history
+  at: string;
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -7,9 +8,20 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, (process as any).cwd(), '');
   return {
     plugins: [react()],
+    test: {
+      // jsdom supplies the browser globals the services expect (WebSocket for the Supabase client).
+      environment: 'jsdom',
+      include: ['tests/**/*.test.ts']
+    },
     define: {
-      // Explicitly replace process.env.API_KEY with the string value from the environment
-      'process.env.API_KEY': JSON.stringify(env.API_KEY),
+      // Explicitly replace process.env.API_KEY with the string value from the environment (GEMINI_API_KEY, as in the README, or API_KEY)
+      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || env.API_KEY),
+      // Supabase project and storage backend; see services/supabaseClient.ts and services/storageBackend.ts
+      'process.env.SUPABASE_URL': JSON.stringify(env.SUPABASE_URL || ''),
+      'process.env.SUPABASE_ANON_KEY': JSON.stringify(env.SUPABASE_ANON_KEY || ''),
+      'process.env.STORAGE_BACKEND': JSON.stringify(env.STORAGE_BACKEND || ''),
+      // Report writer; see services/llmProvider.ts
+      'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || ''),
     },
   };
 });
\ No newline at end of file